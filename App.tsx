@@ -1,14 +1,42 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import type { Job, SearchFilters } from './types';
-import { findJobs } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { Job, SearchFilters, JobSourceStatus, Application, Resume, SavedSearch, JobAlert } from './types';
+import { ApplicationStage } from './types';
+import { getDefaultProviders, searchAllSources } from './services/jobSources';
+import { mergeJobIntoList } from './services/deduplication';
+import { moveToStage, syncApplications } from './services/applicationTracker';
+import { loadSavedJobs, loadApplications, deleteUnsavedJobAnalyses, persistSavedJobChanges, persistApplicationChanges, loadResumes, saveResume, deleteResume, loadMatchScores, deleteMatchScores, loadSavedSearches, saveSavedSearch, deleteSavedSearch, loadJobAlerts, saveJobAlerts, deleteJobAlerts } from './services/storage';
+import { rankJobsForResume } from './services/matchRanking';
+import type { RankingProgress } from './services/matchRanking';
+import { jobContentKey } from './services/hash';
+import { desiredAnnualSalary, meetsSalaryFloor } from './services/salary';
+import { sortJobs } from './services/jobSorting';
+import { buildFacets, filterByFacets, hasActiveFacets, toggleFacetValue } from './services/jobFacets';
+import type { FacetKey, FacetSelection } from './services/jobFacets';
+import { createJobSearchIndex } from './services/searchIndex';
+import { applySavedSearchRun, createJobAlerts, createSavedSearch, failedSavedSearchRun, loadLastFilters, notifyNewMatches, requestAlertPermission, runSavedSearch, saveLastFilters, startSavedSearchScheduler } from './services/savedSearches';
+import type { SavedSearchRun } from './services/savedSearches';
+import type { JobSortOrder } from './services/jobSorting';
+import { formatRoute, isListView, parseRoute, sameFilters } from './services/router';
+import type { View } from './services/router';
 import SearchBar from './components/SearchBar';
 import JobCard from './components/JobCard';
 import JobDetailModal from './components/JobDetailModal';
-import { SearchIcon, BookmarkIcon, PlusCircleIcon } from './components/icons';
+import { SearchIcon, BookmarkIcon, PlusCircleIcon, ViewColumnsIcon, UserIcon, CogIcon, ChartBarIcon } from './components/icons';
 import AddJobModal from './components/AddJobModal';
 import LiveSearchStatus from './components/LiveSearchStatus';
 import Pagination from './components/Pagination';
+import ApplicationBoard from './components/ApplicationBoard';
+import ImportExportPanel from './components/ImportExportPanel';
+import ResumeProfile from './components/ResumeProfile';
+import MatchRankingBar from './components/MatchRankingBar';
+import SettingsPanel from './components/SettingsPanel';
+import UsagePanel from './components/UsagePanel';
+import SortSelect from './components/SortSelect';
+import FacetSidebar from './components/FacetSidebar';
+import SavedJobSearch from './components/SavedJobSearch';
+import SavedSearchesPanel from './components/SavedSearchesPanel';
+import AlertsMenu from './components/AlertsMenu';
 
 // FIX: Moved NavButton outside of the App component to prevent re-creation on every render. This is a React best practice and can resolve subtle bugs with type inference and component state.
 // FIX: Explicitly defined NavButton props with an interface and used React.FC to resolve a 'children' prop type error.
@@ -29,84 +57,182 @@ const NavButton: React.FC<NavButtonProps> = ({ isActive, onClick, children }) =>
 );
 
 const JOBS_PER_PAGE = 9;
+const JOB_SOURCE_PROVIDERS = getDefaultProviders();
+const DEFAULT_FILTERS: SearchFilters = {
+  query: 'AI Engineer',
+  location: 'Remote',
+  type: 'Full-time',
+  salary: '',
+  workLocation: '',
+  industry: '',
+};
 
 const App: React.FC = () => {
   const [jobs, setJobs] = useState<Job[]>([]);
-  const [savedJobs, setSavedJobs] = useState<Job[]>(() => {
-    try {
-      const saved = window.localStorage.getItem('savedJobs');
-      return saved ? JSON.parse(saved) : [];
-    } catch (error) {
-      console.error("Error reading saved jobs from localStorage", error);
-      return [];
-    }
-  });
+  const [savedJobs, setSavedJobs] = useState<Job[]>([]);
+  const [applications, setApplications] = useState<Record<string, Application>>({});
+  const [isStoreLoaded, setIsStoreLoaded] = useState(false);
+  const [resumes, setResumes] = useState<Resume[]>([]);
+  const [rankingResumeId, setRankingResumeId] = useState('');
+  // Scores for the resume in `rankingResumeId`, keyed by `jobContentKey`.
+  const [matchScores, setMatchScores] = useState<Record<string, number>>({});
+  const [rankingProgress, setRankingProgress] = useState<RankingProgress | null>(null);
+  const [isRanking, setIsRanking] = useState(false);
+  // The view, search, page, list filters and open job start from the URL, so any of them can be bookmarked or shared.
+  const [initialRoute] = useState(() => parseRoute(window.location.search));
+  const [facetSelection, setFacetSelection] = useState<FacetSelection>(initialRoute.facets);
+  const [sortOrder, setSortOrder] = useState<JobSortOrder>(initialRoute.sort);
+  const rankingControllerRef = useRef<AbortController | null>(null);
   const [selectedJob, setSelectedJob] = useState<Job | null>(null);
+  // A job named in the URL that hasn't turned up yet in the saved store, search results or alerts.
+  const [pendingJobId, setPendingJobId] = useState<string | null>(initialRoute.jobId ?? null);
+  const [routeNotice, setRouteNotice] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [filters, setFilters] = useState<SearchFilters>({
-    query: 'AI Engineer',
-    location: 'Remote',
-    type: 'Full-time',
-    salary: '',
-    workLocation: '',
-    industry: '',
-  });
-  const [activeView, setActiveView] = useState<'search' | 'saved'>('search');
+  const [filters, setFilters] = useState<SearchFilters>(() => initialRoute.filters ?? loadLastFilters(DEFAULT_FILTERS));
+  // Bumped to reset the search form when filters are loaded from elsewhere, e.g. a saved search.
+  const [searchBarKey, setSearchBarKey] = useState(0);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [areSavedSearchesLoaded, setAreSavedSearchesLoaded] = useState(false);
+  const savedSearchesRef = useRef<SavedSearch[]>([]);
+  const [checkingSearchId, setCheckingSearchId] = useState<string | null>(null);
+  const [jobAlerts, setJobAlerts] = useState<JobAlert[]>([]);
+  const [activeView, setActiveView] = useState<View>(initialRoute.view);
   const [isAddJobModalOpen, setIsAddJobModalOpen] = useState(false);
-  const [scrapingStatus, setScrapingStatus] = useState<{ completed: string[], current: string | null }>({ completed: [], current: null });
-  const [currentPage, setCurrentPage] = useState(1);
+  const [sourceStatuses, setSourceStatuses] = useState<JobSourceStatus[]>([]);
+  const [currentPage, setCurrentPage] = useState(initialRoute.page);
+  // How the next route change is recorded: a new history entry for navigation, in place for everything else.
+  const nextHistoryEntryRef = useRef<{ push: boolean; isJobEntry?: boolean }>({ push: false });
+  const [savedQuery, setSavedQuery] = useState('');
+  const [savedJobsIndex] = useState(createJobSearchIndex);
+  const searchControllerRef = useRef<AbortController | null>(null);
+  // Last state written to IndexedDB, so each change only persists the records that differ.
+  const persistedJobsRef = useRef<Job[]>([]);
+  const persistedApplicationsRef = useRef<Record<string, Application>>({});
 
-  const JOB_SOURCES = ['LinkedIn', 'Indeed', 'Glassdoor', 'Wellfound', 'Google Careers'];
+  useEffect(() => {
+    Promise.all([loadSavedJobs(), loadApplications()])
+      .then(([storedJobs, storedApplications]) => {
+        persistedJobsRef.current = storedJobs;
+        persistedApplicationsRef.current = storedApplications;
+        // Keep anything the user saved while the database was still opening.
+        setSavedJobs(prev => [...storedJobs, ...prev.filter(job => !storedJobs.some(stored => stored.id === job.id))]);
+        setApplications(prev => ({ ...storedApplications, ...prev }));
+        // Analyses of search results that were never saved are only kept for the session they were made in.
+        deleteUnsavedJobAnalyses(storedJobs.map(job => job.id))
+          .catch(error => console.error("Error deleting analyses of unsaved jobs", error));
+      })
+      .catch(error => console.error("Error loading saved data from IndexedDB", error))
+      .finally(() => setIsStoreLoaded(true));
+    loadResumes()
+      .then(setResumes)
+      .catch(error => console.error("Error loading resumes from IndexedDB", error));
+    loadSavedSearches()
+      .then(setSavedSearches)
+      .catch(error => console.error("Error loading saved searches from IndexedDB", error))
+      .finally(() => setAreSavedSearchesLoaded(true));
+    loadJobAlerts()
+      .then(setJobAlerts)
+      .catch(error => console.error("Error loading job alerts from IndexedDB", error));
+  }, []);
 
   useEffect(() => {
-    try {
-      window.localStorage.setItem('savedJobs', JSON.stringify(savedJobs));
-    } catch (error) {
-      console.error("Error saving jobs to localStorage", error);
-    }
-  }, [savedJobs]);
+    savedSearchesRef.current = savedSearches;
+  }, [savedSearches]);
 
-  const fetchJobs = useCallback(async (currentFilters: SearchFilters) => {
-    setIsLoading(true);
-    setError(null);
-    setJobs([]);
-    setScrapingStatus({ completed: [], current: JOB_SOURCES[0] });
+  const updateSavedSearch = useCallback((search: SavedSearch) => {
+    setSavedSearches(prev => prev.map(s => s.id === search.id ? search : s));
+    saveSavedSearch(search).catch(error => console.error("Error saving search to IndexedDB", error));
+  }, []);
 
-    try {
-      const allFetchedJobs = await findJobs(currentFilters);
-      
-      if (allFetchedJobs.length === 0) {
-        setScrapingStatus({ completed: JOB_SOURCES, current: null });
-        setIsLoading(false);
-        return;
-      }
+  // Runs take a while, so they are applied to the search as it is now; one deleted meanwhile is left deleted.
+  const handleSavedSearchRun = useCallback((run: SavedSearchRun, newJobs: Job[]) => {
+    const current = savedSearchesRef.current.find(s => s.id === run.id);
+    if (!current) return;
+    const search = applySavedSearchRun(current, run);
+    savedSearchesRef.current = savedSearchesRef.current.map(s => s.id === search.id ? search : s);
+    updateSavedSearch(search);
+    if (newJobs.length === 0) return;
+    const alerts = createJobAlerts(search, newJobs);
+    setJobAlerts(prev => [...alerts, ...prev]);
+    saveJobAlerts(alerts).catch(error => console.error("Error saving job alerts to IndexedDB", error));
+    notifyNewMatches(search, newJobs);
+  }, [updateSavedSearch]);
+
+  // Re-run saved searches on their schedule for as long as the app is open.
+  useEffect(() => {
+    if (!areSavedSearchesLoaded) return;
+    return startSavedSearchScheduler({
+      getSearches: () => savedSearchesRef.current,
+      providers: JOB_SOURCE_PROVIDERS,
+      onRun: handleSavedSearchRun,
+    });
+  }, [areSavedSearchesLoaded, handleSavedSearchRun]);
 
-      // Simulate scraping from different sources
-      let jobsAdded = 0;
-      const jobsPerSource = Math.ceil(allFetchedJobs.length / JOB_SOURCES.length);
+  useEffect(() => {
+    if (!isStoreLoaded) return;
+    const previous = persistedJobsRef.current;
+    persistedJobsRef.current = savedJobs;
+    persistSavedJobChanges(previous, savedJobs).catch(error => console.error("Error saving jobs to IndexedDB", error));
+  }, [savedJobs, isStoreLoaded]);
 
-      for (let i = 0; i < JOB_SOURCES.length; i++) {
-        const source = JOB_SOURCES[i];
-        setScrapingStatus(prev => ({ ...prev, current: source }));
+  useEffect(() => {
+    if (!isStoreLoaded) return;
+    // Every saved job is tracked; unsaving a job drops its application.
+    setApplications(prev => syncApplications(savedJobs.map(job => job.id), prev));
+  }, [savedJobs, isStoreLoaded]);
+
+  useEffect(() => {
+    if (!isStoreLoaded) return;
+    const previous = persistedApplicationsRef.current;
+    persistedApplicationsRef.current = applications;
+    persistApplicationChanges(previous, applications).catch(error => console.error("Error saving applications to IndexedDB", error));
+  }, [applications, isStoreLoaded]);
 
-        await new Promise(resolve => setTimeout(resolve, 600));
+  useEffect(() => {
+    if (!resumes.some(r => r.id === rankingResumeId)) {
+      setRankingResumeId(resumes[0]?.id ?? '');
+    }
+  }, [resumes, rankingResumeId]);
 
-        const jobsToAdd = allFetchedJobs.slice(jobsAdded, jobsAdded + jobsPerSource);
-        setJobs(prev => [...prev, ...jobsToAdd]);
-        jobsAdded += jobsPerSource;
+  useEffect(() => {
+    rankingControllerRef.current?.abort();
+    setRankingProgress(null);
+    setMatchScores({});
+    if (!rankingResumeId) return;
+    let cancelled = false;
+    loadMatchScores(rankingResumeId)
+      .then(scores => { if (!cancelled) setMatchScores(prev => ({ ...scores, ...prev })); })
+      .catch(error => console.error("Error loading match scores", error));
+    return () => { cancelled = true; };
+  }, [rankingResumeId]);
 
-        setScrapingStatus(prev => ({
-          completed: [...prev.completed, source],
-          current: JOB_SOURCES[i + 1] || null,
-        }));
-      }
+  const fetchJobs = useCallback(async (currentFilters: SearchFilters, refresh = false) => {
+    // Abandon any search still in flight so its late results don't leak into this one.
+    searchControllerRef.current?.abort();
+    const controller = new AbortController();
+    searchControllerRef.current = controller;
 
+    setIsLoading(true);
+    setError(null);
+    setJobs([]);
+
+    try {
+      await searchAllSources(currentFilters, JOB_SOURCE_PROVIDERS, (statuses, newJobs) => {
+        if (controller.signal.aborted) return;
+        setSourceStatuses(statuses);
+        if (newJobs.length > 0) {
+          setJobs(prev => newJobs.reduce(mergeJobIntoList, prev));
+        }
+      }, controller.signal, { refresh });
     } catch (err) {
+      if (controller.signal.aborted) return;
       setError(err instanceof Error ? err.message : 'An unexpected error occurred.');
       setJobs([]);
     } finally {
-      setIsLoading(false);
+      if (!controller.signal.aborted) {
+        setIsLoading(false);
+      }
     }
   }, []);
 
@@ -114,6 +240,68 @@ const App: React.FC = () => {
     fetchJobs(filters);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
+
+  const routeQuery = formatRoute({
+    view: activeView,
+    filters,
+    page: currentPage,
+    facets: facetSelection,
+    sort: sortOrder,
+    jobId: selectedJob?.id ?? pendingJobId ?? undefined,
+  });
+
+  // Runs after every render, so a navigation that changes nothing doesn't leave a push pending.
+  useEffect(() => {
+    const { push, isJobEntry } = nextHistoryEntryRef.current;
+    nextHistoryEntryRef.current = { push: false };
+    if (routeQuery === window.location.search) return;
+    const url = `${window.location.pathname}${routeQuery}${window.location.hash}`;
+    if (push) window.history.pushState({ isJobEntry: !!isJobEntry }, '', url);
+    else window.history.replaceState(window.history.state, '', url);
+  });
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = parseRoute(window.location.search);
+      if (route.view !== activeView) {
+        rankingControllerRef.current?.abort();
+        setIsRanking(false);
+      }
+      setActiveView(route.view);
+      setCurrentPage(route.page);
+      if (isListView(route.view)) {
+        setFacetSelection(route.facets);
+        setSortOrder(route.sort);
+      }
+      setSelectedJob(prev => prev && prev.id === route.jobId ? prev : null);
+      setPendingJobId(route.jobId ?? null);
+      if (route.filters && !sameFilters(route.filters, filters)) {
+        setFilters(route.filters);
+        setSearchBarKey(key => key + 1);
+        fetchJobs(route.filters);
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [activeView, filters, fetchJobs]);
+
+  // A linked job may only be in the saved store or arrive with the search results, so wait for both.
+  useEffect(() => {
+    if (!pendingJobId) return;
+    const job = [...savedJobs, ...jobs, ...jobAlerts.map(alert => alert.job)].find(j => j.id === pendingJobId);
+    if (job) {
+      setSelectedJob(job);
+      setPendingJobId(null);
+    } else if (isStoreLoaded && !isLoading) {
+      setPendingJobId(null);
+      setRouteNotice("The job in this link isn't in your saved jobs or the current search results.");
+    }
+  }, [pendingJobId, savedJobs, jobs, jobAlerts, isStoreLoaded, isLoading]);
+
+  // The next route change adds a history entry, so the back button undoes it.
+  const pushNextRoute = (isJobEntry = false) => {
+    nextHistoryEntryRef.current = { push: true, isJobEntry };
+  };
   
   const handleSaveJob = (jobToSave: Job) => {
     setSavedJobs(prev => {
@@ -124,51 +312,300 @@ const App: React.FC = () => {
     });
   };
 
+  const handleEditJob = (editedJob: Job) => {
+    const previous = savedJobs.find(job => job.id === editedJob.id);
+    setSavedJobs(prev => prev.map(job => job.id === editedJob.id ? editedJob : job));
+    // The listing may be on screen in the search results too.
+    setJobs(prev => prev.map(job => job.id === editedJob.id ? editedJob : job));
+    setSelectedJob(editedJob);
+
+    // Scores are keyed by the job's text, so a scored job would drop out of the ranking; score the new text instead.
+    const resume = resumes.find(r => r.id === rankingResumeId);
+    if (!previous || !resume || matchScores[jobContentKey(previous)] === undefined) return;
+    rankJobsForResume([editedJob], resume, {
+      cachedScores: matchScores,
+      onScore: (jobKey, score) => setMatchScores(prev => ({ ...prev, [jobKey]: score })),
+      onProgress: () => {},
+    }).catch(error => console.error("Error scoring the edited job", error));
+  };
+
   const handleUnsaveJob = (jobId: string) => {
     setSavedJobs(prev => prev.filter(job => job.id !== jobId));
   };
   
+  const handleImportJobs = (importedJobs: Job[], importedApplications: Application[]) => {
+    setSavedJobs(prev => {
+      const importedById = new Map(importedJobs.map(job => [job.id, job]));
+      const replaced = prev.map(job => importedById.get(job.id) ?? job);
+      return [...replaced, ...importedJobs.filter(job => !prev.some(existing => existing.id === job.id))];
+    });
+    setApplications(prev => ({
+      ...prev,
+      ...Object.fromEntries(importedApplications.map(application => [application.jobId, application])),
+    }));
+  };
+
+  const handleSaveResume = (resume: Resume) => {
+    const previous = resumes.find(r => r.id === resume.id);
+    setResumes(prev => prev.some(r => r.id === resume.id) ? prev.map(r => r.id === resume.id ? resume : r) : [...prev, resume]);
+    saveResume(resume).catch(error => console.error("Error saving resume to IndexedDB", error));
+    // Scores from the old content no longer apply; a renamed resume keeps them.
+    if (previous && (previous.text !== resume.text || previous.file?.data !== resume.file?.data)) {
+      if (resume.id === rankingResumeId) {
+        rankingControllerRef.current?.abort();
+        setIsRanking(false);
+        setRankingProgress(null);
+        setMatchScores({});
+      }
+      deleteMatchScores(resume.id).catch(error => console.error("Error clearing match scores", error));
+    }
+  };
+
+  const handleDeleteResume = (resumeId: string) => {
+    setResumes(prev => prev.filter(r => r.id !== resumeId));
+    deleteResume(resumeId).catch(error => console.error("Error deleting resume from IndexedDB", error));
+  };
+
+  const handleRankMatches = async () => {
+    const resume = resumes.find(r => r.id === rankingResumeId);
+    if (!resume) return;
+    const controller = new AbortController();
+    rankingControllerRef.current = controller;
+    setIsRanking(true);
+    try {
+      await rankJobsForResume(activeView === 'search' ? jobs : savedJobs, resume, {
+        cachedScores: matchScores,
+        signal: controller.signal,
+        onScore: (jobKey, score) => {
+          if (!controller.signal.aborted) setMatchScores(prev => ({ ...prev, [jobKey]: score }));
+        },
+        onProgress: progress => {
+          if (!controller.signal.aborted) setRankingProgress(progress);
+        },
+      });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Error ranking jobs:", err);
+      const stoppedBecause = err instanceof Error ? err.message : 'An unexpected error occurred.';
+      setRankingProgress(prev => ({ total: 0, completed: 0, failed: 0, ...prev, stoppedBecause }));
+    } finally {
+      if (rankingControllerRef.current === controller) setIsRanking(false);
+    }
+  };
+
+  const handleStopRanking = () => {
+    rankingControllerRef.current?.abort();
+    setIsRanking(false);
+  };
+
+  const handleApplicationChange = (application: Application) => {
+    setApplications(prev => ({ ...prev, [application.jobId]: application }));
+  };
+
+  const handleStageChange = (jobId: string, stage: ApplicationStage) => {
+    setApplications(prev => prev[jobId] ? { ...prev, [jobId]: moveToStage(prev[jobId], stage) } : prev);
+  };
+
   const isJobSaved = (jobId: string) => {
     return savedJobs.some(job => job.id === jobId);
   };
 
   const handleSearch = (newFilters: SearchFilters) => {
     setFilters(newFilters);
+    saveLastFilters(newFilters);
+    pushNextRoute();
     setActiveView('search');
     setCurrentPage(1);
     fetchJobs(newFilters);
   };
 
+  const handleSaveSearch = (name: string, refreshMinutes: number | null) => {
+    const search = createSavedSearch(name, filters, jobs, refreshMinutes ?? undefined);
+    if (refreshMinutes) requestAlertPermission();
+    setSavedSearches(prev => [...prev, search]);
+    saveSavedSearch(search).catch(error => console.error("Error saving search to IndexedDB", error));
+  };
+
+  const handleOpenSavedSearch = (search: SavedSearch) => {
+    setSearchBarKey(key => key + 1);
+    handleSearch(search.filters);
+  };
+
+  const handleCheckSavedSearch = async (search: SavedSearch) => {
+    setCheckingSearchId(search.id);
+    try {
+      const { run, newJobs } = await runSavedSearch(search, JOB_SOURCE_PROVIDERS);
+      handleSavedSearchRun(run, newJobs);
+    } catch (err) {
+      handleSavedSearchRun(failedSavedSearchRun(search, err), []);
+    } finally {
+      setCheckingSearchId(null);
+    }
+  };
+
+  const handleSavedSearchRefreshChange = (search: SavedSearch, refreshMinutes: number | null) => {
+    if (refreshMinutes) requestAlertPermission();
+    updateSavedSearch({ ...search, refreshMinutes: refreshMinutes ?? undefined });
+  };
+
+  const handleDeleteSavedSearch = (searchId: string) => {
+    setSavedSearches(prev => prev.filter(s => s.id !== searchId));
+    setJobAlerts(prev => prev.filter(alert => alert.searchId !== searchId));
+    deleteSavedSearch(searchId).catch(error => console.error("Error deleting saved search from IndexedDB", error));
+  };
+
+  const markAlertsRead = (alerts: JobAlert[]) => {
+    const unread = alerts.filter(alert => !alert.read).map(alert => ({ ...alert, read: true }));
+    if (unread.length === 0) return;
+    const readIds = new Set(unread.map(alert => alert.id));
+    setJobAlerts(prev => prev.map(alert => readIds.has(alert.id) ? { ...alert, read: true } : alert));
+    saveJobAlerts(unread).catch(error => console.error("Error saving job alerts to IndexedDB", error));
+  };
+
+  const handleOpenAlert = (alert: JobAlert) => {
+    markAlertsRead([alert]);
+    handleJobSelect(alert.job);
+  };
+
+  const handleClearAlerts = () => {
+    const ids = jobAlerts.map(alert => alert.id);
+    setJobAlerts([]);
+    deleteJobAlerts(ids).catch(error => console.error("Error deleting job alerts from IndexedDB", error));
+  };
+
+  const unreadAlertCounts = jobAlerts.reduce<Record<string, number>>((counts, alert) => {
+    if (!alert.read) counts[alert.searchId] = (counts[alert.searchId] ?? 0) + 1;
+    return counts;
+  }, {});
+
   const handleJobSelect = (job: Job) => {
+    pushNextRoute(true);
     setSelectedJob(job);
+    setPendingJobId(null);
+    setRouteNotice(null);
   };
 
   const handleCloseModal = () => {
-    setSelectedJob(null);
+    // Going back keeps the history in step when the modal was opened in this tab; a linked job is closed in place.
+    if (window.history.state?.isJobEntry) window.history.back();
+    else setSelectedJob(null);
   };
   
   const handleJobParsedAndSaved = (job: Job) => {
-    handleSaveJob(job);
+    // Pasted postings often duplicate a job that is already saved, so fold them together.
+    setSavedJobs(prev => mergeJobIntoList(prev, job));
+    pushNextRoute();
     setActiveView('saved'); // Switch to saved view to show the new job
   };
 
-  const handleViewChange = (view: 'search' | 'saved') => {
+  const handleViewChange = (view: View) => {
+    handleStopRanking();
+    pushNextRoute();
     setActiveView(view);
     setCurrentPage(1);
   }
   
   // Pagination logic
-  const jobsToDisplay = activeView === 'search' ? jobs : savedJobs;
+  const scoreOf = (job: Job) => matchScores[jobContentKey(job)];
+  // Sources don't all honour the desired salary, so results with a known salary below it are hidden here.
+  const salaryFloor = desiredAnnualSalary(filters.salary);
+  const searchResults = jobs.filter(job => meetsSalaryFloor(job, salaryFloor));
+  const hiddenBySalary = jobs.length - searchResults.length;
+  // The index is updated incrementally whenever the saved list changes.
+  const savedSearch = useMemo(() => {
+    savedJobsIndex.sync(savedJobs);
+    return savedQuery.trim() ? savedJobsIndex.search(savedQuery) : null;
+  }, [savedJobsIndex, savedJobs, savedQuery]);
+  const highlightTerms = new Map(savedSearch?.map(result => [result.job.id, result.matchedTerms]));
+  const listedJobs = activeView === 'search' ? searchResults : savedSearch?.map(result => result.job) ?? savedJobs;
+  const facets = buildFacets(listedJobs, facetSelection);
+  // Saved jobs sort by when they were saved; search results by when they arrived.
+  const arrivalOrder = new Map(jobs.map((job, index) => [job.id, index]));
+  const addedAt = (job: Job) => activeView === 'search'
+    ? arrivalOrder.get(job.id)
+    : applications[job.id] && Date.parse(applications[job.id].history[0].changedAt);
+  const filteredJobs = filterByFacets(listedJobs, facetSelection);
+  const jobsToDisplay = sortJobs(filteredJobs, sortOrder, { scoreOf, addedAt });
   const totalPages = Math.ceil(jobsToDisplay.length / JOBS_PER_PAGE);
   const indexOfLastJob = currentPage * JOBS_PER_PAGE;
   const indexOfFirstJob = indexOfLastJob - JOBS_PER_PAGE;
   const currentJobsOnPage = jobsToDisplay.slice(indexOfFirstJob, indexOfLastJob);
 
+  const handleSortChange = (order: JobSortOrder) => {
+    setSortOrder(order);
+    setCurrentPage(1);
+  };
+
   const handlePageChange = (page: number) => {
+    pushNextRoute();
     setCurrentPage(page);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const handleSavedQueryChange = (query: string) => {
+    setSavedQuery(query);
+    setCurrentPage(1);
+  };
+
+  const handleFacetToggle = (key: FacetKey, value: string) => {
+    setFacetSelection(prev => toggleFacetValue(prev, key, value));
+    setCurrentPage(1);
+  };
+
+  const handleClearFacets = () => {
+    setFacetSelection({});
+    setCurrentPage(1);
+  };
+
+  const renderJobResults = (note?: string) => (
+    <div className="flex flex-col lg:flex-row gap-6">
+      <FacetSidebar facets={facets} onToggle={handleFacetToggle} onClear={handleClearFacets} />
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <p className="text-sm text-base-content">
+            {filteredJobs.length === listedJobs.length
+              ? `${listedJobs.length} ${listedJobs.length === 1 ? 'job' : 'jobs'}`
+              : `${filteredJobs.length} of ${listedJobs.length} jobs`}
+            {note && ` · ${note}`}
+          </p>
+          <SortSelect value={sortOrder} onChange={handleSortChange} />
+        </div>
+        {activeView === 'saved' && savedSearch?.length === 0 ? (
+          <div className="text-center text-base-content mt-10">
+            <h3 className="text-xl font-semibold">No saved jobs match "{savedQuery}"</h3>
+          </div>
+        ) : filteredJobs.length === 0 && hasActiveFacets(facetSelection) ? (
+          <div className="text-center text-base-content mt-10">
+            <h3 className="text-xl font-semibold">No jobs match these filters</h3>
+            <button onClick={handleClearFacets} className="text-brand-secondary hover:underline mt-2">Clear all filters</button>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {currentJobsOnPage.map(job => (
+                <JobCard
+                  key={job.id}
+                  job={job}
+                  onSelect={handleJobSelect}
+                  isSaved={isJobSaved(job.id)}
+                  onSave={handleSaveJob}
+                  onUnsave={handleUnsaveJob}
+                  matchScore={scoreOf(job)}
+                  highlightTerms={activeView === 'saved' ? highlightTerms.get(job.id) : undefined}
+                />
+              ))}
+            </div>
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              onPageChange={handlePageChange}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-base-100">
       <header className="bg-base-200/50 backdrop-blur-lg py-4 shadow-md sticky top-0 z-20">
@@ -190,6 +627,28 @@ const App: React.FC = () => {
                     <span className="hidden md:inline">Saved Jobs</span>
                     {savedJobs.length > 0 && <span className="bg-brand-secondary text-white text-xs font-bold rounded-full h-5 w-5 flex items-center justify-center">{savedJobs.length}</span>}
                 </NavButton>
+                <NavButton isActive={activeView === 'board'} onClick={() => handleViewChange('board')}>
+                    <ViewColumnsIcon className="w-4 h-4" />
+                    <span className="hidden md:inline">Applications</span>
+                </NavButton>
+                <NavButton isActive={activeView === 'profile'} onClick={() => handleViewChange('profile')}>
+                    <UserIcon className="w-4 h-4" />
+                    <span className="hidden md:inline">Profile</span>
+                </NavButton>
+                <NavButton isActive={activeView === 'usage'} onClick={() => handleViewChange('usage')}>
+                    <ChartBarIcon className="w-4 h-4" />
+                    <span className="hidden md:inline">Usage</span>
+                </NavButton>
+                <NavButton isActive={activeView === 'settings'} onClick={() => handleViewChange('settings')}>
+                    <CogIcon className="w-4 h-4" />
+                    <span className="hidden md:inline">Settings</span>
+                </NavButton>
+                <AlertsMenu
+                  alerts={jobAlerts}
+                  onOpenAlert={handleOpenAlert}
+                  onMarkAllRead={() => markAlertsRead(jobAlerts)}
+                  onClear={handleClearAlerts}
+                />
                 <button 
                   onClick={() => setIsAddJobModalOpen(true)}
                   className="p-2 rounded-md text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-brand-secondary focus:ring-offset-2 focus:ring-offset-base-200/50 text-base-content hover:bg-base-300"
@@ -203,12 +662,33 @@ const App: React.FC = () => {
       </header>
       
       <main className="container mx-auto p-4 md:p-6">
-        {activeView === 'search' && <SearchBar onSearch={handleSearch} initialFilters={filters} isLoading={isLoading}/>}
+        {routeNotice && (
+          <div className="flex items-center justify-between gap-4 bg-base-200 border border-base-300 rounded-lg px-4 py-3 mb-6 text-sm text-base-content">
+            <p>{routeNotice}</p>
+            <button onClick={() => setRouteNotice(null)} className="text-brand-secondary hover:underline">Dismiss</button>
+          </div>
+        )}
+        {activeView === 'search' && (
+          <>
+            <SearchBar key={searchBarKey} onSearch={handleSearch} initialFilters={filters} isLoading={isLoading}/>
+            <SavedSearchesPanel
+              searches={savedSearches}
+              currentFilters={filters}
+              unreadCounts={unreadAlertCounts}
+              checkingSearchId={checkingSearchId}
+              onSave={handleSaveSearch}
+              onOpen={handleOpenSavedSearch}
+              onCheckNow={handleCheckSavedSearch}
+              onRefreshChange={handleSavedSearchRefreshChange}
+              onDelete={handleDeleteSavedSearch}
+            />
+          </>
+        )}
         
         <div className="mt-8">
             {activeView === 'search' && (
               <>
-                {isLoading && <LiveSearchStatus status={scrapingStatus} sources={JOB_SOURCES} />}
+                {isLoading && <LiveSearchStatus sources={sourceStatuses} />}
                 
                 {error && <div className="text-center text-red-400 mt-10">{error}</div>}
                 
@@ -219,29 +699,38 @@ const App: React.FC = () => {
                   </div>
                 )}
 
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {currentJobsOnPage.map(job => (
-                    <JobCard 
-                      key={job.id} 
-                      job={job} 
-                      onSelect={handleJobSelect}
-                      isSaved={isJobSaved(job.id)}
-                      onSave={handleSaveJob}
-                      onUnsave={handleUnsaveJob}
-                    />
-                  ))}
-                </div>
-                <Pagination
-                  currentPage={currentPage}
-                  totalPages={totalPages}
-                  onPageChange={handlePageChange}
-                />
+                {!isLoading && jobs.length > 0 && (
+                  <div className="flex justify-end mb-2">
+                    <button
+                      onClick={() => fetchJobs(filters, true)}
+                      className="text-sm text-brand-secondary hover:underline"
+                      title="Repeated searches reuse the AI-generated listings for a while"
+                    >
+                      Regenerate AI listings
+                    </button>
+                  </div>
+                )}
+
+                {!isLoading && jobs.length > 0 && (
+                  <MatchRankingBar
+                    resumes={resumes}
+                    selectedResumeId={rankingResumeId}
+                    onResumeChange={setRankingResumeId}
+                    onRank={handleRankMatches}
+                    onStop={handleStopRanking}
+                    isRanking={isRanking}
+                    progress={rankingProgress}
+                  />
+                )}
+
+                {jobs.length > 0 && renderJobResults(hiddenBySalary > 0 ? `${hiddenBySalary} below your desired salary hidden` : undefined)}
               </>
             )}
 
             {activeView === 'saved' && (
               <>
                 <h2 className="text-2xl font-bold text-white mb-6">Your Saved Jobs</h2>
+                <ImportExportPanel savedJobs={savedJobs} applications={applications} onImport={handleImportJobs} />
                 {savedJobs.length === 0 ? (
                   <div className="text-center text-base-content mt-10">
                     <h3 className="text-xl font-semibold">No saved jobs</h3>
@@ -249,27 +738,61 @@ const App: React.FC = () => {
                   </div>
                 ) : (
                   <>
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                      {currentJobsOnPage.map(job => (
-                        <JobCard 
-                          key={job.id} 
-                          job={job} 
-                          onSelect={handleJobSelect}
-                          isSaved={isJobSaved(job.id)}
-                          onSave={handleSaveJob}
-                          onUnsave={handleUnsaveJob}
-                        />
-                      ))}
-                    </div>
-                    <Pagination
-                      currentPage={currentPage}
-                      totalPages={totalPages}
-                      onPageChange={handlePageChange}
+                    <MatchRankingBar
+                      resumes={resumes}
+                      selectedResumeId={rankingResumeId}
+                      onResumeChange={setRankingResumeId}
+                      onRank={handleRankMatches}
+                      onStop={handleStopRanking}
+                      isRanking={isRanking}
+                      progress={rankingProgress}
                     />
+                    <SavedJobSearch query={savedQuery} onQueryChange={handleSavedQueryChange} />
+                    {renderJobResults(savedSearch ? `matching "${savedQuery.trim()}"` : undefined)}
                   </>
                 )}
               </>
             )}
+
+            {activeView === 'board' && (
+              <>
+                <h2 className="text-2xl font-bold text-white mb-6">Application Tracker</h2>
+                {savedJobs.length === 0 ? (
+                  <div className="text-center text-base-content mt-10">
+                    <h3 className="text-xl font-semibold">Nothing to track yet</h3>
+                    <p>Save a job to start tracking your application.</p>
+                  </div>
+                ) : (
+                  <ApplicationBoard
+                    jobs={savedJobs}
+                    applications={applications}
+                    onStageChange={handleStageChange}
+                    onSelect={handleJobSelect}
+                  />
+                )}
+              </>
+            )}
+
+            {activeView === 'profile' && (
+              <>
+                <h2 className="text-2xl font-bold text-white mb-6">Your Profile</h2>
+                <ResumeProfile resumes={resumes} onSave={handleSaveResume} onDelete={handleDeleteResume} />
+              </>
+            )}
+
+            {activeView === 'usage' && (
+              <>
+                <h2 className="text-2xl font-bold text-white mb-6">AI Usage</h2>
+                <UsagePanel />
+              </>
+            )}
+
+            {activeView === 'settings' && (
+              <>
+                <h2 className="text-2xl font-bold text-white mb-6">Settings</h2>
+                <SettingsPanel />
+              </>
+            )}
         </div>
       </main>
       
@@ -279,6 +802,11 @@ const App: React.FC = () => {
         isSaved={isJobSaved(selectedJob.id)}
         onSave={handleSaveJob}
         onUnsave={handleUnsaveJob}
+        application={applications[selectedJob.id]}
+        onApplicationChange={handleApplicationChange}
+        resumes={resumes}
+        onSaveResume={handleSaveResume}
+        onEdit={handleEditJob}
       />}
 
       <AddJobModal
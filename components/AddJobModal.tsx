@@ -1,8 +1,13 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import type { Job } from '../types';
 import { parseJobPosting } from '../services/geminiService';
-import { CloseIcon, SparklesIcon } from './icons';
+import type { IngestedPosting, PostingField } from '../services/jobIngestion';
+import { FORMAT_NAMES, POSTING_FIELDS, POSTING_FILE_ACCEPT, ingestFile, ingestText, ingestUrl, missingPostingFields, splitPostings } from '../services/jobIngestion';
+import { isAbortError } from '../services/geminiService';
+import { CloseIcon, DocumentTextIcon, SparklesIcon, UploadIcon } from './icons';
 import JobCard from './JobCard';
+import PostingReviewGrid from './PostingReviewGrid';
+import type { QueueItem } from './PostingReviewGrid';
 import Spinner from './Spinner';
 
 interface AddJobModalProps {
@@ -11,42 +16,212 @@ interface AddJobModalProps {
   onJobSaved: (job: Job) => void;
 }
 
+interface ParseResult {
+  job: Job;
+  // Fields the model filled in; the rest were read from the document.
+  inferred: PostingField[];
+}
+
+// The salary only counts as inferred when the model actually found one.
+const inferredFields = (posting: IngestedPosting, job: Job): PostingField[] =>
+  missingPostingFields(posting.fields).filter(field => field !== 'salaryRange' || job.salaryRange);
+
+const fieldValue = (job: Job, field: PostingField): string => {
+  if (field === 'skills') return job.skills.join(', ');
+  if (field === 'description') return job.description.length > 200 ? `${job.description.slice(0, 200)}…` : job.description;
+  return job[field] ?? '';
+};
+
+const FieldSources: React.FC<ParseResult> = ({ job, inferred }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm text-left">
+      <thead className="text-xs uppercase text-base-content border-b border-base-300">
+        <tr>
+          <th className="py-2 pr-4">Field</th>
+          <th className="py-2 pr-4">From the document</th>
+          <th className="py-2">Inferred by AI</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-base-300 align-top">
+        {POSTING_FIELDS.filter(({ field }) => fieldValue(job, field)).map(({ field, label }) => {
+          const isInferred = inferred.includes(field);
+          return (
+            <tr key={field}>
+              <td className="py-2 pr-4 text-base-content whitespace-nowrap">{label}</td>
+              <td className="py-2 pr-4 text-white">{isInferred ? <span className="text-base-content">—</span> : fieldValue(job, field)}</td>
+              <td className={`py-2 ${isInferred ? 'text-amber-300' : 'text-base-content'}`}>{isInferred ? fieldValue(job, field) : '—'}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
+
 const AddJobModal: React.FC<AddJobModalProps> = ({ isOpen, onClose, onJobSaved }) => {
   const [jobText, setJobText] = useState('');
-  const [parsedJob, setParsedJob] = useState<Job | null>(null);
+  const [posting, setPosting] = useState<IngestedPosting | null>(null);
+  const [url, setUrl] = useState('');
+  const [result, setResult] = useState<ParseResult | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  // A file is being dragged over the text box.
+  const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Documents listing several openings are parsed one posting at a time and reviewed together.
+  const [splitEnabled, setSplitEnabled] = useState(true);
+  const [queue, setQueue] = useState<QueueItem[] | null>(null);
+  const queueControllerRef = useRef<AbortController | null>(null);
+  // The single-posting parse; the modal stays mounted while closed, so closing it cancels the parse.
+  const parseControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const postings = useMemo(() => {
+    const source = posting ?? (jobText.trim() ? ingestText(jobText) : null);
+    return source ? splitPostings(source) : [];
+  }, [posting, jobText]);
+  const isBulk = splitEnabled && postings.length > 1;
 
   const handleClose = () => {
     // Reset state on close
+    queueControllerRef.current?.abort();
+    queueControllerRef.current = null;
+    parseControllerRef.current?.abort();
+    parseControllerRef.current = null;
+    setQueue(null);
+    setSplitEnabled(true);
     setJobText('');
-    setParsedJob(null);
+    setPosting(null);
+    setUrl('');
+    setResult(null);
     setIsLoading(false);
     setError(null);
     onClose();
   };
 
+  const loadPosting = async (load: () => Promise<IngestedPosting>) => {
+    setIsReading(true);
+    setError(null);
+    setResult(null);
+    try {
+      setPosting(await load());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The document could not be read.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) loadPosting(() => ingestFile(file));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!Array.from(e.dataTransfer.types).includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file && !isReading && !isLoading) loadPosting(() => ingestFile(file));
+  };
+
+  const handleFetchUrl = () => {
+    if (!/^https?:\/\/\S+$/i.test(url.trim())) {
+      setError('Enter a full web address starting with http:// or https://.');
+      return;
+    }
+    loadPosting(() => ingestUrl(url.trim()));
+  };
+
+  const handleRemovePosting = () => {
+    setPosting(null);
+    setResult(null);
+    setError(null);
+  };
+
+  const updateItem = (id: string, changes: Partial<QueueItem>) =>
+    setQueue(prev => prev?.map(item => item.id === id ? { ...item, ...changes } : item) ?? null);
+
+  const parseItem = async (item: QueueItem, signal: AbortSignal) => {
+    updateItem(item.id, { status: 'parsing', error: undefined });
+    try {
+      const job = await parseJobPosting(item.posting.text, { extracted: item.posting.fields, attachment: item.posting.attachment, signal });
+      updateItem(item.id, { status: 'parsed', job, inferred: inferredFields(item.posting, job) });
+    } catch (err) {
+      if (isAbortError(err) || signal.aborted) return;
+      updateItem(item.id, { status: 'failed', error: err instanceof Error ? err.message : 'An unknown error occurred.' });
+    }
+  };
+
+  const getQueueSignal = () => {
+    queueControllerRef.current ??= new AbortController();
+    return queueControllerRef.current.signal;
+  };
+
+  // Parses one posting after another, so each card's status shows where the queue is.
+  const handleParseAll = async () => {
+    const items: QueueItem[] = postings.map((source, index) => ({ id: `posting-${index}`, posting: source, status: 'queued' }));
+    const signal = getQueueSignal();
+    setError(null);
+    setQueue(items);
+    for (const item of items) {
+      if (signal.aborted) return;
+      await parseItem(item, signal);
+    }
+  };
+
+  const handleRetry = (id: string) => {
+    const item = queue?.find(candidate => candidate.id === id);
+    if (item) parseItem(item, getQueueSignal());
+  };
+
+  const handleAcceptAll = () =>
+    setQueue(prev => prev?.map(item => item.status === 'parsed' && !item.decision ? { ...item, decision: 'accepted' } : item) ?? null);
+
+  const acceptedJobs = (queue ?? []).filter(item => item.status === 'parsed' && item.decision === 'accepted').map(item => item.job!);
+
+  const handleSaveAccepted = () => {
+    acceptedJobs.forEach(job => onJobSaved(job));
+    handleClose();
+  };
+
   const handleParse = async () => {
-    if (!jobText.trim()) {
+    if (!posting && !jobText.trim()) {
       setError("Please paste a job description first.");
       return;
     }
+    if (isBulk) {
+      handleParseAll();
+      return;
+    }
+    const source = posting ?? ingestText(jobText);
+    parseControllerRef.current?.abort();
+    const controller = new AbortController();
+    parseControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
-    setParsedJob(null);
+    setResult(null);
     try {
-      const result = await parseJobPosting(jobText);
-      setParsedJob(result);
+      const job = await parseJobPosting(source.text, { extracted: source.fields, attachment: source.attachment, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setResult({ job, inferred: inferredFields(source, job) });
     } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) return;
       setError(err instanceof Error ? err.message : 'An unknown error occurred.');
     } finally {
-      setIsLoading(false);
+      if (!controller.signal.aborted) setIsLoading(false);
     }
   };
 
   const handleSave = () => {
-    if (parsedJob) {
-      onJobSaved(parsedJob);
+    if (result) {
+      onJobSaved(result.job);
       handleClose();
     }
   };
@@ -55,13 +230,19 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ isOpen, onClose, onJobSaved }
     return null;
   }
 
+  const readFields = posting ? POSTING_FIELDS.filter(({ field }) => !missingPostingFields(posting.fields).includes(field)) : [];
+  // Only the salary may be left out without asking the model.
+  const needsModel = !posting || missingPostingFields(posting.fields).some(field => field !== 'salaryRange');
+  const isBusy = isLoading || isReading;
+  const parsedCount = (queue ?? []).filter(item => item.status === 'parsed' || item.status === 'failed').length;
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-50 p-4" onClick={handleClose}>
-      <div className="bg-base-200 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+      <div className={`bg-base-200 rounded-lg shadow-2xl w-full ${queue ? 'max-w-5xl' : 'max-w-2xl'} max-h-[90vh] flex flex-col overflow-hidden`} onClick={e => e.stopPropagation()}>
         <header className="p-4 sm:p-6 border-b border-base-300 flex justify-between items-center flex-shrink-0">
           <div>
             <h2 className="text-xl font-bold text-white">Parse Job Posting with AI</h2>
-            <p className="text-sm text-base-content">Paste a job description to extract and save it.</p>
+            <p className="text-sm text-base-content">Paste one or more job descriptions, or load them from a file or web page.</p>
           </div>
           <button onClick={handleClose} className="text-base-content hover:text-white transition-colors p-2 rounded-full hover:bg-base-300">
             <CloseIcon className="w-6 h-6" />
@@ -69,43 +250,141 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ isOpen, onClose, onJobSaved }
         </header>
 
         <div className="p-4 sm:p-6 space-y-4 overflow-y-auto">
-          <textarea
-            className="w-full h-48 bg-base-300 border border-base-300 rounded-md shadow-sm p-3 text-sm focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white"
-            placeholder="Paste the full job description here..."
-            value={jobText}
-            onChange={(e) => setJobText(e.target.value)}
-            disabled={isLoading}
-          />
-          
+          {queue ? (
+            <>
+              <p className="text-sm text-base-content">
+                Parsed {parsedCount} of {queue.length} postings · {acceptedJobs.length} accepted. Review each job, edit it if needed, and accept the ones to save.
+              </p>
+              <PostingReviewGrid
+                items={queue}
+                onRetry={handleRetry}
+                onEdit={(id, job) => updateItem(id, { job })}
+                onDecide={(id, decision) => updateItem(id, { decision })}
+              />
+            </>
+          ) : posting ? (
+            <div className="p-3 bg-base-300 rounded-md text-sm text-base-content space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center min-w-0 text-white">
+                  <DocumentTextIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+                  <span className="truncate">{posting.source}</span>
+                  <span className="ml-2 text-xs text-base-content flex-shrink-0">{FORMAT_NAMES[posting.format]}</span>
+                </span>
+                <button onClick={handleRemovePosting} disabled={isBusy} className="p-1 rounded-full hover:text-white hover:bg-base-200" aria-label="Remove document">
+                  <CloseIcon className="w-4 h-4" />
+                </button>
+              </div>
+              {posting.attachment ? (
+                <p>No text could be read from this file, so the AI will read the file itself.</p>
+              ) : (
+                <p>
+                  Read from the document: {readFields.map(({ label }) => label).join(', ') || 'nothing'}.
+                  {needsModel ? ' The AI will fill in the rest.' : ' Nothing is left for the AI to fill in.'}
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              <div className="relative" onDragOver={handleDragOver} onDragLeave={() => setIsDragging(false)} onDrop={handleDrop}>
+                <textarea
+                  className="w-full h-48 bg-base-300 border border-base-300 rounded-md shadow-sm p-3 text-sm focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white"
+                  placeholder="Paste the full job description here..."
+                  value={jobText}
+                  onChange={(e) => setJobText(e.target.value)}
+                  disabled={isBusy}
+                />
+                {isDragging && (
+                  <div className="absolute inset-0 flex items-center justify-center rounded-md border-2 border-dashed border-brand-primary bg-base-300/90 text-sm text-white pointer-events-none">
+                    <UploadIcon className="w-5 h-5 mr-2" />
+                    Drop the file to read it
+                  </div>
+                )}
+              </div>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={POSTING_FILE_ACCEPT} className="hidden" aria-hidden="true" />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isBusy}
+                  className="flex items-center justify-center text-sm bg-base-300 hover:bg-base-100 text-base-content hover:text-white font-medium py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 whitespace-nowrap"
+                >
+                  <UploadIcon className="w-4 h-4 mr-2" />
+                  Upload file
+                </button>
+                <input
+                  type="url"
+                  className="flex-grow bg-base-300 border border-base-300 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+                  placeholder="...or a link to the posting"
+                  value={url}
+                  onChange={e => setUrl(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && url.trim() && handleFetchUrl()}
+                  disabled={isBusy}
+                />
+                <button
+                  onClick={handleFetchUrl}
+                  disabled={isBusy || !url.trim()}
+                  className="text-sm bg-base-300 hover:bg-base-100 text-base-content hover:text-white font-medium py-2 px-4 rounded-md disabled:opacity-50"
+                >
+                  Fetch
+                </button>
+              </div>
+              <p className="text-xs text-base-content">Drop or upload HTML pages, PDF, Word (.docx), email (.eml) and text files. Details in the document are used as they are; the AI only fills in what's missing. Separate several postings with a line of dashes (---) or start each with "Job title:".</p>
+            </>
+          )}
+
+          {!queue && postings.length > 1 && (
+            <label className="flex items-center gap-2 text-sm text-base-content cursor-pointer">
+              <input type="checkbox" checked={splitEnabled} onChange={e => setSplitEnabled(e.target.checked)} disabled={isBusy} />
+              Parse as {postings.length} separate postings
+            </label>
+          )}
+
           {error && <p className="text-sm text-red-400">{error}</p>}
-          
-          {isLoading && <Spinner />}
 
-          {parsedJob && (
+          {isBusy && <Spinner />}
+
+          {result && (
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold text-white">AI Parsing Result</h3>
+              <h3 className="text-lg font-semibold text-white">Parsing Result</h3>
               <div className="pointer-events-none">
-                 <JobCard 
-                    job={parsedJob}
+                 <JobCard
+                    job={result.job}
                     onSelect={() => {}}
                     isSaved={false} // It's not saved yet, so this is always false here
                     onSave={() => {}}
                     onUnsave={() => {}}
                  />
               </div>
+              <FieldSources {...result} />
             </div>
           )}
         </div>
 
         <footer className="p-4 border-t border-base-300 flex justify-end items-center gap-4 flex-shrink-0 bg-base-200">
-          <button 
-            onClick={handleClose} 
+          <button
+            onClick={handleClose}
             className="px-4 py-2 rounded-md text-sm font-medium text-base-content hover:bg-base-300 transition-colors"
           >
             Cancel
           </button>
-          
-          {parsedJob ? (
+
+          {queue ? (
+            <>
+              <button
+                onClick={handleAcceptAll}
+                disabled={!queue.some(item => item.status === 'parsed' && !item.decision)}
+                className="px-4 py-2 rounded-md text-sm font-medium text-base-content hover:bg-base-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Accept all parsed
+              </button>
+              <button
+                onClick={handleSaveAccepted}
+                disabled={acceptedJobs.length === 0}
+                className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save {acceptedJobs.length} {acceptedJobs.length === 1 ? 'job' : 'jobs'}
+              </button>
+            </>
+          ) : result ? (
              <button
                 onClick={handleSave}
                 className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition duration-150 ease-in-out"
@@ -115,11 +394,11 @@ const AddJobModal: React.FC<AddJobModalProps> = ({ isOpen, onClose, onJobSaved }
           ) : (
             <button
                 onClick={handleParse}
-                disabled={isLoading || !jobText.trim()}
+                disabled={isBusy || (!posting && !jobText.trim())}
                 className="flex items-center justify-center bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-base-200 focus:ring-brand-secondary transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
             >
                 <SparklesIcon className="w-5 h-5 mr-2" />
-                {isLoading ? 'Parsing...' : 'Parse with AI'}
+                {isLoading ? 'Parsing...' : isBulk ? `Parse ${postings.length} postings` : needsModel ? 'Parse with AI' : 'Add job'}
             </button>
           )}
         </footer>
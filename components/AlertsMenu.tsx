@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import type { JobAlert } from '../types';
+import { BellIcon } from './icons';
+
+interface AlertsMenuProps {
+  alerts: JobAlert[];
+  onOpenAlert: (alert: JobAlert) => void;
+  onMarkAllRead: () => void;
+  onClear: () => void;
+}
+
+const AlertsMenu: React.FC<AlertsMenuProps> = ({ alerts, onOpenAlert, onMarkAllRead, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const unread = alerts.filter(alert => !alert.read).length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="relative p-2 rounded-md text-base-content hover:bg-base-300 focus:outline-none focus:ring-2 focus:ring-brand-secondary"
+        aria-label={unread > 0 ? `${unread} new job alerts` : 'Job alerts'}
+        aria-expanded={isOpen}
+      >
+        <BellIcon className="w-6 h-6" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 bg-brand-secondary text-white text-xs font-bold rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center">{unread}</span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto bg-base-200 rounded-lg shadow-xl border border-base-300 z-30">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-base-300">
+            <h3 className="text-sm font-semibold text-white">New matches</h3>
+            {alerts.length > 0 && (
+              <div className="flex gap-3">
+                {unread > 0 && <button onClick={onMarkAllRead} className="text-xs text-brand-secondary hover:underline">Mark all read</button>}
+                <button onClick={onClear} className="text-xs text-base-content hover:text-white hover:underline">Clear</button>
+              </div>
+            )}
+          </div>
+          {alerts.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-base-content text-center">New jobs from your saved searches will show up here.</p>
+          ) : (
+            <ul className="divide-y divide-base-300">
+              {alerts.map(alert => (
+                <li key={alert.id}>
+                  <button
+                    onClick={() => { onOpenAlert(alert); setIsOpen(false); }}
+                    className={`w-full text-left px-4 py-2 hover:bg-base-300 ${alert.read ? '' : 'bg-brand-primary/10'}`}
+                  >
+                    <p className="text-sm font-medium text-white">{alert.job.title}</p>
+                    <p className="text-xs text-base-content">{alert.job.company} · {alert.job.location}</p>
+                    <p className="text-xs text-base-content mt-0.5">{alert.searchName} · {new Date(alert.createdAt).toLocaleString()}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertsMenu;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import type { Job, Application } from '../types';
+import { ApplicationStage } from '../types';
+import { APPLICATION_STAGES } from '../services/applicationTracker';
+import { BuildingIcon, LocationIcon } from './icons';
+
+interface ApplicationBoardProps {
+  jobs: Job[];
+  applications: Record<string, Application>;
+  onStageChange: (jobId: string, stage: ApplicationStage) => void;
+  onSelect: (job: Job) => void;
+}
+
+const STAGE_ACCENTS: Record<ApplicationStage, string> = {
+  [ApplicationStage.INTERESTED]: 'border-base-content/50',
+  [ApplicationStage.APPLIED]: 'border-brand-primary',
+  [ApplicationStage.PHONE_SCREEN]: 'border-sky-400',
+  [ApplicationStage.ONSITE]: 'border-amber-400',
+  [ApplicationStage.OFFER]: 'border-green-400',
+  [ApplicationStage.REJECTED]: 'border-red-400',
+  [ApplicationStage.WITHDRAWN]: 'border-base-300',
+};
+
+const ApplicationBoard: React.FC<ApplicationBoardProps> = ({ jobs, applications, onStageChange, onSelect }) => {
+  const [dragOverStage, setDragOverStage] = useState<ApplicationStage | null>(null);
+
+  const stageOf = (job: Job) => applications[job.id]?.stage ?? ApplicationStage.INTERESTED;
+
+  const handleDrop = (event: React.DragEvent, stage: ApplicationStage) => {
+    event.preventDefault();
+    setDragOverStage(null);
+    const jobId = event.dataTransfer.getData('text/plain');
+    if (jobId) {
+      onStageChange(jobId, stage);
+    }
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {APPLICATION_STAGES.map(stage => {
+        const stageJobs = jobs.filter(job => stageOf(job) === stage);
+        return (
+          <section
+            key={stage}
+            onDragOver={e => { e.preventDefault(); setDragOverStage(stage); }}
+            onDragLeave={() => setDragOverStage(current => (current === stage ? null : current))}
+            onDrop={e => handleDrop(e, stage)}
+            className={`flex-shrink-0 w-64 bg-base-200 rounded-lg p-3 border-t-4 ${STAGE_ACCENTS[stage]} ${
+              dragOverStage === stage ? 'ring-2 ring-brand-secondary' : ''
+            }`}
+          >
+            <header className="flex justify-between items-center mb-3">
+              <h3 className="font-semibold text-white">{stage}</h3>
+              <span className="text-xs bg-base-300 text-base-content rounded-full px-2 py-0.5">{stageJobs.length}</span>
+            </header>
+            <div className="space-y-2 min-h-[4rem]">
+              {stageJobs.map(job => (
+                <div
+                  key={job.id}
+                  draggable
+                  onDragStart={e => e.dataTransfer.setData('text/plain', job.id)}
+                  onClick={() => onSelect(job)}
+                  className="bg-base-300 p-3 rounded-md cursor-grab active:cursor-grabbing hover:ring-1 hover:ring-brand-primary transition"
+                >
+                  <p className="text-sm font-semibold text-white">{job.title}</p>
+                  <div className="flex items-center text-xs text-base-content mt-1">
+                    <BuildingIcon className="w-3 h-3 mr-1" />
+                    <span className="truncate">{job.company}</span>
+                  </div>
+                  <div className="flex items-center text-xs text-base-content mt-1">
+                    <LocationIcon className="w-3 h-3 mr-1" />
+                    <span className="truncate">{job.location}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ApplicationBoard;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import type { Application, ApplicationEvent } from '../types';
+import { ApplicationStage } from '../types';
+import { APPLICATION_STAGES, moveToStage, addContact, removeContact, addEvent, removeEvent, updateNotes } from '../services/applicationTracker';
+import { TrashIcon } from './icons';
+
+interface ApplicationTimelineProps {
+  application: Application;
+  onChange: (application: Application) => void;
+}
+
+const inputClassName = "w-full bg-base-100 border border-base-200 rounded-md shadow-sm p-2 text-sm focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white";
+
+const ApplicationTimeline: React.FC<ApplicationTimelineProps> = ({ application, onChange }) => {
+  const [contactName, setContactName] = useState('');
+  const [contactRole, setContactRole] = useState('');
+  const [contactEmail, setContactEmail] = useState('');
+  const [eventKind, setEventKind] = useState<ApplicationEvent['kind']>('interview');
+  const [eventDate, setEventDate] = useState('');
+
+  const handleAddContact = () => {
+    if (!contactName.trim()) return;
+    onChange(addContact(application, {
+      name: contactName.trim(),
+      role: contactRole.trim() || undefined,
+      email: contactEmail.trim() || undefined,
+    }));
+    setContactName('');
+    setContactRole('');
+    setContactEmail('');
+  };
+
+  const handleAddEvent = () => {
+    if (!eventDate) return;
+    onChange(addEvent(application, { kind: eventKind, date: new Date(eventDate).toISOString() }));
+    setEventDate('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label htmlFor="application-stage" className="block text-sm font-medium text-base-content mb-1">Status</label>
+        <select
+          id="application-stage"
+          value={application.stage}
+          onChange={e => onChange(moveToStage(application, e.target.value as ApplicationStage))}
+          className={inputClassName}
+        >
+          {APPLICATION_STAGES.map(stage => <option key={stage} value={stage}>{stage}</option>)}
+        </select>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-white mb-2">Timeline</h4>
+        <ol className="relative border-l border-base-100 ml-2">
+          {[...application.history].reverse().map((change, index) => (
+            <li key={`${change.changedAt}-${index}`} className="mb-3 ml-4">
+              <div className={`absolute w-3 h-3 rounded-full -left-1.5 mt-1 ${index === 0 ? 'bg-brand-primary' : 'bg-base-100'}`}></div>
+              <p className="text-sm text-white">{change.stage}</p>
+              <time className="text-xs text-base-content">{new Date(change.changedAt).toLocaleString()}</time>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-white mb-2">Interviews & Follow-ups</h4>
+        {(application.events ?? []).length > 0 && (
+          <ul className="space-y-2 mb-3">
+            {(application.events ?? []).map(event => (
+              <li key={event.id} className="flex items-center justify-between p-2 bg-base-100 rounded-md text-sm">
+                <div className="min-w-0">
+                  <p className="text-white">{event.kind === 'interview' ? 'Interview' : 'Follow-up'}</p>
+                  <time className="text-xs text-base-content">{new Date(event.date).toLocaleString()}</time>
+                </div>
+                <button
+                  onClick={() => onChange(removeEvent(application, event.id))}
+                  className="p-1 rounded-full text-base-content hover:text-white hover:bg-base-300 transition-colors"
+                  aria-label="Remove date"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="space-y-2">
+          <select className={inputClassName} value={eventKind} onChange={e => setEventKind(e.target.value as ApplicationEvent['kind'])}>
+            <option value="interview">Interview</option>
+            <option value="follow-up">Follow-up</option>
+          </select>
+          <input className={inputClassName} type="datetime-local" value={eventDate} onChange={e => setEventDate(e.target.value)} />
+          <button
+            onClick={handleAddEvent}
+            disabled={!eventDate}
+            className="w-full text-sm bg-base-100 hover:bg-base-200 border border-base-200 text-base-content hover:text-white font-medium py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add Date
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-white mb-2">Contacts</h4>
+        {application.contacts.length > 0 && (
+          <ul className="space-y-2 mb-3">
+            {application.contacts.map(contact => (
+              <li key={contact.id} className="flex items-start justify-between p-2 bg-base-100 rounded-md text-sm">
+                <div className="min-w-0">
+                  <p className="text-white truncate">{contact.name}{contact.role && <span className="text-base-content"> · {contact.role}</span>}</p>
+                  {contact.email && <a href={`mailto:${contact.email}`} className="text-xs text-brand-secondary hover:underline">{contact.email}</a>}
+                </div>
+                <button
+                  onClick={() => onChange(removeContact(application, contact.id))}
+                  className="p-1 rounded-full text-base-content hover:text-white hover:bg-base-300 transition-colors"
+                  aria-label={`Remove ${contact.name}`}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="space-y-2">
+          <input className={inputClassName} placeholder="Name" value={contactName} onChange={e => setContactName(e.target.value)} />
+          <input className={inputClassName} placeholder="Role (e.g., Recruiter)" value={contactRole} onChange={e => setContactRole(e.target.value)} />
+          <input className={inputClassName} placeholder="Email" type="email" value={contactEmail} onChange={e => setContactEmail(e.target.value)} />
+          <button
+            onClick={handleAddContact}
+            disabled={!contactName.trim()}
+            className="w-full text-sm bg-base-100 hover:bg-base-200 border border-base-200 text-base-content hover:text-white font-medium py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add Contact
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="application-notes" className="block text-sm font-semibold text-white mb-2">Notes</label>
+        <textarea
+          id="application-notes"
+          className={`${inputClassName} h-32`}
+          placeholder="Interview prep, follow-ups, impressions..."
+          value={application.notes}
+          onChange={e => onChange(updateNotes(application, e.target.value))}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ApplicationTimeline;
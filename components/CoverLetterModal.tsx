@@ -0,0 +1,373 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { Job, Resume, CoverLetterOptions, CoverLetterVersion, CoverLetterTone, CoverLetterLength } from '../types';
+import { generateCoverLetter, regenerateCoverLetterParagraph, isAbortError } from '../services/geminiService';
+import { loadCoverLetters, saveCoverLetter, deleteCoverLetter } from '../services/storage';
+import {
+  COVER_LETTER_TONES, COVER_LETTER_LENGTHS, splitParagraphs, coverLetterToText, coverLetterToMarkdown,
+  coverLetterFileName, openPrintableCoverLetter,
+} from '../services/coverLetters';
+import { downloadFile } from '../services/jobTransfer';
+import { CloseIcon, SparklesIcon, TrashIcon } from './icons';
+
+interface CoverLetterModalProps {
+  job: Job;
+  resumes: Resume[];
+  onClose: () => void;
+}
+
+// Picker value for writing the letter from the job alone.
+const NO_RESUME = '';
+
+const inputClassName = "w-full bg-base-300 border border-base-300 rounded-md py-2 px-3 text-sm focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white";
+const secondaryButtonClassName = "text-sm bg-base-300 hover:bg-base-100 text-base-content hover:text-white font-medium py-1.5 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+
+const CoverLetterModal: React.FC<CoverLetterModalProps> = ({ job, resumes, onClose }) => {
+  const [options, setOptions] = useState<CoverLetterOptions>(() => ({
+    tone: 'Professional',
+    length: 'Medium',
+    emphasis: '',
+    resumeId: resumes[0]?.id,
+  }));
+  const [paragraphs, setParagraphs] = useState<string[]>([]);
+  // Raw text while a full letter is streaming in; null once it has been split into paragraphs.
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  const [instructions, setInstructions] = useState<Record<number, string>>({});
+  const [versions, setVersions] = useState<CoverLetterVersion[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCoverLetters(job.id)
+      .then(stored => {
+        if (cancelled || stored.length === 0) return;
+        // Reopen the latest version.
+        setVersions(stored);
+        setParagraphs(stored[0].paragraphs);
+        setOptions(stored[0].options);
+        setCurrentVersionId(stored[0].id);
+      })
+      .catch(error => console.error("Error loading cover letters", error));
+    return () => {
+      cancelled = true;
+      controllerRef.current?.abort();
+    };
+  }, [job]);
+
+  const selectedResume = resumes.find(r => r.id === options.resumeId);
+  const isBusy = isGenerating || regeneratingIndex !== null;
+
+  const startRequest = (): AbortSignal => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleStop = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  };
+
+  const handleGenerate = async () => {
+    const signal = startRequest();
+    setIsGenerating(true);
+    setError(null);
+    setStreamingText('');
+    try {
+      const result = await generateCoverLetter(job, selectedResume, options, { signal, onChunk: setStreamingText });
+      setParagraphs(result);
+      setCurrentVersionId(null);
+      setIsDirty(true);
+      setInstructions({});
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred.');
+    } finally {
+      setStreamingText(null);
+      setIsGenerating(false);
+    }
+  };
+
+  const handleRegenerateParagraph = async (index: number) => {
+    const signal = startRequest();
+    setRegeneratingIndex(index);
+    setError(null);
+    try {
+      const paragraph = await regenerateCoverLetterParagraph(
+        job, selectedResume, options, paragraphs, index, instructions[index] ?? '', signal
+      );
+      setParagraphs(prev => prev.map((p, i) => i === index ? paragraph : p));
+      setIsDirty(true);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      setError(error instanceof Error ? error.message : 'An unknown error occurred.');
+    } finally {
+      setRegeneratingIndex(null);
+    }
+  };
+
+  const handleParagraphChange = (index: number, text: string) => {
+    setParagraphs(prev => prev.map((p, i) => i === index ? text : p));
+    setIsDirty(true);
+  };
+
+  const handleSaveVersion = async () => {
+    // Blank lines typed inside a paragraph become paragraph breaks in the saved letter.
+    const cleaned = paragraphs.flatMap(splitParagraphs);
+    const version: CoverLetterVersion = {
+      id: crypto.randomUUID(),
+      jobId: job.id,
+      createdAt: new Date().toISOString(),
+      options,
+      paragraphs: cleaned,
+    };
+    try {
+      await saveCoverLetter(version);
+      setVersions(prev => [version, ...prev]);
+      setParagraphs(cleaned);
+      setCurrentVersionId(version.id);
+      setIsDirty(false);
+    } catch (error) {
+      console.error("Error storing cover letter", error);
+      setError('Failed to save this version.');
+    }
+  };
+
+  const handleSelectVersion = (versionId: string) => {
+    const version = versions.find(v => v.id === versionId);
+    if (!version) return;
+    if (isDirty && !window.confirm('Discard your unsaved changes to the current draft?')) return;
+    setParagraphs(version.paragraphs);
+    setOptions(version.options);
+    setCurrentVersionId(version.id);
+    setInstructions({});
+    setIsDirty(false);
+  };
+
+  const handleDeleteVersion = async () => {
+    if (!currentVersionId) return;
+    try {
+      await deleteCoverLetter(currentVersionId);
+      setVersions(prev => prev.filter(v => v.id !== currentVersionId));
+      setCurrentVersionId(null);
+      setIsDirty(true);
+    } catch (error) {
+      console.error("Error deleting cover letter", error);
+      setError('Failed to delete this version.');
+    }
+  };
+
+  const handlePrint = () => {
+    try {
+      openPrintableCoverLetter(job, paragraphs);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to open the print view.');
+    }
+  };
+
+  const hasDraft = paragraphs.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex justify-center items-center z-[60] p-4" onClick={onClose}>
+      <div className="bg-base-200 rounded-lg shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <header className="p-4 sm:p-6 border-b border-base-300 flex justify-between items-center flex-shrink-0">
+          <div className="flex-1 pr-4">
+            <h2 className="text-xl font-bold text-white">Cover Letter</h2>
+            <p className="text-sm text-base-content mt-1">{job.title} at {job.company}</p>
+          </div>
+          <button onClick={onClose} className="text-base-content hover:text-white transition-colors p-2 rounded-full hover:bg-base-300">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="flex-grow overflow-y-auto flex flex-col lg:flex-row">
+          <aside className="lg:w-1/3 bg-base-300 p-4 sm:p-6 space-y-4">
+            <div>
+              <label htmlFor="cover-letter-resume" className="block text-sm text-base-content mb-1">Resume</label>
+              <select
+                id="cover-letter-resume"
+                value={options.resumeId ?? NO_RESUME}
+                onChange={e => setOptions(prev => ({ ...prev, resumeId: e.target.value || undefined }))}
+                disabled={isBusy}
+                className={inputClassName}
+              >
+                {resumes.map(resume => <option key={resume.id} value={resume.id}>{resume.name}</option>)}
+                <option value={NO_RESUME}>No resume (job details only)</option>
+              </select>
+              {resumes.length === 0 && (
+                <p className="text-xs text-base-content mt-1">Add a resume in your Profile for a letter based on your experience.</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="cover-letter-tone" className="block text-sm text-base-content mb-1">Tone</label>
+                <select
+                  id="cover-letter-tone"
+                  value={options.tone}
+                  onChange={e => setOptions(prev => ({ ...prev, tone: e.target.value as CoverLetterTone }))}
+                  disabled={isBusy}
+                  className={inputClassName}
+                >
+                  {COVER_LETTER_TONES.map(tone => <option key={tone} value={tone}>{tone}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="cover-letter-length" className="block text-sm text-base-content mb-1">Length</label>
+                <select
+                  id="cover-letter-length"
+                  value={options.length}
+                  onChange={e => setOptions(prev => ({ ...prev, length: e.target.value as CoverLetterLength }))}
+                  disabled={isBusy}
+                  className={inputClassName}
+                >
+                  {(Object.keys(COVER_LETTER_LENGTHS) as CoverLetterLength[]).map(length => (
+                    <option key={length} value={length}>{length} (~{COVER_LETTER_LENGTHS[length].words} words)</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="cover-letter-emphasis" className="block text-sm text-base-content mb-1">Emphasize</label>
+              <textarea
+                id="cover-letter-emphasis"
+                value={options.emphasis}
+                onChange={e => setOptions(prev => ({ ...prev, emphasis: e.target.value }))}
+                disabled={isBusy}
+                placeholder="e.g., leadership of the payments migration, passion for developer tools"
+                className={`${inputClassName} h-24`}
+              />
+            </div>
+            <button
+              onClick={isGenerating ? handleStop : handleGenerate}
+              disabled={regeneratingIndex !== null}
+              className="w-full flex items-center justify-center text-sm bg-brand-primary hover:bg-brand-secondary text-white font-semibold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {isGenerating ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Stop
+                </>
+              ) : (
+                <>
+                  <SparklesIcon className="w-4 h-4 mr-2" />
+                  {hasDraft ? 'Write a New Draft' : 'Write Cover Letter'}
+                </>
+              )}
+            </button>
+
+            {versions.length > 0 && (
+              <div>
+                <label htmlFor="cover-letter-version" className="block text-sm text-base-content mb-1">Saved versions</label>
+                <div className="flex gap-2">
+                  <select
+                    id="cover-letter-version"
+                    value={currentVersionId ?? ''}
+                    onChange={e => handleSelectVersion(e.target.value)}
+                    disabled={isBusy}
+                    className={inputClassName}
+                  >
+                    {!currentVersionId && <option value="">Unsaved draft</option>}
+                    {versions.map(v => (
+                      <option key={v.id} value={v.id}>{new Date(v.createdAt).toLocaleString()} · {v.options.tone}, {v.options.length}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleDeleteVersion}
+                    disabled={!currentVersionId || isBusy}
+                    className="p-2 rounded-md text-base-content hover:text-white hover:bg-base-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label="Delete this version"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+          </aside>
+
+          <section className="lg:w-2/3 p-4 sm:p-6">
+            {streamingText !== null ? (
+              <div className="p-3 bg-base-100 rounded-md text-sm text-base-content whitespace-pre-wrap min-h-[12rem]">
+                {streamingText || 'Writing your letter…'}
+              </div>
+            ) : !hasDraft ? (
+              <p className="text-base-content">
+                Choose a resume, tone and length, then write a full letter. You can edit every paragraph or have any of them rewritten.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {paragraphs.map((paragraph, index) => (
+                  <div key={index} className="space-y-2">
+                    <textarea
+                      value={paragraph}
+                      onChange={e => handleParagraphChange(index, e.target.value)}
+                      disabled={regeneratingIndex === index}
+                      rows={Math.max(2, Math.ceil(paragraph.length / 90))}
+                      className={`${inputClassName} bg-base-100 border-base-100 leading-relaxed`}
+                      aria-label={`Paragraph ${index + 1}`}
+                    />
+                    <div className="flex gap-2">
+                      <input
+                        value={instructions[index] ?? ''}
+                        onChange={e => setInstructions(prev => ({ ...prev, [index]: e.target.value }))}
+                        placeholder="Optional: how to change this paragraph"
+                        className="flex-1 min-w-0 bg-base-300 border border-base-300 rounded-md py-1.5 px-2 text-xs focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white"
+                      />
+                      <button
+                        onClick={regeneratingIndex === index ? handleStop : () => handleRegenerateParagraph(index)}
+                        disabled={isGenerating || (regeneratingIndex !== null && regeneratingIndex !== index)}
+                        className={`${secondaryButtonClassName} flex items-center`}
+                      >
+                        {regeneratingIndex === index ? (
+                          <>
+                            <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-2"></div>
+                            Stop
+                          </>
+                        ) : (
+                          <>
+                            <SparklesIcon className="w-3 h-3 mr-2" />
+                            Regenerate
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+
+        {hasDraft && streamingText === null && (
+          <footer className="p-4 border-t border-base-300 flex flex-wrap justify-end gap-2 flex-shrink-0">
+            <button onClick={() => downloadFile(coverLetterFileName(job, 'txt'), coverLetterToText(paragraphs), 'text/plain')} className={secondaryButtonClassName}>
+              Export .txt
+            </button>
+            <button onClick={() => downloadFile(coverLetterFileName(job, 'md'), coverLetterToMarkdown(job, paragraphs), 'text/markdown')} className={secondaryButtonClassName}>
+              Export .md
+            </button>
+            <button onClick={handlePrint} className={secondaryButtonClassName}>
+              Print / PDF
+            </button>
+            <button
+              onClick={handleSaveVersion}
+              disabled={!isDirty || isBusy}
+              className="text-sm bg-brand-primary hover:bg-brand-secondary text-white font-semibold py-1.5 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isDirty ? 'Save Version' : 'Saved'}
+            </button>
+          </footer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CoverLetterModal;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import type { Facet, FacetKey } from '../services/jobFacets';
+
+interface FacetSidebarProps {
+  facets: Facet[];
+  onToggle: (key: FacetKey, value: string) => void;
+  onClear: () => void;
+}
+
+// Options shown per facet before "Show all".
+const COLLAPSED_OPTIONS = 6;
+
+const FacetSidebar: React.FC<FacetSidebarProps> = ({ facets, onToggle, onClear }) => {
+  const [expanded, setExpanded] = useState<Set<FacetKey>>(new Set());
+  const hasSelection = facets.some(facet => facet.options.some(option => option.selected));
+
+  const toggleExpanded = (key: FacetKey) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <aside className="lg:w-64 flex-shrink-0 bg-base-200/60 rounded-lg p-4 space-y-5 self-start" aria-label="Filter results">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-white">Filter results</h3>
+        {hasSelection && (
+          <button onClick={onClear} className="text-xs text-brand-secondary hover:underline">Clear all</button>
+        )}
+      </div>
+      {facets.filter(facet => facet.options.length > 0).map(facet => {
+        const isExpanded = expanded.has(facet.key);
+        // Selected options stay visible when the list is collapsed.
+        const visible = isExpanded
+          ? facet.options
+          : facet.options.filter((option, index) => index < COLLAPSED_OPTIONS || option.selected);
+        return (
+          <fieldset key={facet.key}>
+            <legend className="text-xs font-semibold uppercase tracking-wide text-base-content mb-2">{facet.label}</legend>
+            <ul className="space-y-1">
+              {visible.map(option => (
+                <li key={option.value}>
+                  <label className="flex items-center gap-2 text-sm text-base-content cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={option.selected}
+                      onChange={() => onToggle(facet.key, option.value)}
+                    />
+                    <span className={`flex-1 truncate ${option.selected ? 'text-white' : ''}`} title={option.label}>{option.label}</span>
+                    <span className="text-xs text-base-content">{option.count}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            {facet.options.length > COLLAPSED_OPTIONS && (
+              <button onClick={() => toggleExpanded(facet.key)} className="text-xs text-brand-secondary hover:underline mt-1">
+                {isExpanded ? 'Show fewer' : `Show all ${facet.options.length}`}
+              </button>
+            )}
+          </fieldset>
+        );
+      })}
+    </aside>
+  );
+};
+
+export default FacetSidebar;
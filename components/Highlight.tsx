@@ -0,0 +1,21 @@
+import React from 'react';
+import { highlightSegments } from '../services/searchIndex';
+
+interface HighlightProps {
+  text: string;
+  terms?: string[];
+}
+
+// Renders `text` with the words matching a search (see `JobSearchResult.matchedTerms`) marked.
+const Highlight: React.FC<HighlightProps> = ({ text, terms }) => {
+  if (!terms || terms.length === 0) return <>{text}</>;
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, index) => segment.isMatch
+        ? <mark key={index} className="bg-brand-secondary/30 text-white rounded-sm px-0.5">{segment.text}</mark>
+        : <React.Fragment key={index}>{segment.text}</React.Fragment>)}
+    </>
+  );
+};
+
+export default Highlight;
@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import type { Job, Application } from '../types';
+import type { ImportReport } from '../services/jobTransfer';
+import { exportJobsAsJson, exportJobsAsCsv, exportJobsAsJsonLd, exportEventsAsIcs, readImportFile, downloadFile } from '../services/jobTransfer';
+import { UploadIcon, CloseIcon } from './icons';
+
+interface ImportExportPanelProps {
+  savedJobs: Job[];
+  applications: Record<string, Application>;
+  onImport: (jobs: Job[], applications: Application[]) => void;
+}
+
+const buttonClassName = "flex items-center text-sm bg-base-200 hover:bg-base-300 text-base-content hover:text-white font-medium py-2 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+
+const ImportExportPanel: React.FC<ImportExportPanelProps> = ({ savedJobs, applications, onImport }) => {
+  const [report, setReport] = useState<ImportReport | null>(null);
+  // Conflicting ids the user chose to overwrite with the imported version.
+  const [replaceIds, setReplaceIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const dateStamp = new Date().toISOString().slice(0, 10);
+  const hasEvents = savedJobs.some(job => (applications[job.id]?.events ?? []).length > 0);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (event.target) event.target.value = ''; // Clear input for re-selection
+    if (!file) return;
+    setError(null);
+    try {
+      setReport(readImportFile(file.name, await file.text(), savedJobs));
+      setReplaceIds(new Set());
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Failed to read the file.');
+    }
+  };
+
+  const toggleReplace = (id: string) => {
+    setReplaceIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!report) return;
+    const replaced = report.conflicts.filter(c => replaceIds.has(c.incoming.id)).map(c => c.incoming);
+    const importedIds = new Set([...report.added, ...replaced].map(job => job.id));
+    onImport([...report.added, ...replaced], report.applications.filter(a => importedIds.has(a.jobId)));
+    setReport(null);
+  };
+
+  return (
+    <div className="bg-base-200/60 rounded-lg p-4 mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <button className={buttonClassName} disabled={savedJobs.length === 0}
+          onClick={() => downloadFile(`saved-jobs-${dateStamp}.json`, exportJobsAsJson(savedJobs, applications), 'application/json')}>
+          Export JSON
+        </button>
+        <button className={buttonClassName} disabled={savedJobs.length === 0}
+          onClick={() => downloadFile(`saved-jobs-${dateStamp}.csv`, exportJobsAsCsv(savedJobs, applications), 'text/csv')}>
+          Export CSV
+        </button>
+        <button className={buttonClassName} disabled={savedJobs.length === 0}
+          onClick={() => downloadFile(`saved-jobs-${dateStamp}.jsonld`, exportJobsAsJsonLd(savedJobs), 'application/ld+json')}>
+          Export JSON-LD
+        </button>
+        <button className={buttonClassName} disabled={!hasEvents}
+          onClick={() => downloadFile(`job-interviews-${dateStamp}.ics`, exportEventsAsIcs(savedJobs, applications), 'text/calendar')}>
+          Export Calendar
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json,.jsonld,.csv,application/json,application/ld+json,text/csv" className="hidden" aria-hidden="true" />
+        <button className={`${buttonClassName} ml-auto`} onClick={() => fileInputRef.current?.click()}>
+          <UploadIcon className="w-4 h-4 mr-2" />
+          Import
+        </button>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+      {report && (
+        <div className="mt-4 p-4 bg-base-100 rounded-md text-sm text-base-content space-y-3">
+          <div className="flex justify-between items-start">
+            <p>
+              <span className="text-green-400 font-semibold">{report.added.length} new</span>
+              {' · '}{report.unchanged.length} already saved
+              {' · '}<span className="text-amber-400">{report.conflicts.length} conflicting</span>
+              {' · '}<span className="text-red-400">{report.invalid.length} invalid</span>
+            </p>
+            <button onClick={() => setReport(null)} className="p-1 rounded-full hover:text-white hover:bg-base-300" aria-label="Dismiss import">
+              <CloseIcon className="w-4 h-4" />
+            </button>
+          </div>
+
+          {report.conflicts.length > 0 && (
+            <div>
+              <p className="font-semibold text-white mb-1">These jobs already exist with different details. Tick the ones to replace:</p>
+              <ul className="space-y-1">
+                {report.conflicts.map(({ existing, incoming }) => (
+                  <li key={incoming.id}>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={replaceIds.has(incoming.id)} onChange={() => toggleReplace(incoming.id)} />
+                      <span>{existing.title} at {existing.company}{existing.title !== incoming.title && ` → ${incoming.title}`}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.invalid.length > 0 && (
+            <details>
+              <summary className="cursor-pointer text-red-400">Show skipped records</summary>
+              <ul className="mt-1 space-y-1">
+                {report.invalid.map(({ index, errors }) => (
+                  <li key={index}>Record {index + 1}: {errors.join(' ')}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <button
+            onClick={handleApply}
+            disabled={report.added.length === 0 && replaceIds.size === 0}
+            className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {report.added.length + replaceIds.size} {report.added.length + replaceIds.size === 1 ? 'job' : 'jobs'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportExportPanel;
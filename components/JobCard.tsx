@@ -2,6 +2,9 @@
 import React from 'react';
 import type { Job } from '../types';
 import { LocationIcon, BriefcaseIcon, BuildingIcon, BookmarkIcon } from './icons';
+import { formatAnnualEquivalent } from '../services/salary';
+import { highlightSegments, matchSnippet } from '../services/searchIndex';
+import Highlight from './Highlight';
 
 interface JobCardProps {
   job: Job;
@@ -9,10 +12,27 @@ interface JobCardProps {
   isSaved: boolean;
   onSave: (job: Job) => void;
   onUnsave: (jobId: string) => void;
+  matchScore?: number;
+  // Words to mark from a saved-job search.
+  highlightTerms?: string[];
 }
 
-const JobCard: React.FC<JobCardProps> = ({ job, onSelect, isSaved, onSave, onUnsave }) => {
+const matchBadgeClass = (score: number) => {
+  if (score >= 80) return 'bg-green-400/20 text-green-300';
+  if (score >= 60) return 'bg-brand-secondary/20 text-brand-secondary';
+  if (score >= 40) return 'bg-amber-400/20 text-amber-300';
+  return 'bg-red-400/20 text-red-300';
+};
+
+const isHighlighted = (text: string, terms: string[]) => highlightSegments(text, terms).some(segment => segment.isMatch);
+
+const JobCard: React.FC<JobCardProps> = ({ job, onSelect, isSaved, onSave, onUnsave, matchScore, highlightTerms }) => {
     
+  // Skills that match a search come first, so they aren't hidden behind "+N more".
+  const skills = highlightTerms
+    ? [...job.skills].sort((a, b) => Number(isHighlighted(b, highlightTerms)) - Number(isHighlighted(a, highlightTerms)))
+    : job.skills;
+
   const handleSaveToggle = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (isSaved) {
@@ -30,10 +50,15 @@ const JobCard: React.FC<JobCardProps> = ({ job, onSelect, isSaved, onSave, onUns
       <div>
         <div className="flex justify-between items-start">
             <div className="pr-4">
-                <h3 className="text-xl font-bold text-white">{job.title}</h3>
+                {matchScore !== undefined && (
+                    <span className={`inline-block text-xs font-bold px-2 py-0.5 rounded-full mb-2 ${matchBadgeClass(matchScore)}`}>
+                        {matchScore}% match
+                    </span>
+                )}
+                <h3 className="text-xl font-bold text-white"><Highlight text={job.title} terms={highlightTerms} /></h3>
                 <div className="flex items-center text-sm text-base-content mt-1">
                     <BuildingIcon className="w-4 h-4 mr-2"/>
-                    <p>{job.company}</p>
+                    <p><Highlight text={job.company} terms={highlightTerms} /></p>
                 </div>
             </div>
             <button 
@@ -44,10 +69,12 @@ const JobCard: React.FC<JobCardProps> = ({ job, onSelect, isSaved, onSave, onUns
                 <BookmarkIcon className="w-5 h-5" filled={isSaved} />
             </button>
         </div>
-        <p className="text-base-content mt-4 text-sm line-clamp-2">{job.description}</p>
+        <p className="text-base-content mt-4 text-sm line-clamp-2">
+            {highlightTerms ? <Highlight text={matchSnippet(job.description, highlightTerms)} terms={highlightTerms} /> : job.description}
+        </p>
         <div className="mt-4 flex flex-wrap gap-2">
-            {job.skills.slice(0, 4).map(skill => (
-            <span key={skill} className="text-xs bg-base-300 text-base-content px-2 py-1 rounded-md">{skill}</span>
+            {skills.slice(0, 4).map(skill => (
+            <span key={skill} className="text-xs bg-base-300 text-base-content px-2 py-1 rounded-md"><Highlight text={skill} terms={highlightTerms} /></span>
             ))}
             {job.skills.length > 4 && (
                 <span className="text-xs bg-base-300 text-base-content px-2 py-1 rounded-md">+{job.skills.length - 4} more</span>
@@ -60,8 +87,9 @@ const JobCard: React.FC<JobCardProps> = ({ job, onSelect, isSaved, onSave, onUns
             <span>{job.location}</span>
         </div>
         {job.salaryRange && (
-            <div className="flex items-center">
+            <div className="flex items-center" title={(job.salary && formatAnnualEquivalent(job.salary)) || undefined}>
                 <span className="text-green-400 font-semibold">{job.salaryRange}</span>
+                {job.salary?.isEstimate && <span className="ml-1 text-xs text-base-content">(est.)</span>}
             </div>
         )}
       </div>
@@ -1,9 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { Job } from '../types';
+import type { Job, JobField, Application, Resume, ResumeFile } from '../types';
 import { InsightType } from '../types';
-import { getJobInsight, analyzeResume } from '../services/geminiService';
-import { CloseIcon, SparklesIcon, BuildingIcon, LocationIcon, BriefcaseIcon, DocumentTextIcon, BookmarkIcon, UploadIcon } from './icons';
+import { getJobInsight, analyzeResume, isAbortError } from '../services/geminiService';
+import { LLMError } from '../services/llmErrors';
+import { CloseIcon, SparklesIcon, BuildingIcon, LocationIcon, BriefcaseIcon, DocumentTextIcon, BookmarkIcon, UploadIcon, ViewColumnsIcon, DownloadIcon } from './icons';
 import Spinner from './Spinner';
+import { loadInsights, saveInsight, loadResumeAnalyses, saveResumeAnalysis, deleteJobAnalyses } from '../services/storage';
+import type { StoredResumeAnalysis } from '../services/storage';
+import { readResumeFile, RESUME_FILE_ACCEPT } from '../services/resumeFiles';
+import { formatAnnualEquivalent } from '../services/salary';
+import { downloadFile, exportJobsAsJsonLd } from '../services/jobTransfer';
+import ApplicationTimeline from './ApplicationTimeline';
+import ResumeAnalysisView from './ResumeAnalysisView';
+import CoverLetterModal from './CoverLetterModal';
+import JobEditForm from './JobEditForm';
+import ProvenanceBadge from './ProvenanceBadge';
 
 interface JobDetailModalProps {
   job: Job | null;
@@ -11,24 +22,37 @@ interface JobDetailModalProps {
   isSaved: boolean;
   onSave: (job: Job) => void;
   onUnsave: (jobId: string) => void;
+  application?: Application;
+  onApplicationChange: (application: Application) => void;
+  resumes: Resume[];
+  onSaveResume: (resume: Resume) => void;
+  // Saved jobs can be corrected by hand.
+  onEdit?: (job: Job) => void;
 }
 
+// Picker value for a resume pasted or uploaded just for this analysis.
+const AD_HOC_RESUME = '';
+
 interface Insight {
   type: InsightType;
   title: string;
   content: string | null;
   isLoading: boolean;
   error: string | null;
+  // The error was a rate limit or outage, so asking again later may work.
+  canRetry?: boolean;
 }
 
-const InsightButton: React.FC<{ title: string; onClick: () => void; isLoading: boolean }> = ({ title, onClick, isLoading }) => (
+const InsightButton: React.FC<{ title: string; onClick: () => void; onCancel: () => void; isLoading: boolean }> = ({ title, onClick, onCancel, isLoading }) => (
   <button
-    onClick={onClick}
-    disabled={isLoading}
+    onClick={isLoading ? onCancel : onClick}
     className="w-full flex items-center justify-center text-sm bg-brand-primary hover:bg-brand-secondary text-white font-semibold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-base-300 focus:ring-brand-secondary transition duration-150 ease-in-out disabled:opacity-60"
   >
     {isLoading ? (
-      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+      <>
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+        Stop
+      </>
     ) : (
       <>
         <SparklesIcon className="w-4 h-4 mr-2" />
@@ -59,34 +83,107 @@ const TabButton: React.FC<TabButtonProps> = ({ isActive, onClick, children }) =>
     </button>
   );
 
-const JobDetailModal: React.FC<JobDetailModalProps> = ({ job, onClose, isSaved, onSave, onUnsave }) => {
+// The job fields that insight and resume analysis prompts are written from.
+const PROMPT_FIELDS: JobField[] = ['title', 'company', 'location', 'description', 'skills'];
+
+const JobDetailModal: React.FC<JobDetailModalProps> = ({ job, onClose, isSaved, onSave, onUnsave, application, onApplicationChange, resumes, onSaveResume, onEdit }) => {
   const [insights, setInsights] = useState<Insight[]>([
     { type: InsightType.SUMMARY, title: 'Summarize', content: null, isLoading: false, error: null },
     { type: InsightType.SKILLS, title: 'Key Skills', content: null, isLoading: false, error: null },
-    { type: InsightType.COVER_LETTER, title: 'Cover Letter Helper', content: null, isLoading: false, error: null },
   ]);
   
   const [activeTab, setActiveTab] = useState('insights');
+  const [isCoverLetterOpen, setIsCoverLetterOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [selectedResumeId, setSelectedResumeId] = useState<string>(() => resumes[0]?.id ?? AD_HOC_RESUME);
   const [resumeText, setResumeText] = useState('');
-  const [analysisResult, setAnalysisResult] = useState<string | null>(null);
+  const [newResumeName, setNewResumeName] = useState('');
+  // Every stored analysis for this job, newest first.
+  const [analyses, setAnalyses] = useState<StoredResumeAnalysis[]>([]);
+  const [viewedAnalysisId, setViewedAnalysisId] = useState<string | null>(null);
+  // Characters of the JSON response received so far, shown while the analysis streams in.
+  const [analysisProgress, setAnalysisProgress] = useState(0);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
-  const [uploadedFile, setUploadedFile] = useState<{ name: string; data: string; mimeType: string } | null>(null);
+  const [uploadedFile, setUploadedFile] = useState<ResumeFile | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // In-flight streaming requests, keyed by insight type or 'resume', so the UI can cancel them.
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  const cancelRequest = (key: string) => {
+    controllersRef.current.get(key)?.abort();
+    controllersRef.current.delete(key);
+  };
+
+  const startRequest = (key: string): AbortSignal => {
+    cancelRequest(key);
+    const controller = new AbortController();
+    controllersRef.current.set(key, controller);
+    return controller.signal;
+  };
+
+  // Edits to a job keep its id, so they don't count as selecting another job.
+  const jobId = job?.id;
 
   useEffect(() => {
-    // Reset state when a new job is selected
+    // Reset state when a new job is selected, stopping anything still streaming for the old one
+    const controllers = controllersRef.current;
+    controllers.forEach(controller => controller.abort());
+    controllers.clear();
     setInsights(prev => prev.map(i => ({ ...i, content: null, isLoading: false, error: null })));
     setActiveTab('insights');
+    setIsCoverLetterOpen(false);
+    setIsEditing(false);
     setResumeText('');
     setUploadedFile(null);
-    setAnalysisResult(null);
+    setAnalyses([]);
+    setViewedAnalysisId(null);
     setIsAnalyzing(false);
     setAnalysisError(null);
-  }, [job]);
+    return () => controllers.forEach(controller => controller.abort());
+  }, [jobId]);
+
+  useEffect(() => {
+    // Saved jobs keep their generated insights between visits.
+    if (!jobId || !isSaved) return;
+    let cancelled = false;
+    loadInsights(jobId)
+      .then(storedInsights => {
+        if (cancelled) return;
+        setInsights(prev => prev.map(i => {
+          const stored = storedInsights.find(s => s.type === i.type);
+          return stored && !i.content ? { ...i, content: stored.content } : i;
+        }));
+      })
+      .catch(error => console.error("Error loading stored insights", error));
+    return () => { cancelled = true; };
+  }, [jobId, isSaved]);
+
+  useEffect(() => {
+    if (!jobId) return;
+    let cancelled = false;
+    loadResumeAnalyses(jobId)
+      .then(stored => { if (!cancelled) setAnalyses(stored); })
+      .catch(error => console.error("Error loading stored resume analyses", error));
+    return () => { cancelled = true; };
+  }, [jobId]);
+
+  useEffect(() => {
+    // Fall back to pasting when the selected resume is deleted from the profile.
+    if (selectedResumeId !== AD_HOC_RESUME && !resumes.some(r => r.id === selectedResumeId)) {
+      setSelectedResumeId(resumes[0]?.id ?? AD_HOC_RESUME);
+    }
+  }, [resumes, selectedResumeId]);
 
   if (!job) return null;
 
+  const selectedResume = resumes.find(r => r.id === selectedResumeId);
+  const hasResumeInput = selectedResume ? true : Boolean(resumeText.trim() || uploadedFile);
+  // Analyses made with the resume currently in the picker; ad-hoc ones have no resumeId.
+  const resumeAnalyses = analyses.filter(a => (a.resumeId ?? AD_HOC_RESUME) === selectedResumeId);
+  const viewedAnalysis = resumeAnalyses.find(a => a.id === viewedAnalysisId) ?? resumeAnalyses[0];
+  const annualEquivalent = job.salary && formatAnnualEquivalent(job.salary);
+
   const handleSaveToggle = () => {
     if (isSaved) {
       onUnsave(job.id);
@@ -95,67 +192,111 @@ const JobDetailModal: React.FC<JobDetailModalProps> = ({ job, onClose, isSaved,
     }
   };
 
-  const handleFetchInsight = async (type: InsightType) => {
-    setInsights(prev => prev.map(i => i.type === type ? { ...i, isLoading: true, error: null } : i));
+  const handleEdited = (edited: Job) => {
+    // Insights and analyses were written about the old text, so they go with it.
+    if (PROMPT_FIELDS.some(field => JSON.stringify(edited[field]) !== JSON.stringify(job[field]))) {
+      controllersRef.current.forEach(controller => controller.abort());
+      controllersRef.current.clear();
+      setInsights(prev => prev.map(i => ({ ...i, content: null, isLoading: false, error: null })));
+      setAnalyses([]);
+      setViewedAnalysisId(null);
+      setIsAnalyzing(false);
+      setAnalysisError(null);
+      deleteJobAnalyses(job.id).catch(error => console.error("Error clearing stored insights", error));
+    }
+    onEdit?.(edited);
+    setIsEditing(false);
+  };
+
+  const handleFetchInsight = async (type: InsightType, refresh = false) => {
+    const signal = startRequest(type);
+    setInsights(prev => prev.map(i => i.type === type ? { ...i, content: null, isLoading: true, error: null } : i));
     try {
-      const content = await getJobInsight(job, type);
+      const content = await getJobInsight(job, type, {
+        signal,
+        refresh,
+        onChunk: partial => setInsights(prev => prev.map(i => i.type === type ? { ...i, content: partial } : i)),
+      });
       setInsights(prev => prev.map(i => i.type === type ? { ...i, content, isLoading: false } : i));
+      if (isSaved) {
+        saveInsight(job.id, type, content).catch(error => console.error("Error storing insight", error));
+      }
     } catch (error) {
+      if (isAbortError(error)) {
+        // Keep whatever streamed in before the user stopped it.
+        setInsights(prev => prev.map(i => i.type === type ? { ...i, isLoading: false } : i));
+        return;
+      }
       console.error(error);
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-      setInsights(prev => prev.map(i => i.type === type ? { ...i, error: errorMessage, isLoading: false } : i));
+      const canRetry = error instanceof LLMError && error.retryable;
+      setInsights(prev => prev.map(i => i.type === type ? { ...i, error: errorMessage, canRetry, isLoading: false } : i));
     }
   };
 
   const handleAnalyzeResume = async () => {
-    if ((!resumeText.trim() && !uploadedFile) || !job) return;
+    if (!hasResumeInput || !job) return;
+    const signal = startRequest('resume');
     setIsAnalyzing(true);
     setAnalysisError(null);
-    setAnalysisResult(null);
+    setAnalysisProgress(0);
     try {
-      const resumeData = uploadedFile 
-          ? { file: { data: uploadedFile.data, mimeType: uploadedFile.mimeType } }
-          : { text: resumeText };
-      const result = await analyzeResume(resumeData, job);
-      setAnalysisResult(result);
+      const resumeData = selectedResume
+          ?? (uploadedFile ? { file: uploadedFile } : { text: resumeText });
+      const result = await analyzeResume(resumeData, job, { signal, onChunk: partial => setAnalysisProgress(partial.length) });
+      const record = await saveResumeAnalysis(job.id, selectedResume?.id, result).catch(error => {
+        console.error("Error storing resume analysis", error);
+        // Still show the result even if it couldn't be stored.
+        return { id: crypto.randomUUID(), jobId: job.id, resumeId: selectedResume?.id, result, createdAt: new Date().toISOString() };
+      });
+      setAnalyses(prev => [record, ...prev]);
+      setViewedAnalysisId(record.id);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error(error);
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
       setAnalysisError(errorMessage);
     } finally {
-      setIsAnalyzing(false);
+      if (!signal.aborted) setIsAnalyzing(false);
     }
   };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleCancelAnalysis = () => {
+    cancelRequest('resume');
+    setIsAnalyzing(false);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    if (event.target) event.target.value = ''; // Clear input for re-selection
     if (!file) return;
 
     setAnalysisError(null); // Reset error on new upload attempt
-
-    const allowedMimeTypes = [
-        'application/pdf',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    ];
-
-    if (!allowedMimeTypes.includes(file.type)) {
-        setAnalysisError('Invalid file type. Please upload a PDF or DOCX file.');
-        if (event.target) event.target.value = ''; // Clear input for re-selection
-        return;
+    try {
+      setUploadedFile(await readResumeFile(file));
+      setResumeText(''); // Clear pasted text
+      if (!newResumeName.trim()) setNewResumeName(file.name.replace(/\.[^.]+$/, ''));
+    } catch (error) {
+      setAnalysisError(error instanceof Error ? error.message : 'Failed to read the file.');
     }
+  };
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        const dataUrl = e.target?.result as string;
-        const base64Data = dataUrl.split(',')[1];
-        setUploadedFile({ name: file.name, data: base64Data, mimeType: file.type });
-        setResumeText(''); // Clear pasted text
+  const handleSaveToProfile = () => {
+    if (!newResumeName.trim() || (!resumeText.trim() && !uploadedFile)) return;
+    const now = new Date().toISOString();
+    const resume: Resume = {
+      id: crypto.randomUUID(),
+      name: newResumeName.trim(),
+      text: uploadedFile ? undefined : resumeText,
+      file: uploadedFile ?? undefined,
+      createdAt: now,
+      updatedAt: now,
     };
-    reader.onerror = () => {
-        setAnalysisError('Failed to read the file.');
-    };
-    reader.readAsDataURL(file);
-    if (event.target) event.target.value = ''; // Clear input for re-selection
+    onSaveResume(resume);
+    setSelectedResumeId(resume.id);
+    setResumeText('');
+    setUploadedFile(null);
+    setNewResumeName('');
   };
 
   return (
@@ -163,13 +304,30 @@ const JobDetailModal: React.FC<JobDetailModalProps> = ({ job, onClose, isSaved,
       <div className="bg-base-200 rounded-lg shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
         <header className="p-4 sm:p-6 border-b border-base-300 flex justify-between items-center flex-shrink-0">
           <div className="flex-1 pr-4">
-            <h2 className="text-xl sm:text-2xl font-bold text-white">{job.title}</h2>
+            <h2 className="text-xl sm:text-2xl font-bold text-white">{job.title}<ProvenanceBadge provenance={job.provenance?.title} /></h2>
             <div className="flex items-center text-sm text-base-content mt-1">
               <BuildingIcon className="w-4 h-4 mr-2" />
               <span>{job.company}</span>
+              <ProvenanceBadge provenance={job.provenance?.company} />
             </div>
           </div>
           <div className="flex items-center space-x-2">
+             {isSaved && onEdit && !isEditing && (
+               <button
+                  onClick={() => setIsEditing(true)}
+                  className="px-3 py-2 rounded-md text-sm font-medium bg-base-300 text-base-content hover:text-white transition-colors"
+               >
+                  Edit
+               </button>
+             )}
+             <button
+                onClick={() => downloadFile(`${job.id}.jsonld`, exportJobsAsJsonLd([job]), 'application/ld+json')}
+                className="flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium bg-base-300 text-base-content hover:text-white transition-colors"
+                title="Download as a schema.org JobPosting"
+            >
+                <DownloadIcon className="w-4 h-4" />
+                <span>JSON-LD</span>
+            </button>
              <button 
                 onClick={handleSaveToggle} 
                 className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -189,21 +347,38 @@ const JobDetailModal: React.FC<JobDetailModalProps> = ({ job, onClose, isSaved,
         <div className="flex-grow overflow-y-auto">
             <div className="flex flex-col lg:flex-row">
                 <div className="lg:w-2/3 p-4 sm:p-6">
+                  {isEditing && onEdit ? (
+                    <JobEditForm job={job} onSave={handleEdited} onCancel={() => setIsEditing(false)} />
+                  ) : (
+                    <>
                     <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-base-content mb-4">
-                        <div className="flex items-center"><LocationIcon className="w-4 h-4 mr-2" />{job.location}</div>
-                        <div className="flex items-center"><BriefcaseIcon className="w-4 h-4 mr-2" />{job.type}</div>
-                        {job.salaryRange && <div className="flex items-center font-semibold text-green-400"><span>💰</span><span className="ml-2">{job.salaryRange}</span></div>}
+                        <div className="flex items-center"><LocationIcon className="w-4 h-4 mr-2" />{job.location}<ProvenanceBadge provenance={job.provenance?.location} /></div>
+                        <div className="flex items-center"><BriefcaseIcon className="w-4 h-4 mr-2" />{job.type}<ProvenanceBadge provenance={job.provenance?.type} /></div>
+                        {job.salaryRange && (
+                            <div className="flex items-center">
+                                <span>💰</span>
+                                <span className="ml-2 font-semibold text-green-400">{job.salaryRange}</span>
+                                {job.salary?.isEstimate && <span className="ml-1 text-xs">(estimated)</span>}
+                                {annualEquivalent && <span className="ml-2 text-xs">{annualEquivalent}</span>}
+                                <ProvenanceBadge provenance={job.provenance?.salaryRange} />
+                            </div>
+                        )}
                     </div>
+                    {job.sources && job.sources.length > 0 && (
+                        <p className="text-xs text-base-content mb-4">Found on: {job.sources.join(', ')}</p>
+                    )}
 
-                    <h3 className="font-bold text-lg text-white mb-2">Job Description</h3>
+                    <h3 className="font-bold text-lg text-white mb-2 flex items-center">Job Description<ProvenanceBadge provenance={job.provenance?.description} /></h3>
                     <div className="prose prose-sm prose-invert max-w-none text-base-content whitespace-pre-wrap">{job.description}</div>
 
-                    <h3 className="font-bold text-lg text-white mt-6 mb-2">Skills</h3>
+                    <h3 className="font-bold text-lg text-white mt-6 mb-2 flex items-center">Skills<ProvenanceBadge provenance={job.provenance?.skills} /></h3>
                     <div className="flex flex-wrap gap-2">
                         {job.skills.map(skill => (
                             <span key={skill} className="text-sm bg-base-300 text-base-content px-3 py-1 rounded-full">{skill}</span>
                         ))}
                     </div>
+                    </>
+                  )}
                 </div>
 
                 <aside className="lg:w-1/3 bg-base-300 lg:border-l lg:border-base-200">
@@ -216,6 +391,11 @@ const JobDetailModal: React.FC<JobDetailModalProps> = ({ job, onClose, isSaved,
                             <TabButton isActive={activeTab === 'resume'} onClick={() => setActiveTab('resume')}>
                                 <span className="flex items-center"><DocumentTextIcon className="w-4 h-4 mr-2" />Resume Analyzer</span>
                             </TabButton>
+                            {isSaved && application && (
+                                <TabButton isActive={activeTab === 'tracking'} onClick={() => setActiveTab('tracking')}>
+                                    <span className="flex items-center"><ViewColumnsIcon className="w-4 h-4 mr-2" />Tracking</span>
+                                </TabButton>
+                            )}
                         </div>
                     </div>
                     <div className="p-4 sm:p-6">
@@ -223,25 +403,63 @@ const JobDetailModal: React.FC<JobDetailModalProps> = ({ job, onClose, isSaved,
                              <div className="space-y-4">
                                 {insights.map(insight => (
                                     <div key={insight.type}>
-                                        <InsightButton title={insight.title} onClick={() => handleFetchInsight(insight.type)} isLoading={insight.isLoading} />
+                                        <InsightButton title={insight.title} onClick={() => handleFetchInsight(insight.type)} onCancel={() => cancelRequest(insight.type)} isLoading={insight.isLoading} />
                                         {insight.content && (
                                             <div className="mt-3 p-3 bg-base-100 rounded-md text-sm text-base-content whitespace-pre-wrap">
                                                 {insight.content}
                                             </div>
                                         )}
-                                        {insight.error && <p className="mt-2 text-sm text-red-400">{insight.error}</p>}
+                                        {insight.content && !insight.isLoading && (
+                                            <button onClick={() => handleFetchInsight(insight.type, true)} className="mt-1 text-xs text-brand-secondary hover:underline">
+                                                Regenerate
+                                            </button>
+                                        )}
+                                        {insight.error && (
+                                            <p className="mt-2 text-sm text-red-400">
+                                                {insight.error}
+                                                {insight.canRetry && (
+                                                    <button onClick={() => handleFetchInsight(insight.type)} className="ml-2 text-brand-secondary hover:underline">Try again</button>
+                                                )}
+                                            </p>
+                                        )}
                                     </div>
                                 ))}
+                                <div>
+                                    <button
+                                        onClick={() => setIsCoverLetterOpen(true)}
+                                        className="w-full flex items-center justify-center text-sm bg-brand-primary hover:bg-brand-secondary text-white font-semibold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-base-300 focus:ring-brand-secondary transition duration-150 ease-in-out"
+                                    >
+                                        <DocumentTextIcon className="w-4 h-4 mr-2" />
+                                        Write Cover Letter
+                                    </button>
+                                    <p className="mt-2 text-xs text-base-content">Draft a full letter from your resume, then edit, save and export it.</p>
+                                </div>
                             </div>
                         )}
                         {activeTab === 'resume' && (
                             <div>
+                               <label htmlFor="resume-picker" className="block text-sm text-base-content mb-1">Resume</label>
+                               <select
+                                    id="resume-picker"
+                                    value={selectedResumeId}
+                                    onChange={(e) => { setSelectedResumeId(e.target.value); setViewedAnalysisId(null); }}
+                                    className="mb-3 w-full bg-base-100 border border-base-200 rounded-md shadow-sm p-2 text-sm focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white"
+                                >
+                                    {resumes.map(resume => <option key={resume.id} value={resume.id}>{resume.name}</option>)}
+                                    <option value={AD_HOC_RESUME}>Paste or upload another resume…</option>
+                                </select>
+                               {selectedResume ? (
+                                    <p className="text-xs text-base-content mb-3">
+                                        Using {selectedResume.file ? selectedResume.file.name : 'stored resume text'} from your profile.
+                                    </p>
+                               ) : (
+                               <>
                                <p className="text-sm text-base-content mb-3">Paste your resume below or upload a PDF/DOCX to see how it matches up.</p>
                                <input
                                     type="file"
                                     ref={fileInputRef}
                                     onChange={handleFileChange}
-                                    accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                                    accept={RESUME_FILE_ACCEPT}
                                     className="hidden"
                                     aria-hidden="true"
                                 />
@@ -271,40 +489,73 @@ const JobDetailModal: React.FC<JobDetailModalProps> = ({ job, onClose, isSaved,
                                         onChange={(e) => setResumeText(e.target.value)}
                                     ></textarea>
                                 )}
+                                {(resumeText.trim() || uploadedFile) && (
+                                    <div className="flex gap-2 mt-2">
+                                        <input
+                                            className="flex-1 min-w-0 bg-base-100 border border-base-200 rounded-md p-2 text-sm focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white"
+                                            placeholder="Name to save as"
+                                            value={newResumeName}
+                                            onChange={(e) => setNewResumeName(e.target.value)}
+                                        />
+                                        <button
+                                            onClick={handleSaveToProfile}
+                                            disabled={!newResumeName.trim()}
+                                            className="text-sm bg-base-100 hover:bg-base-200 border border-base-200 text-base-content hover:text-white font-medium py-2 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                                        >
+                                            Save to Profile
+                                        </button>
+                                    </div>
+                                )}
+                               </>
+                               )}
                                 <button
-                                    onClick={handleAnalyzeResume}
-                                    disabled={isAnalyzing || (!resumeText.trim() && !uploadedFile)}
+                                    onClick={isAnalyzing ? handleCancelAnalysis : handleAnalyzeResume}
+                                    disabled={!isAnalyzing && !hasResumeInput}
                                     className="mt-3 w-full flex items-center justify-center text-sm bg-brand-primary hover:bg-brand-secondary text-white font-semibold py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-base-300 focus:ring-brand-secondary transition duration-150 ease-in-out disabled:opacity-60 disabled:cursor-not-allowed"
                                 >
                                     {isAnalyzing ? (
-                                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                                        <>
+                                            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                                            Stop
+                                        </>
                                     ) : (
                                         'Analyze Resume'
                                     )}
                                 </button>
                                 {analysisError && <p className="mt-2 text-sm text-red-400">{analysisError}</p>}
-                                {analysisResult && (
+                                {isAnalyzing && analysisProgress > 0 && (
+                                    <p className="mt-2 text-xs text-base-content">Receiving analysis… {analysisProgress.toLocaleString()} characters</p>
+                                )}
+                                {resumeAnalyses.length > 1 && (
+                                    <select
+                                        value={viewedAnalysis?.id}
+                                        onChange={(e) => setViewedAnalysisId(e.target.value)}
+                                        className="mt-4 w-full bg-base-100 border border-base-200 rounded-md p-2 text-xs text-base-content"
+                                        aria-label="Previous analyses"
+                                    >
+                                        {resumeAnalyses.map(a => (
+                                            <option key={a.id} value={a.id}>{new Date(a.createdAt).toLocaleString()} · score {a.result.matchScore}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                {viewedAnalysis && !isAnalyzing && (
                                     <div className="mt-4 p-3 bg-base-100 rounded-md">
-                                        <div className="prose prose-sm prose-invert max-w-none text-base-content">
-                                            {analysisResult.split('\n').map((line, index) => {
-                                                if (line.startsWith('###')) {
-                                                    return <h3 key={index} className="text-white font-bold mt-3 mb-1">{line.replace('###', '').trim()}</h3>;
-                                                }
-                                                if (line.startsWith('- ')) {
-                                                    return <li key={index} className="ml-4">{line.replace('- ', '').trim()}</li>;
-                                                }
-                                                return <p key={index}>{line}</p>;
-                                            })}
-                                        </div>
+                                        <ResumeAnalysisView analysis={viewedAnalysis.result} />
                                     </div>
                                 )}
                             </div>
                         )}
+                        {activeTab === 'tracking' && isSaved && application && (
+                            <ApplicationTimeline application={application} onChange={onApplicationChange} />
+                        )}
                     </div>
                 </aside>
             </div>
         </div>
       </div>
+      {isCoverLetterOpen && (
+        <CoverLetterModal job={job} resumes={resumes} onClose={() => setIsCoverLetterOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import type { Job, JobField } from '../types';
+import { JOB_FIELDS, JOB_TYPES, validateJob, validateSkillList } from '../services/jobValidation';
+import { parseSalary } from '../services/salary';
+import ProvenanceBadge from './ProvenanceBadge';
+
+interface JobEditFormProps {
+  job: Job;
+  onSave: (job: Job) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = "w-full bg-base-300 border border-base-300 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-brand-primary focus:border-brand-primary";
+
+const JobEditForm: React.FC<JobEditFormProps> = ({ job, onSave, onCancel }) => {
+  const [draft, setDraft] = useState({
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    type: job.type,
+    salaryRange: job.salaryRange ?? '',
+    skills: job.skills.join(', '),
+    description: job.description,
+  });
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const label = (field: JobField, text: string) => (
+    <span className="flex items-center text-base-content">{text}<ProvenanceBadge provenance={job.provenance?.[field]} /></span>
+  );
+
+  const update = (field: keyof typeof draft) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+    setDraft(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const salaryRange = draft.salaryRange.trim();
+    // A salary typed in by hand is stated, not estimated; an unchanged one keeps its parse.
+    const salary = salaryRange === (job.salaryRange ?? '') ? job.salary : parseSalary(salaryRange) ?? undefined;
+    const skills = draft.skills.split(/[,;]/).map(skill => skill.trim()).filter(Boolean);
+    const { job: validated, errors: problems } = validateJob({
+      ...job,
+      title: draft.title.trim(),
+      company: draft.company.trim(),
+      location: draft.location.trim(),
+      type: draft.type,
+      description: draft.description.trim(),
+      skills,
+      salaryRange: salaryRange || undefined,
+      salary: salaryRange ? salary : undefined,
+    });
+    // Skill lists from job boards can break the limits; only hold the user's own changes to them.
+    const skillProblems = JSON.stringify(skills) === JSON.stringify(job.skills) ? [] : validateSkillList(skills);
+    const allProblems = [...problems, ...skillProblems];
+    setErrors(allProblems);
+    if (!validated || allProblems.length > 0) return;
+
+    // Only the fields whose value actually changed count as edited.
+    const edited = JOB_FIELDS.filter(field => JSON.stringify(validated[field]) !== JSON.stringify(job[field]));
+    onSave(edited.length === 0 ? job : {
+      ...validated,
+      provenance: { ...job.provenance, ...Object.fromEntries(edited.map(field => [field, 'user-edited'])) },
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="block">
+          {label('title', 'Title')}
+          <input className={inputClassName} value={draft.title} onChange={update('title')} />
+        </label>
+        <label className="block">
+          {label('company', 'Company')}
+          <input className={inputClassName} value={draft.company} onChange={update('company')} />
+        </label>
+        <label className="block">
+          {label('location', 'Location')}
+          <input className={inputClassName} value={draft.location} onChange={update('location')} />
+        </label>
+        <label className="block">
+          {label('type', 'Job type')}
+          <select className={inputClassName} value={draft.type} onChange={update('type')}>
+            {JOB_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          {label('salaryRange', 'Salary')}
+          <input className={inputClassName} value={draft.salaryRange} onChange={update('salaryRange')} placeholder="e.g. $120,000 - $140,000 per year" />
+        </label>
+        <label className="block">
+          {label('skills', 'Skills')}
+          <input className={inputClassName} value={draft.skills} onChange={update('skills')} placeholder="Comma-separated" />
+        </label>
+      </div>
+      <label className="block">
+        {label('description', 'Description')}
+        <textarea className={`${inputClassName} h-32`} value={draft.description} onChange={update('description')} />
+      </label>
+
+      {errors.length > 0 && (
+        <ul className="text-red-400 space-y-1">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-md font-medium text-base-content hover:bg-base-300 transition-colors">
+          Cancel
+        </button>
+        <button type="submit" className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition duration-150 ease-in-out">
+          Save changes
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default JobEditForm;
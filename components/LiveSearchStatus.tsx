@@ -1,28 +1,28 @@
 import React from 'react';
-import { CheckCircleIcon } from './icons';
+import type { JobSourceStatus } from '../types';
+import { CheckCircleIcon, CloseIcon } from './icons';
 
 interface LiveSearchStatusProps {
-  status: {
-    completed: string[];
-    current: string | null;
-  };
-  sources: string[];
+  sources: JobSourceStatus[];
 }
 
-const LiveSearchStatus: React.FC<LiveSearchStatusProps> = ({ status, sources }) => {
+const LiveSearchStatus: React.FC<LiveSearchStatusProps> = ({ sources }) => {
   return (
     <div className="bg-base-200 p-6 rounded-lg shadow-lg mb-8 animate-fade-in">
       <h3 className="text-xl font-bold text-white mb-4">Searching for jobs...</h3>
-      <p className="text-base-content mb-6">Our AI is scanning top job boards in real-time to find the best matches for you.</p>
+      <p className="text-base-content mb-6">Querying {sources.length} job {sources.length === 1 ? 'source' : 'sources'} at the same time to find the best matches for you.</p>
       <div className="space-y-3">
         {sources.map(source => {
-          const isCompleted = status.completed.includes(source);
-          const isCurrent = status.current === source;
+          const isCompleted = source.state === 'done';
+          const isCurrent = source.state === 'loading';
+          const isFailed = source.state === 'error';
 
           return (
-            <div key={source} className="flex items-center p-3 bg-base-300 rounded-md transition-all duration-300">
+            <div key={source.id} className="flex items-center p-3 bg-base-300 rounded-md transition-all duration-300">
               {isCompleted ? (
                 <CheckCircleIcon className="w-6 h-6 text-green-400 mr-4" />
+              ) : isFailed ? (
+                <CloseIcon className="w-6 h-6 text-red-400 mr-4" />
               ) : isCurrent ? (
                 <div className="w-6 h-6 mr-4 flex items-center justify-center">
                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-brand-primary"></div>
@@ -32,8 +32,12 @@ const LiveSearchStatus: React.FC<LiveSearchStatusProps> = ({ status, sources })
                     <div className="h-5 w-5 rounded-full bg-base-100 border-2 border-base-content/50"></div>
                 </div>
               )}
-              <span className={`font-medium ${isCompleted ? 'text-green-400' : isCurrent ? 'text-white' : 'text-base-content'}`}>
-                {source}
+              <span className={`font-medium ${isCompleted ? 'text-green-400' : isFailed ? 'text-red-400' : isCurrent ? 'text-white' : 'text-base-content'}`}>
+                {source.name}
+              </span>
+              <span className="ml-auto text-sm text-base-content truncate pl-4">
+                {isCompleted && `${source.jobCount} ${source.jobCount === 1 ? 'job' : 'jobs'}`}
+                {isFailed && source.error}
               </span>
             </div>
           );
@@ -0,0 +1,76 @@
+import React from 'react';
+import type { Resume } from '../types';
+import type { RankingProgress } from '../services/matchRanking';
+import { SparklesIcon } from './icons';
+
+interface MatchRankingBarProps {
+  resumes: Resume[];
+  selectedResumeId: string;
+  onResumeChange: (resumeId: string) => void;
+  onRank: () => void;
+  onStop: () => void;
+  isRanking: boolean;
+  progress: RankingProgress | null;
+}
+
+const MatchRankingBar: React.FC<MatchRankingBarProps> = ({
+  resumes, selectedResumeId, onResumeChange, onRank, onStop, isRanking, progress,
+}) => {
+  if (resumes.length === 0) {
+    return (
+      <p className="text-sm text-base-content mb-4">Add a resume in your Profile to rank these jobs by how well they match you.</p>
+    );
+  }
+
+  const done = progress ? progress.completed + progress.failed : 0;
+
+  return (
+    <div className="bg-base-200/60 rounded-lg p-4 mb-6 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="ranking-resume" className="text-sm text-base-content">Rank matches for</label>
+        <select
+          id="ranking-resume"
+          value={selectedResumeId}
+          onChange={e => onResumeChange(e.target.value)}
+          disabled={isRanking}
+          className="bg-base-300 border border-base-300 rounded-md py-1.5 px-2 text-sm text-white focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+        >
+          {resumes.map(resume => <option key={resume.id} value={resume.id}>{resume.name}</option>)}
+        </select>
+        <button
+          onClick={isRanking ? onStop : onRank}
+          className="flex items-center text-sm bg-brand-primary hover:bg-brand-secondary text-white font-semibold py-1.5 px-3 rounded-md transition duration-150 ease-in-out"
+        >
+          {isRanking ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              Stop
+            </>
+          ) : (
+            <>
+              <SparklesIcon className="w-4 h-4 mr-2" />
+              Rank My Matches
+            </>
+          )}
+        </button>
+      </div>
+      {progress && progress.total > 0 && (
+        <div>
+          <div className="h-2 bg-base-300 rounded-full overflow-hidden">
+            <div className="h-full bg-brand-primary transition-all duration-300" style={{ width: `${(done / progress.total) * 100}%` }}></div>
+          </div>
+          <p className="text-xs text-base-content mt-1">
+            Scored {progress.completed} of {progress.total} new {progress.total === 1 ? 'job' : 'jobs'}
+            {progress.failed > 0 && <span className="text-red-400"> · {progress.failed} failed</span>}
+          </p>
+        </div>
+      )}
+      {progress?.stoppedBecause && <p className="text-xs text-red-400">Stopped: {progress.stoppedBecause}</p>}
+      {progress && progress.total === 0 && !progress.stoppedBecause && !isRanking && (
+        <p className="text-xs text-base-content">Every job here already has a score for this resume.</p>
+      )}
+    </div>
+  );
+};
+
+export default MatchRankingBar;
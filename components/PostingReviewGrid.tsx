@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { Job } from '../types';
+import type { IngestedPosting, PostingField } from '../services/jobIngestion';
+import { CheckCircleIcon, CloseIcon } from './icons';
+import JobCard from './JobCard';
+import JobEditForm from './JobEditForm';
+import Spinner from './Spinner';
+
+export type QueueItemStatus = 'queued' | 'parsing' | 'parsed' | 'failed';
+
+// One posting in a bulk import, from parsing through review.
+export interface QueueItem {
+  id: string;
+  posting: IngestedPosting;
+  status: QueueItemStatus;
+  job?: Job;
+  // Fields the model filled in; the rest were read from the document.
+  inferred?: PostingField[];
+  error?: string;
+  decision?: 'accepted' | 'rejected';
+}
+
+interface PostingReviewGridProps {
+  items: QueueItem[];
+  onRetry: (id: string) => void;
+  onEdit: (id: string, job: Job) => void;
+  onDecide: (id: string, decision: QueueItem['decision']) => void;
+}
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  queued: 'Waiting',
+  parsing: 'Parsing…',
+  parsed: 'Parsed',
+  failed: 'Failed',
+};
+
+const STATUS_CLASS_NAMES: Record<QueueItemStatus, string> = {
+  queued: 'bg-base-300 text-base-content',
+  parsing: 'bg-brand-primary/20 text-brand-primary',
+  parsed: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+};
+
+const ReviewItem: React.FC<Omit<PostingReviewGridProps, 'items'> & { item: QueueItem }> = ({ item, onRetry, onEdit, onDecide }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const { job } = item;
+
+  return (
+    <li className={`p-3 bg-base-100 rounded-md space-y-3 ${item.decision === 'rejected' ? 'opacity-50' : ''}`} aria-label={item.posting.source}>
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="truncate text-base-content">{item.posting.source}</span>
+        <span className={`text-xs px-2 py-0.5 rounded-full flex-shrink-0 ${STATUS_CLASS_NAMES[item.status]}`}>{STATUS_LABELS[item.status]}</span>
+      </div>
+
+      {item.status === 'parsing' && <Spinner />}
+      {item.status === 'queued' && <p className="text-sm text-base-content line-clamp-3">{item.posting.text}</p>}
+
+      {item.status === 'failed' && (
+        <div className="text-sm space-y-2">
+          <p className="text-red-400">{item.error}</p>
+          <button onClick={() => onRetry(item.id)} className="text-brand-secondary hover:underline">Retry</button>
+        </div>
+      )}
+
+      {job && (isEditing ? (
+        <JobEditForm
+          job={job}
+          onSave={edited => { onEdit(item.id, edited); setIsEditing(false); }}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <>
+          <div className="pointer-events-none">
+            <JobCard job={job} onSelect={() => {}} isSaved={false} onSave={() => {}} onUnsave={() => {}} />
+          </div>
+          {item.inferred && item.inferred.length > 0 && (
+            <p className="text-xs text-amber-300">Inferred by AI: {item.inferred.join(', ')}</p>
+          )}
+          <div className="flex items-center gap-2 text-sm">
+            <button
+              onClick={() => onDecide(item.id, item.decision === 'accepted' ? undefined : 'accepted')}
+              className={`flex items-center px-3 py-1.5 rounded-md font-medium ${item.decision === 'accepted' ? 'bg-green-500/20 text-green-400' : 'bg-base-300 text-base-content hover:text-white'}`}
+              aria-pressed={item.decision === 'accepted'}
+            >
+              <CheckCircleIcon className="w-4 h-4 mr-1" />
+              Accept
+            </button>
+            <button
+              onClick={() => onDecide(item.id, item.decision === 'rejected' ? undefined : 'rejected')}
+              className={`flex items-center px-3 py-1.5 rounded-md font-medium ${item.decision === 'rejected' ? 'bg-red-500/20 text-red-400' : 'bg-base-300 text-base-content hover:text-white'}`}
+              aria-pressed={item.decision === 'rejected'}
+            >
+              <CloseIcon className="w-4 h-4 mr-1" />
+              Reject
+            </button>
+            <button onClick={() => setIsEditing(true)} className="ml-auto px-3 py-1.5 rounded-md text-base-content hover:text-white hover:bg-base-300">
+              Edit
+            </button>
+          </div>
+        </>
+      ))}
+    </li>
+  );
+};
+
+const PostingReviewGrid: React.FC<PostingReviewGridProps> = ({ items, ...handlers }) => (
+  <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    {items.map(item => <ReviewItem key={item.id} item={item} {...handlers} />)}
+  </ul>
+);
+
+export default PostingReviewGrid;
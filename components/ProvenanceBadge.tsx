@@ -0,0 +1,16 @@
+import React from 'react';
+import type { FieldProvenance } from '../types';
+
+const BADGES: Record<FieldProvenance, { label: string; title: string; className: string }> = {
+  'ai-extracted': { label: 'AI-extracted', title: 'Read from the job posting', className: 'bg-sky-500/20 text-sky-300' },
+  'ai-generated': { label: 'AI-generated', title: 'Made up by the AI, not stated in a posting', className: 'bg-amber-500/20 text-amber-300' },
+  'user-edited': { label: 'Edited', title: 'Changed by you', className: 'bg-green-500/20 text-green-400' },
+};
+
+const ProvenanceBadge: React.FC<{ provenance?: FieldProvenance }> = ({ provenance }) => {
+  if (!provenance) return null;
+  const { label, title, className } = BADGES[provenance];
+  return <span className={`ml-2 text-[10px] font-medium uppercase tracking-wide px-1.5 py-0.5 rounded ${className}`} title={title}>{label}</span>;
+};
+
+export default ProvenanceBadge;
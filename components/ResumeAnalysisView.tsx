@@ -0,0 +1,79 @@
+import React from 'react';
+import type { ResumeAnalysis } from '../types';
+import { matchLabel } from '../services/resumeAnalysis';
+
+interface ResumeAnalysisViewProps {
+  analysis: ResumeAnalysis;
+}
+
+const scoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-400';
+  if (score >= 60) return 'text-brand-secondary';
+  if (score >= 40) return 'text-amber-400';
+  return 'text-red-400';
+};
+
+const ScoreGauge: React.FC<{ score: number }> = ({ score }) => {
+  const radius = 36;
+  const circumference = 2 * Math.PI * radius;
+  return (
+    <div className={`relative w-24 h-24 flex-shrink-0 ${scoreColor(score)}`}>
+      <svg viewBox="0 0 88 88" className="w-full h-full -rotate-90">
+        <circle cx="44" cy="44" r={radius} fill="none" strokeWidth="8" className="stroke-base-300" />
+        <circle
+          cx="44" cy="44" r={radius} fill="none" strokeWidth="8" stroke="currentColor" strokeLinecap="round"
+          strokeDasharray={circumference} strokeDashoffset={circumference * (1 - score / 100)}
+          className="transition-all duration-700"
+        />
+      </svg>
+      <span className="absolute inset-0 flex items-center justify-center text-2xl font-bold text-white">{score}</span>
+    </div>
+  );
+};
+
+const KeywordChips: React.FC<{ title: string; keywords: string[]; className: string }> = ({ title, keywords, className }) => {
+  if (keywords.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-base-content mb-1">{title}</h4>
+      <div className="flex flex-wrap gap-1">
+        {keywords.map(keyword => (
+          <span key={keyword} className={`text-xs px-2 py-1 rounded-full ${className}`}>{keyword}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ResumeAnalysisView: React.FC<ResumeAnalysisViewProps> = ({ analysis }) => (
+  <div className="space-y-4">
+    <div className="flex items-center gap-4">
+      <ScoreGauge score={analysis.matchScore} />
+      <div>
+        <p className={`font-bold ${scoreColor(analysis.matchScore)}`}>{matchLabel(analysis.matchScore)}</p>
+        <p className="text-sm text-base-content">{analysis.summary}</p>
+      </div>
+    </div>
+
+    <div className="space-y-3">
+      <KeywordChips title="Matched" keywords={analysis.keywords.matched} className="bg-green-400/20 text-green-300" />
+      <KeywordChips title="Missing" keywords={analysis.keywords.missing} className="bg-red-400/20 text-red-300" />
+      <KeywordChips title="Emphasize" keywords={analysis.keywords.emphasize} className="bg-amber-400/20 text-amber-300" />
+    </div>
+
+    {analysis.suggestions.length > 0 && (
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-white">Tailoring Suggestions</h4>
+        {analysis.suggestions.map((item, index) => (
+          <div key={index} className="p-3 bg-base-200 rounded-md text-sm">
+            <p className="font-semibold text-white">{item.suggestion}</p>
+            <p className="mt-1 text-base-content">{item.rationale}</p>
+            <p className="mt-2 p-2 bg-base-300 rounded text-base-content italic">“{item.example}”</p>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default ResumeAnalysisView;
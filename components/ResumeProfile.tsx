@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import type { Resume, ResumeFile } from '../types';
+import { readResumeFile, RESUME_FILE_ACCEPT } from '../services/resumeFiles';
+import { DocumentTextIcon, TrashIcon, UploadIcon, CloseIcon } from './icons';
+
+interface ResumeProfileProps {
+  resumes: Resume[];
+  onSave: (resume: Resume) => void;
+  onDelete: (resumeId: string) => void;
+}
+
+const inputClassName = "w-full bg-base-300 border border-base-300 rounded-md shadow-sm py-2 px-3 text-sm focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white";
+
+const ResumeProfile: React.FC<ResumeProfileProps> = ({ resumes, onSave, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<ResumeFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setText('');
+    setFile(null);
+    setError(null);
+  };
+
+  const handleEdit = (resume: Resume) => {
+    setEditingId(resume.id);
+    setName(resume.name);
+    setText(resume.text ?? '');
+    setFile(resume.file ?? null);
+    setError(null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (event.target) event.target.value = ''; // Clear input for re-selection
+    if (!selected) return;
+    setError(null);
+    try {
+      const resumeFile = await readResumeFile(selected);
+      setFile(resumeFile);
+      setText('');
+      if (!name.trim()) setName(selected.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file.');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || (!text.trim() && !file)) return;
+    const now = new Date().toISOString();
+    const existing = resumes.find(r => r.id === editingId);
+    onSave({
+      id: existing?.id ?? crypto.randomUUID(),
+      name: name.trim(),
+      text: file ? undefined : text,
+      file: file ?? undefined,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+    resetForm();
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <section>
+        <h3 className="text-lg font-semibold text-white mb-3">Stored Resumes</h3>
+        {resumes.length === 0 ? (
+          <p className="text-base-content">No resumes yet. Add one to reuse it for every job.</p>
+        ) : (
+          <ul className="space-y-3">
+            {resumes.map(resume => (
+              <li key={resume.id} className={`bg-base-200 p-4 rounded-lg flex items-start justify-between ${editingId === resume.id ? 'ring-2 ring-brand-primary' : ''}`}>
+                <button onClick={() => handleEdit(resume)} className="text-left min-w-0 flex-1">
+                  <p className="font-semibold text-white flex items-center">
+                    <DocumentTextIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+                    <span className="truncate">{resume.name}</span>
+                  </p>
+                  <p className="text-xs text-base-content mt-1">
+                    {resume.file ? resume.file.name : `${(resume.text ?? '').length.toLocaleString()} characters of text`}
+                    {' · '}updated {new Date(resume.updatedAt).toLocaleDateString()}
+                  </p>
+                </button>
+                <button
+                  onClick={() => { onDelete(resume.id); if (editingId === resume.id) resetForm(); }}
+                  className="p-2 rounded-full text-base-content hover:text-white hover:bg-base-300 transition-colors"
+                  aria-label={`Delete ${resume.name}`}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="bg-base-200 p-4 rounded-lg">
+        <h3 className="text-lg font-semibold text-white mb-3">{editingId ? 'Edit Resume' : 'Add Resume'}</h3>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input className={inputClassName} placeholder="Name (e.g., 'ML Engineer – 2025')" value={name} onChange={e => setName(e.target.value)} />
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={RESUME_FILE_ACCEPT} className="hidden" aria-hidden="true" />
+          {file ? (
+            <div className="flex items-center justify-between p-2 bg-base-300 rounded-md text-sm text-base-content">
+              <span className="truncate pr-2">{file.name}</span>
+              <button type="button" onClick={() => setFile(null)} className="p-1 rounded-full hover:text-white hover:bg-base-200" aria-label="Remove file">
+                <CloseIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full flex items-center justify-center text-sm bg-base-300 hover:bg-base-100 text-base-content hover:text-white font-medium py-2 px-4 rounded-md transition duration-150 ease-in-out"
+              >
+                <UploadIcon className="w-4 h-4 mr-2" />
+                Upload Resume (.pdf, .docx)
+              </button>
+              <textarea className={`${inputClassName} h-56`} placeholder="...or paste your resume text here" value={text} onChange={e => setText(e.target.value)} />
+            </>
+          )}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <button type="button" onClick={resetForm} className="px-4 py-2 rounded-md text-sm font-medium text-base-content hover:bg-base-300 transition-colors">
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={!name.trim() || (!text.trim() && !file)}
+              className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {editingId ? 'Save Changes' : 'Add Resume'}
+            </button>
+          </div>
+        </form>
+      </section>
+    </div>
+  );
+};
+
+export default ResumeProfile;
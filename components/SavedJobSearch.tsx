@@ -0,0 +1,32 @@
+import React from 'react';
+import { SearchIcon, CloseIcon } from './icons';
+
+interface SavedJobSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+}
+
+const SavedJobSearch: React.FC<SavedJobSearchProps> = ({ query, onQueryChange }) => (
+  <div className="relative mb-6">
+    <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-base-content pointer-events-none" />
+    <input
+      type="search"
+      value={query}
+      onChange={e => onQueryChange(e.target.value)}
+      placeholder="Search saved jobs by title, company, skills or description…"
+      aria-label="Search saved jobs"
+      className="w-full bg-base-300 border border-base-300 rounded-md shadow-sm py-2 pl-9 pr-9 focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white"
+    />
+    {query && (
+      <button
+        onClick={() => onQueryChange('')}
+        className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-full text-base-content hover:bg-base-200"
+        aria-label="Clear search"
+      >
+        <CloseIcon className="w-4 h-4" />
+      </button>
+    )}
+  </div>
+);
+
+export default SavedJobSearch;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import type { SavedSearch, SearchFilters } from '../types';
+import { REFRESH_INTERVALS, describeFilters } from '../services/savedSearches';
+import { TrashIcon } from './icons';
+
+interface SavedSearchesPanelProps {
+  searches: SavedSearch[];
+  currentFilters: SearchFilters;
+  // Unread alert counts by search id.
+  unreadCounts: Record<string, number>;
+  checkingSearchId: string | null;
+  onSave: (name: string, refreshMinutes: number | null) => void;
+  onOpen: (search: SavedSearch) => void;
+  onCheckNow: (search: SavedSearch) => void;
+  onRefreshChange: (search: SavedSearch, refreshMinutes: number | null) => void;
+  onDelete: (searchId: string) => void;
+}
+
+const buttonClassName = "text-sm bg-base-200 hover:bg-base-300 text-base-content hover:text-white font-medium py-1.5 px-3 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+const selectClassName = "bg-base-300 border border-base-300 rounded-md py-1.5 px-2 text-sm text-white focus:outline-none focus:ring-brand-primary focus:border-brand-primary";
+
+const SavedSearchesPanel: React.FC<SavedSearchesPanelProps> = ({
+  searches, currentFilters, unreadCounts, checkingSearchId, onSave, onOpen, onCheckNow, onRefreshChange, onDelete,
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [refreshMinutes, setRefreshMinutes] = useState<number | null>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(name, refreshMinutes);
+    setIsSaving(false);
+    setName('');
+    setRefreshMinutes(null);
+  };
+
+  return (
+    <div className="bg-base-200/60 rounded-lg p-4 mt-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold text-white">Saved searches</h3>
+        {!isSaving && (
+          <button className={buttonClassName} onClick={() => { setIsSaving(true); setName(currentFilters.query); }}>
+            Save this search
+          </button>
+        )}
+      </div>
+
+      {isSaving && (
+        <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2 mt-3">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Name"
+            aria-label="Saved search name"
+            autoFocus
+            className="flex-1 min-w-[12rem] bg-base-300 border border-base-300 rounded-md py-1.5 px-2 text-sm text-white focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+          />
+          <select
+            value={refreshMinutes ?? ''}
+            onChange={e => setRefreshMinutes(e.target.value ? Number(e.target.value) : null)}
+            aria-label="Refresh interval"
+            className={selectClassName}
+          >
+            {REFRESH_INTERVALS.map(({ minutes, label }) => <option key={label} value={minutes ?? ''}>{label}</option>)}
+          </select>
+          <button type="submit" className="text-sm bg-brand-primary hover:bg-brand-secondary text-white font-semibold py-1.5 px-3 rounded-md">Save</button>
+          <button type="button" className={buttonClassName} onClick={() => setIsSaving(false)}>Cancel</button>
+          <p className="w-full text-xs text-base-content">{describeFilters(currentFilters)}</p>
+        </form>
+      )}
+
+      {searches.length > 0 && (
+        <ul className="mt-3 divide-y divide-base-300">
+          {searches.map(search => (
+            <li key={search.id} className="py-2 flex flex-wrap items-center gap-2">
+              <div className="flex-1 min-w-[12rem]">
+                <button onClick={() => onOpen(search)} className="text-sm font-medium text-white hover:underline text-left">
+                  {search.name}
+                </button>
+                {unreadCounts[search.id] > 0 && (
+                  <span className="ml-2 text-xs font-bold bg-brand-secondary text-white rounded-full px-2 py-0.5">{unreadCounts[search.id]} new</span>
+                )}
+                <p className="text-xs text-base-content">
+                  {describeFilters(search.filters)}
+                  {search.lastRunAt && ` · checked ${new Date(search.lastRunAt).toLocaleString()}`}
+                </p>
+                {search.lastError && <p className="text-xs text-red-400">Last check failed: {search.lastError}</p>}
+              </div>
+              <select
+                value={search.refreshMinutes ?? ''}
+                onChange={e => onRefreshChange(search, e.target.value ? Number(e.target.value) : null)}
+                aria-label={`Refresh interval for ${search.name}`}
+                className={selectClassName}
+              >
+                {REFRESH_INTERVALS.map(({ minutes, label }) => <option key={label} value={minutes ?? ''}>{label}</option>)}
+              </select>
+              <button className={buttonClassName} onClick={() => onCheckNow(search)} disabled={checkingSearchId !== null}>
+                {checkingSearchId === search.id ? 'Checking…' : 'Check now'}
+              </button>
+              <button
+                onClick={() => onDelete(search.id)}
+                className="p-1.5 rounded-md text-base-content hover:text-red-400 hover:bg-base-300"
+                aria-label={`Delete ${search.name}`}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearchesPanel;
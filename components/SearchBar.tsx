@@ -94,7 +94,7 @@ const SearchBar: React.FC<SearchBarProps> = ({ onSearch, initialFilters, isLoadi
               type="text"
               value={salary}
               onChange={(e) => setSalary(e.target.value)}
-              placeholder="e.g., '$120,000'"
+              placeholder="e.g., '$120,000' or '€50/hour'"
               className="w-full bg-base-300 border border-base-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white"
             />
           </div>
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import type { LLMOperation, LLMSettings } from '../types';
+import { LLM_BACKENDS, LLM_OPERATIONS, getLLMSettings, saveLLMSettings, getDefaultLLMSettings } from '../services/llmSettings';
+
+const inputClassName = "w-full bg-base-300 border border-base-300 rounded-md shadow-sm py-2 px-3 text-sm focus:outline-none focus:ring-brand-primary focus:border-brand-primary text-white";
+
+const SettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<LLMSettings>(getLLMSettings);
+  const [isSaved, setIsSaved] = useState(true);
+
+  const update = (changes: Partial<LLMSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setIsSaved(false);
+  };
+
+  const updateModel = (operation: LLMOperation, model: string) => {
+    update({
+      models: { ...settings.models, [settings.backend]: { ...settings.models[settings.backend], [operation]: model } },
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveLLMSettings(settings);
+    setIsSaved(true);
+  };
+
+  const handleResetModels = () => {
+    update({ models: { ...settings.models, [settings.backend]: getDefaultLLMSettings().models[settings.backend] } });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <section className="bg-base-200 p-4 rounded-lg space-y-4">
+        <h3 className="text-lg font-semibold text-white">AI Backend</h3>
+        <div className="space-y-2">
+          {LLM_BACKENDS.map(backend => (
+            <label key={backend.id} className="flex items-center gap-2 text-sm text-base-content cursor-pointer">
+              <input
+                type="radio"
+                name="llm-backend"
+                checked={settings.backend === backend.id}
+                onChange={() => update({ backend: backend.id })}
+              />
+              {backend.name}
+            </label>
+          ))}
+        </div>
+
+        {settings.backend === 'gemini' && (
+          <div>
+            <label htmlFor="gemini-api-key" className="block text-sm text-base-content mb-1">API key</label>
+            <input
+              id="gemini-api-key"
+              type="password"
+              className={inputClassName}
+              value={settings.geminiApiKey}
+              onChange={e => update({ geminiApiKey: e.target.value })}
+              placeholder={process.env.HAS_SERVER_API_KEY ? 'Using the app server’s key' : 'Paste a Gemini API key'}
+            />
+            <p className="text-xs text-base-content mt-1">A key entered here is stored in this browser and sent with each request to the app server, which uses it instead of its own key but never stores it.</p>
+          </div>
+        )}
+        {settings.backend === 'openai' && (
+          <>
+            <div>
+              <label htmlFor="openai-base-url" className="block text-sm text-base-content mb-1">Server URL</label>
+              <input
+                id="openai-base-url"
+                className={inputClassName}
+                value={settings.openAiBaseUrl}
+                onChange={e => update({ openAiBaseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+              />
+              <p className="text-xs text-base-content mt-1">
+                Any server with an OpenAI-compatible <code>/chat/completions</code> endpoint, e.g. Ollama or the llama.cpp server.
+              </p>
+            </div>
+            <div>
+              <label htmlFor="openai-api-key" className="block text-sm text-base-content mb-1">API key (optional)</label>
+              <input
+                id="openai-api-key"
+                type="password"
+                className={inputClassName}
+                value={settings.openAiApiKey}
+                onChange={e => update({ openAiApiKey: e.target.value })}
+              />
+            </div>
+          </>
+        )}
+        {settings.backend === 'mock' && (
+          <p className="text-sm text-base-content">
+            Answers every request instantly with fixed sample data. Useful for trying the app without an API key.
+          </p>
+        )}
+      </section>
+
+      <section className="bg-base-200 p-4 rounded-lg space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white">Models</h3>
+          <button type="button" onClick={handleResetModels} className="text-xs text-base-content hover:text-white">
+            Reset to defaults
+          </button>
+        </div>
+        {LLM_OPERATIONS.map(operation => (
+          <div key={operation.id} className="grid grid-cols-3 items-center gap-3">
+            <label htmlFor={`model-${operation.id}`} className="text-sm text-base-content">{operation.name}</label>
+            <input
+              id={`model-${operation.id}`}
+              className={`${inputClassName} col-span-2`}
+              value={settings.models[settings.backend][operation.id]}
+              onChange={e => updateModel(operation.id, e.target.value)}
+              disabled={settings.backend === 'mock'}
+            />
+          </div>
+        ))}
+      </section>
+
+      <div className="lg:col-span-2 flex justify-end">
+        <button
+          type="submit"
+          disabled={isSaved}
+          className="bg-brand-primary hover:bg-brand-secondary text-white font-bold py-2 px-4 rounded-md transition duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaved ? 'Saved' : 'Save Settings'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default SettingsPanel;
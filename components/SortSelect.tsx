@@ -0,0 +1,26 @@
+import React from 'react';
+import type { JobSortOrder } from '../services/jobSorting';
+import { JOB_SORT_LABELS } from '../services/jobSorting';
+
+interface SortSelectProps {
+  value: JobSortOrder;
+  onChange: (order: JobSortOrder) => void;
+}
+
+const SortSelect: React.FC<SortSelectProps> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2">
+    <label htmlFor="job-sort" className="text-sm text-base-content">Sort by</label>
+    <select
+      id="job-sort"
+      value={value}
+      onChange={e => onChange(e.target.value as JobSortOrder)}
+      className="bg-base-300 border border-base-300 rounded-md py-1.5 px-2 text-sm text-white focus:outline-none focus:ring-brand-primary focus:border-brand-primary"
+    >
+      {(Object.keys(JOB_SORT_LABELS) as JobSortOrder[]).map(order => (
+        <option key={order} value={order}>{JOB_SORT_LABELS[order]}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default SortSelect;
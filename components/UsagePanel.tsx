@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import type { UsageReport, UsageTotals } from '../services/usage';
+import { estimateCost, getUsageReport, resetUsage, subscribeToUsage } from '../services/usage';
+import { LLM_OPERATIONS } from '../services/llmSettings';
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+const formatCost = (cost: number | null) => {
+  if (cost === null) return '—';
+  return cost > 0 && cost < 0.01 ? '< $0.01' : `$${cost.toFixed(2)}`;
+};
+
+const operationName = (totals: UsageTotals) =>
+  LLM_OPERATIONS.find(op => op.id === totals.operation)?.name ?? totals.operation;
+
+const UsagePanel: React.FC = () => {
+  const [report, setReport] = useState<UsageReport>(getUsageReport);
+
+  useEffect(() => subscribeToUsage(setReport), []);
+
+  const rows = [...report.totals].sort((a, b) =>
+    LLM_OPERATIONS.findIndex(op => op.id === a.operation) - LLM_OPERATIONS.findIndex(op => op.id === b.operation)
+    || a.model.localeCompare(b.model));
+  const sum = (key: 'requests' | 'failures' | 'retries' | 'inputTokens' | 'outputTokens') =>
+    rows.reduce((total, row) => total + row[key], 0);
+  const costs = rows.map(estimateCost);
+  const knownCosts = costs.filter((cost): cost is number => cost !== null);
+  const totalCost = knownCosts.length > 0 ? knownCosts.reduce((a, b) => a + b, 0) : null;
+  const hasEstimates = rows.some(row => row.hasEstimates);
+
+  return (
+    <section className="bg-base-200 p-4 rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <p className="text-sm text-base-content">Since {new Date(report.since).toLocaleString()}</p>
+        <button
+          onClick={resetUsage}
+          disabled={rows.length === 0}
+          className="text-sm bg-base-300 hover:bg-base-100 text-base-content hover:text-white font-medium py-1.5 px-3 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reset
+        </button>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-base-content text-center py-6">No AI requests yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs uppercase text-base-content border-b border-base-300">
+              <tr>
+                <th className="py-2 pr-4">Operation</th>
+                <th className="py-2 pr-4">Model</th>
+                <th className="py-2 pr-4 text-right">Requests</th>
+                <th className="py-2 pr-4 text-right">Failed</th>
+                <th className="py-2 pr-4 text-right">Retries</th>
+                <th className="py-2 pr-4 text-right">Input tokens</th>
+                <th className="py-2 pr-4 text-right">Output tokens</th>
+                <th className="py-2 text-right">Est. cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-base-300 text-white">
+              {rows.map((row, index) => (
+                <tr key={`${row.operation}-${row.model}`}>
+                  <td className="py-2 pr-4">{operationName(row)}</td>
+                  <td className="py-2 pr-4 text-base-content">{row.model}</td>
+                  <td className="py-2 pr-4 text-right">{formatNumber(row.requests)}</td>
+                  <td className="py-2 pr-4 text-right">{formatNumber(row.failures)}</td>
+                  <td className="py-2 pr-4 text-right">{formatNumber(row.retries)}</td>
+                  <td className="py-2 pr-4 text-right">{row.hasEstimates && '~'}{formatNumber(row.inputTokens)}</td>
+                  <td className="py-2 pr-4 text-right">{row.hasEstimates && '~'}{formatNumber(row.outputTokens)}</td>
+                  <td className="py-2 text-right">{formatCost(costs[index])}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t-2 border-base-300 font-semibold text-white">
+              <tr>
+                <td className="py-2 pr-4" colSpan={2}>Total</td>
+                <td className="py-2 pr-4 text-right">{formatNumber(sum('requests'))}</td>
+                <td className="py-2 pr-4 text-right">{formatNumber(sum('failures'))}</td>
+                <td className="py-2 pr-4 text-right">{formatNumber(sum('retries'))}</td>
+                <td className="py-2 pr-4 text-right">{formatNumber(sum('inputTokens'))}</td>
+                <td className="py-2 pr-4 text-right">{formatNumber(sum('outputTokens'))}</td>
+                <td className="py-2 text-right">{formatCost(totalCost)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+      <p className="text-xs text-base-content mt-4">
+        Costs use list prices for Gemini models and leave out other backends. Cached answers cost nothing and aren't counted.
+        {hasEstimates && ' Counts marked ~ include estimates for backends that don’t report token usage.'}
+      </p>
+    </section>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,154 @@
+import type { LLMOperation, SearchFilters, CoverLetterOptions } from '../types';
+import { InsightType } from '../types';
+import type { LLMAttachment } from '../services/llmClient';
+import type { ExtractedJobFields } from '../services/jobIngestion';
+import type { JobText, PromptInput, ResumeInput } from '../services/prompts';
+import { INPUT_LIMITS } from '../services/prompts';
+import { COVER_LETTER_LENGTHS, COVER_LETTER_TONES } from '../services/coverLetters';
+import { JOB_TYPES } from '../services/jobValidation';
+import { RESUME_MIME_TYPES } from '../services/resumeFiles';
+
+// A problem with the request itself, answered with `status` before anything reaches the model.
+export class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Job descriptions, resumes and pasted postings.
+const MAX_DOCUMENT_LENGTH = INPUT_LIMITS.document;
+// Names, filters and instructions.
+const MAX_FIELD_LENGTH = INPUT_LIMITS.field;
+
+type Fields = Record<string, unknown>;
+
+const fail = (message: string): never => {
+  throw new RequestError(400, message);
+};
+
+const object = (value: unknown, name: string): Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Fields : fail(`${name} must be an object.`);
+
+const text = (value: unknown, name: string, maxLength: number = MAX_FIELD_LENGTH): string =>
+  typeof value === 'string' && value.length <= maxLength ? value : fail(`${name} must be text of at most ${maxLength} characters.`);
+
+const textList = (value: unknown, name: string, maxItems: number, maxLength: number = MAX_FIELD_LENGTH): string[] =>
+  Array.isArray(value) && value.length <= maxItems
+    ? value.map((item, index) => text(item, `${name}[${index}]`, maxLength))
+    : fail(`${name} must be a list of at most ${maxItems} items.`);
+
+const oneOf = <T extends string>(value: unknown, name: string, allowed: readonly T[]): T =>
+  allowed.includes(value as T) ? value as T : fail(`${name} must be one of: ${allowed.join(', ')}.`);
+
+const optional = <T>(value: unknown, read: (value: unknown) => T): T | undefined =>
+  value === undefined || value === null ? undefined : read(value);
+
+const base64 = (value: unknown, name: string): string =>
+  typeof value === 'string' && /^[A-Za-z0-9+/]*={0,2}$/.test(value) ? value : fail(`${name} must be base64 data.`);
+
+const readFilters = (value: unknown): SearchFilters => {
+  const filters = object(value, 'filters');
+  return {
+    query: text(filters.query, 'filters.query'),
+    location: text(filters.location, 'filters.location'),
+    type: text(filters.type, 'filters.type'),
+    salary: text(filters.salary, 'filters.salary'),
+    workLocation: text(filters.workLocation, 'filters.workLocation'),
+    industry: text(filters.industry, 'filters.industry'),
+  };
+};
+
+// Only the fields the prompts use are kept.
+const readJob = (value: unknown): JobText => {
+  const job = object(value, 'job');
+  return {
+    title: text(job.title, 'job.title'),
+    company: text(job.company, 'job.company'),
+    location: text(job.location, 'job.location'),
+    description: text(job.description, 'job.description', MAX_DOCUMENT_LENGTH),
+    skills: textList(job.skills, 'job.skills', INPUT_LIMITS.skills),
+  };
+};
+
+const readResume = (value: unknown): ResumeInput => {
+  const resume = object(value, 'resume');
+  if (resume.file !== undefined) {
+    const file = object(resume.file, 'resume.file');
+    return { file: { mimeType: oneOf(file.mimeType, 'resume.file.mimeType', RESUME_MIME_TYPES), data: base64(file.data, 'resume.file.data') } };
+  }
+  const resumeText = text(resume.text ?? '', 'resume.text', MAX_DOCUMENT_LENGTH);
+  return resumeText.trim() ? { text: resumeText } : fail('The request has no resume.');
+};
+
+const readCoverLetterOptions = (value: unknown): CoverLetterOptions => {
+  const options = object(value, 'options');
+  return {
+    tone: oneOf(options.tone, 'options.tone', COVER_LETTER_TONES),
+    length: oneOf(options.length, 'options.length', Object.keys(COVER_LETTER_LENGTHS) as CoverLetterOptions['length'][]),
+    emphasis: text(options.emphasis, 'options.emphasis'),
+  };
+};
+
+const readRewrite = (value: unknown) => {
+  const rewrite = object(value, 'rewrite');
+  const paragraphs = textList(rewrite.paragraphs, 'rewrite.paragraphs', 20, 5000);
+  const { index } = rewrite;
+  if (!Number.isInteger(index) || (index as number) < 0 || (index as number) >= paragraphs.length) {
+    fail('rewrite.index must be the number of one of the paragraphs.');
+  }
+  return { paragraphs, index: index as number, instruction: text(rewrite.instruction, 'rewrite.instruction') };
+};
+
+// Which fields the document stated decides what the model is asked for; `salary` isn't needed.
+const readExtracted = (value: unknown): ExtractedJobFields => {
+  const fields = object(value ?? {}, 'extracted');
+  const extracted: ExtractedJobFields = {
+    title: optional(fields.title, value => text(value, 'extracted.title')),
+    company: optional(fields.company, value => text(value, 'extracted.company')),
+    location: optional(fields.location, value => text(value, 'extracted.location')),
+    type: optional(fields.type, value => oneOf(value, 'extracted.type', JOB_TYPES)),
+    description: optional(fields.description, value => text(value, 'extracted.description', MAX_DOCUMENT_LENGTH)),
+    skills: optional(fields.skills, value => textList(value, 'extracted.skills', INPUT_LIMITS.skills)),
+    salaryRange: optional(fields.salaryRange, value => text(value, 'extracted.salaryRange')),
+  };
+  return Object.fromEntries(Object.entries(extracted).filter(([, field]) => field !== undefined));
+};
+
+// Only PDFs are sent as files; other formats are converted to text in the browser.
+const readPostingAttachment = (value: unknown): LLMAttachment => {
+  const attachment = object(value, 'attachment');
+  return { mimeType: oneOf(attachment.mimeType, 'attachment.mimeType', ['application/pdf']), data: base64(attachment.data, 'attachment.data') };
+};
+
+const readProblems = (value: unknown) => optional(value, problems => textList(problems, 'problems', INPUT_LIMITS.problems, INPUT_LIMITS.problem));
+
+/**
+ * Checks the typed input for `operation` and copies out only what its prompt uses, so the server
+ * builds every prompt itself and can't be used to relay arbitrary ones.
+ */
+export const readPromptInput = (operation: LLMOperation, value: unknown): PromptInput => {
+  const input = object(value, 'input');
+  switch (operation) {
+    case 'search':
+      return { operation, filters: readFilters(input.filters), problems: readProblems(input.problems) };
+    case 'insight':
+      return { operation, job: readJob(input.job), insightType: oneOf(input.insightType, 'insightType', Object.values(InsightType)) };
+    case 'resume':
+    case 'match':
+      return { operation, job: readJob(input.job), resume: readResume(input.resume) };
+    case 'coverLetter':
+      return {
+        operation,
+        job: readJob(input.job),
+        resume: optional(input.resume, readResume),
+        options: readCoverLetterOptions(input.options),
+        rewrite: optional(input.rewrite, readRewrite),
+      };
+    case 'parse': {
+      const postingText = text(input.text ?? '', 'text', MAX_DOCUMENT_LENGTH);
+      const attachment = optional(input.attachment, readPostingAttachment);
+      if (!postingText.trim() && !attachment) fail('The request has no job posting.');
+      return { operation, text: postingText, extracted: readExtracted(input.extracted), attachment, problems: readProblems(input.problems) };
+    }
+  }
+};
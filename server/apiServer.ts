@@ -0,0 +1,199 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import type { LLMOperation } from '../types';
+import type { LLMClient, LLMRequest, TokenUsage } from '../services/llmClient';
+import { isAbortError } from '../services/llmClient';
+import { AuthenticationError, LLMError, RateLimitError, classifyLLMError } from '../services/llmErrors';
+import { createGeminiClient } from '../services/geminiClient';
+import type { ApiErrorBody, ApiEvent, ApiRequestBody } from '../services/proxyClient';
+import { API_KEY_HEADER, API_PATHS } from '../services/proxyClient';
+import { buildPrompt } from '../services/prompts';
+import { RequestError, readPromptInput } from './apiInput';
+import { createRateLimiter } from './rateLimiter';
+
+export interface ApiServerOptions {
+  apiKey?: string;
+  // Used instead of a Gemini client for `apiKey`; the tests pass a fake one.
+  client?: LLMClient;
+  // Builds the client for a personal key sent by the browser; the tests pass a fake one.
+  clientForKey?: (apiKey: string) => LLMClient;
+  // Model requests each client address may make per window.
+  rateLimit?: { limit: number; windowMs: number };
+  // Gemini models the browser may ask for; defaults to the ones Settings starts with.
+  models?: string[];
+  now?: () => number;
+  log?: (line: string) => void;
+}
+
+export type ApiMiddleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+// Resume files are sent inline as base64, so bodies can be a few megabytes.
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const DEFAULT_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro'];
+
+const OPERATIONS_BY_PATH = new Map(
+  Object.entries(API_PATHS).map(([operation, path]) => [path, operation as LLMOperation])
+);
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    // An oversized body is read to the end but not kept, so the 413 response still reaches the client.
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+    });
+    req.on('end', () => size > MAX_BODY_BYTES
+      ? reject(new RequestError(413, 'The request is too large.'))
+      : resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+
+// The body names a model and the operation's typed input; the prompt is built here from that input.
+const parseBody = (text: string, operation: LLMOperation, models: string[]): ApiRequestBody => {
+  let body: Partial<ApiRequestBody>;
+  try {
+    body = JSON.parse(text) ?? {};
+  } catch {
+    throw new RequestError(400, 'The request body must be JSON.');
+  }
+  const { model, input, stream } = body;
+  if (typeof model !== 'string' || !models.includes(model)) {
+    throw new RequestError(400, `The model must be one of: ${models.join(', ')}.`);
+  }
+  return { model, input: readPromptInput(operation, input), stream: stream === true };
+};
+
+// There are no accounts, so users are told apart by address; anything the client sends could be rotated.
+const userOf = (req: IncomingMessage): string => `ip:${req.socket.remoteAddress ?? 'unknown'}`;
+
+const toApiError = (error: unknown): { status: number; body: ApiErrorBody } => {
+  if (error instanceof RequestError) return { status: error.status, body: { name: 'Error', message: error.message } };
+  const classified = classifyLLMError(error);
+  if (classified instanceof LLMError) {
+    return {
+      status: classified.status ?? 502,
+      body: {
+        name: classified.name,
+        message: classified.message,
+        ...(classified instanceof RateLimitError && classified.retryAfterMs !== undefined && { retryAfterMs: classified.retryAfterMs }),
+      },
+    };
+  }
+  // Unclassified errors keep their message, e.g. Gemini's "got status: 400" for a bad request.
+  return { status: 502, body: { name: 'Error', message: classified instanceof Error ? classified.message : String(classified) } };
+};
+
+/**
+ * Relays the app's model requests to Gemini with the server's API key, so the key never reaches
+ * the browser. A personal key from Settings arrives in the `API_KEY_HEADER` header and is used
+ * for that request instead. There is one endpoint per operation (see `API_PATHS`), which takes that
+ * operation's input and builds the prompt with `buildPrompt`, for one of `models`. Each client
+ * address may make `rateLimit.limit` requests per window, and every request is logged without
+ * its content.
+ * Connect-style, so it can be mounted on the Vite servers or any Node HTTP server.
+ */
+export const createApiMiddleware = ({
+  apiKey = '',
+  client,
+  clientForKey = createGeminiClient,
+  rateLimit = { limit: 30, windowMs: 60_000 },
+  models = DEFAULT_MODELS,
+  now = Date.now,
+  log = console.log,
+}: ApiServerOptions = {}): ApiMiddleware => {
+  const upstream = client ?? (apiKey ? createGeminiClient(apiKey) : null);
+  const limiter = createRateLimiter({ ...rateLimit, now });
+
+  const handle = async (req: IncomingMessage, res: ServerResponse, operation: LLMOperation) => {
+    const started = now();
+    const user = userOf(req);
+    let model = '-';
+    let usage: TokenUsage | undefined;
+    let outcome = 'ok';
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        outcome = 'cancelled';
+        controller.abort();
+      }
+      const tokens = usage ? ` tokens=${usage.inputTokens}/${usage.outputTokens}` : '';
+      log(`[api] ${new Date(started).toISOString()} ${user} ${operation} model=${model} status=${res.statusCode} ${outcome} ${now() - started}ms${tokens}`);
+    });
+
+    const send = (event: ApiEvent) => {
+      if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+      res.write(`${JSON.stringify(event)}\n`);
+    };
+
+    try {
+      if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        throw new RequestError(405, 'Use POST.');
+      }
+      const decision = limiter.take(user);
+      if (!decision.allowed) {
+        res.setHeader('Retry-After', String(Math.ceil(decision.retryAfterMs / 1000)));
+        throw new RateLimitError('You are sending AI requests too quickly. Please wait a moment and try again.', { status: 429, retryAfterMs: decision.retryAfterMs });
+      }
+      const personalKey = req.headers[API_KEY_HEADER];
+      const requestClient = typeof personalKey === 'string' && personalKey ? clientForKey(personalKey) : upstream;
+      if (!requestClient) {
+        throw new AuthenticationError('The app server has no Gemini API key. Set GEMINI_API_KEY in .env.local and restart it, or add your own key in Settings.', { status: 503 });
+      }
+      const body = parseBody(await readBody(req), operation, models);
+      model = body.model;
+      const request: LLMRequest = {
+        ...buildPrompt(body.input),
+        model: body.model,
+        signal: controller.signal,
+        onUsage: reported => { usage = reported; },
+      };
+      if (body.stream) {
+        let sent = 0;
+        await requestClient.stream(request, textSoFar => {
+          send({ text: textSoFar.slice(sent) });
+          sent = textSoFar.length;
+        });
+      } else {
+        send({ text: await requestClient.generate(request) });
+      }
+      if (usage) send({ usage });
+      if (!res.headersSent) send({ text: '' });
+      res.end();
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) {
+        res.destroy();
+        return;
+      }
+      const { status, body } = toApiError(error);
+      outcome = body.name;
+      if (res.headersSent) {
+        res.end(`${JSON.stringify({ error: body } satisfies ApiEvent)}\n`);
+      } else {
+        res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+        res.end(JSON.stringify({ error: body }));
+      }
+    }
+  };
+
+  return (req, res, next) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname.match(/^\/api\/([\w-]+)$/)?.[1];
+    const operation = path && OPERATIONS_BY_PATH.get(path);
+    if (!operation) return next();
+    void handle(req, res, operation);
+  };
+};
+
+// Mounts the API on `vite` and `vite preview`, so the app and its API share one origin.
+export const apiServerPlugin = (options: ApiServerOptions): Plugin => ({
+  name: 'ai-job-finder-api',
+  configureServer: server => {
+    server.middlewares.use(createApiMiddleware(options));
+  },
+  configurePreviewServer: server => {
+    server.middlewares.use(createApiMiddleware(options));
+  },
+});
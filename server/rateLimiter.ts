@@ -0,0 +1,47 @@
+export interface RateLimiterOptions {
+  // Requests allowed per key within any `windowMs` period.
+  limit: number;
+  windowMs: number;
+  now?: () => number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // How long until the next request would be allowed; 0 when this one was.
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (key: string) => RateLimitDecision;
+}
+
+/**
+ * Sliding-window limiter: each key may make `limit` requests in any `windowMs` period. Keys
+ * that have been idle for a whole window are forgotten.
+ */
+export const createRateLimiter = ({ limit, windowMs, now = Date.now }: RateLimiterOptions): RateLimiter => {
+  const hits = new Map<string, number[]>();
+  let lastSweep = now();
+
+  const sweep = (time: number) => {
+    if (time - lastSweep < windowMs) return;
+    lastSweep = time;
+    hits.forEach((times, key) => {
+      if (times[times.length - 1] <= time - windowMs) hits.delete(key);
+    });
+  };
+
+  return {
+    take: (key) => {
+      const time = now();
+      sweep(time);
+      const recent = (hits.get(key) ?? []).filter(hit => hit > time - windowMs);
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return { allowed: false, retryAfterMs: recent[0] + windowMs - time };
+      }
+      hits.set(key, [...recent, time]);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
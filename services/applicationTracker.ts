@@ -0,0 +1,68 @@
+import type { Application, ApplicationContact, ApplicationEvent } from '../types';
+import { ApplicationStage } from '../types';
+
+export const APPLICATION_STAGES: ApplicationStage[] = [
+  ApplicationStage.INTERESTED,
+  ApplicationStage.APPLIED,
+  ApplicationStage.PHONE_SCREEN,
+  ApplicationStage.ONSITE,
+  ApplicationStage.OFFER,
+  ApplicationStage.REJECTED,
+  ApplicationStage.WITHDRAWN,
+];
+
+export const createApplication = (jobId: string, stage: ApplicationStage = ApplicationStage.INTERESTED): Application => ({
+  jobId,
+  stage,
+  history: [{ stage, changedAt: new Date().toISOString() }],
+  contacts: [],
+  notes: '',
+});
+
+export const moveToStage = (application: Application, stage: ApplicationStage): Application => {
+  if (application.stage === stage) return application;
+  return {
+    ...application,
+    stage,
+    history: [...application.history, { stage, changedAt: new Date().toISOString() }],
+  };
+};
+
+export const addContact = (application: Application, contact: Omit<ApplicationContact, 'id'>): Application => ({
+  ...application,
+  contacts: [...application.contacts, { ...contact, id: crypto.randomUUID() }],
+});
+
+export const removeContact = (application: Application, contactId: string): Application => ({
+  ...application,
+  contacts: application.contacts.filter(c => c.id !== contactId),
+});
+
+export const addEvent = (application: Application, event: Omit<ApplicationEvent, 'id'>): Application => ({
+  ...application,
+  events: [...(application.events ?? []), { ...event, id: crypto.randomUUID() }]
+    .sort((a, b) => a.date.localeCompare(b.date)),
+});
+
+export const removeEvent = (application: Application, eventId: string): Application => ({
+  ...application,
+  events: (application.events ?? []).filter(e => e.id !== eventId),
+});
+
+export const updateNotes = (application: Application, notes: string): Application => ({ ...application, notes });
+
+/**
+ * Keeps the application map in step with the saved jobs list: every saved job gets an
+ * application (starting at Interested) and applications for unsaved jobs are dropped.
+ * Returns the same object when nothing changed so it can be used directly in a state setter.
+ */
+export const syncApplications = (jobIds: string[], applications: Record<string, Application>): Record<string, Application> => {
+  const missing = jobIds.filter(id => !applications[id]);
+  const stale = Object.keys(applications).filter(id => !jobIds.includes(id));
+  if (missing.length === 0 && stale.length === 0) return applications;
+
+  const next = { ...applications };
+  missing.forEach(id => { next[id] = createApplication(id); });
+  stale.forEach(id => { delete next[id]; });
+  return next;
+};
@@ -0,0 +1,53 @@
+import type { Job, CoverLetterLength } from '../types';
+
+export const COVER_LETTER_TONES = ['Professional', 'Enthusiastic', 'Conversational', 'Formal'] as const;
+
+export const COVER_LETTER_LENGTHS: Record<CoverLetterLength, { paragraphs: string; words: string }> = {
+  Short: { paragraphs: '3', words: '200-250' },
+  Medium: { paragraphs: '4', words: '300-400' },
+  Long: { paragraphs: '5', words: '450-550' },
+};
+
+export const splitParagraphs = (text: string): string[] =>
+  text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+export const coverLetterToText = (paragraphs: string[]): string => paragraphs.join('\n\n');
+
+export const coverLetterToMarkdown = (job: Job, paragraphs: string[]): string =>
+  `# Cover Letter – ${job.title} at ${job.company}\n\n${paragraphs.join('\n\n')}\n`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const coverLetterToHtml = (job: Job, paragraphs: string[]): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Cover Letter – ${escapeHtml(job.title)} at ${escapeHtml(job.company)}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 40rem; margin: 3rem auto; padding: 0 1.5rem; line-height: 1.6; color: #111; }
+  p { margin: 0 0 1rem; white-space: pre-wrap; }
+  @media print { body { margin: 0 auto; } }
+</style>
+</head>
+<body>
+${paragraphs.map(p => `<p>${escapeHtml(p)}</p>`).join('\n')}
+</body>
+</html>`;
+
+// Opens the letter in a new window and brings up the browser's print dialog (also "Save as PDF").
+export const openPrintableCoverLetter = (job: Job, paragraphs: string[]) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The print view was blocked. Please allow pop-ups for this site.');
+  }
+  printWindow.document.write(coverLetterToHtml(job, paragraphs));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+export const coverLetterFileName = (job: Job, extension: string): string => {
+  const slug = `${job.company}-${job.title}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `cover-letter-${slug || 'job'}.${extension}`;
+};
@@ -0,0 +1,49 @@
+// Minimal RFC 4180 CSV reader: quoted fields, escaped quotes and embedded newlines.
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(cell => cell.trim()));
+  if (!header) return [];
+  const keys = header.map(h => h.trim());
+  return body.map(cells => Object.fromEntries(keys.map((key, index) => [key, cells[index] ?? ''])));
+};
+
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (headers: string[], rows: string[][]): string =>
+  [headers, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
@@ -0,0 +1,158 @@
+import type { Job } from '../types';
+import { JOB_FIELDS } from './jobValidation';
+
+const TITLE_SYNONYMS: Record<string, string> = {
+  sr: 'senior',
+  jr: 'junior',
+  eng: 'engineer',
+  engr: 'engineer',
+  dev: 'developer',
+  mgr: 'manager',
+  ml: 'machine learning',
+  ai: 'artificial intelligence',
+  swe: 'software engineer',
+};
+
+const COMPANY_SUFFIXES = /\b(inc|incorporated|llc|ltd|limited|corp|corporation|co|company|gmbh|plc|sa|ag|bv)\b/g;
+
+const UNKNOWN_VALUES = new Set(['', 'unknown company', 'not specified', 'n/a']);
+
+// Checked before normalising, which would turn 'Unknown Company' into 'unknown' and 'n/a' into 'n a'.
+const isUnknown = (value: string): boolean => UNKNOWN_VALUES.has(value.trim().toLowerCase());
+
+const DESCRIPTION_SIMILARITY_THRESHOLD = 0.35;
+// When company is missing on one side, only fold records whose descriptions are near-identical.
+const STRICT_DESCRIPTION_SIMILARITY_THRESHOLD = 0.8;
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/[^a-z0-9+#\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+export const normalizeTitle = (title: string): string =>
+  tokenize(title)
+    .map(token => TITLE_SYNONYMS[token] ?? token)
+    .join(' ');
+
+export const normalizeCompany = (company: string): string =>
+  company.toLowerCase().replace(/[.,&']/g, ' ').replace(COMPANY_SUFFIXES, ' ').replace(/\s+/g, ' ').trim();
+
+export const normalizeLocation = (location: string): string =>
+  location.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Identifies a posting by normalised title, company and location, so the same opening seen again
+ * (with a reworded description or a new id) gets the same key.
+ */
+export const jobIdentityKey = (job: Job): string =>
+  [normalizeTitle(job.title), normalizeCompany(job.company), normalizeLocation(job.location)].join('|');
+
+const shingles = (text: string, size = 2): Set<string> => {
+  const tokens = tokenize(text);
+  const result = new Set<string>();
+  if (tokens.length < size) {
+    tokens.forEach(t => result.add(t));
+    return result;
+  }
+  for (let i = 0; i <= tokens.length - size; i++) {
+    result.add(tokens.slice(i, i + size).join(' '));
+  }
+  return result;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  a.forEach(item => {
+    if (b.has(item)) intersection++;
+  });
+  return intersection / (a.size + b.size - intersection);
+};
+
+export const descriptionSimilarity = (a: string, b: string): number => jaccard(shingles(a), shingles(b));
+
+const locationsCompatible = (a: string, b: string): boolean => {
+  if (isUnknown(a) || isUnknown(b)) return true;
+  const left = normalizeLocation(a);
+  const right = normalizeLocation(b);
+  return left === right || left.includes(right) || right.includes(left);
+};
+
+/**
+ * Two jobs are duplicates when their normalised titles match, their companies and locations
+ * agree, and the descriptions overlap enough to rule out two openings with the same title.
+ */
+export const isDuplicateJob = (a: Job, b: Job): boolean => {
+  if (a.id === b.id) return true;
+  if (normalizeTitle(a.title) !== normalizeTitle(b.title)) return false;
+  if (!locationsCompatible(a.location, b.location)) return false;
+
+  const companyUnknown = isUnknown(a.company) || isUnknown(b.company);
+  if (!companyUnknown && normalizeCompany(a.company) !== normalizeCompany(b.company)) return false;
+
+  if (!a.description.trim() || !b.description.trim()) return !companyUnknown;
+  const similarity = descriptionSimilarity(a.description, b.description);
+  return similarity >= (companyUnknown ? STRICT_DESCRIPTION_SIMILARITY_THRESHOLD : DESCRIPTION_SIMILARITY_THRESHOLD);
+};
+
+const pickKnown = (primary: string, secondary: string): string => isUnknown(primary) ? secondary : primary;
+
+const uniqueCaseInsensitive = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Salary text and its parse travel together; a stated salary beats an estimated one.
+const pickSalary = (canonical: Job, duplicate: Job): Pick<Job, 'salaryRange' | 'salary'> => {
+  const useDuplicate = !canonical.salaryRange || (canonical.salary?.isEstimate && duplicate.salary?.isEstimate === false);
+  const source = useDuplicate && duplicate.salaryRange ? duplicate : canonical;
+  return { salaryRange: source.salaryRange, salary: source.salary };
+};
+
+// Each merged field keeps the provenance of the record its value came from.
+const pickProvenance = (merged: Job, canonical: Job, duplicate: Job): Pick<Job, 'provenance'> => {
+  const entries = JOB_FIELDS.flatMap(field => {
+    const from = JSON.stringify(merged[field]) === JSON.stringify(canonical[field]) ? canonical : duplicate;
+    const provenance = from.provenance?.[field];
+    return provenance ? [[field, provenance]] : [];
+  });
+  return entries.length > 0 ? { provenance: Object.fromEntries(entries) } : {};
+};
+
+/**
+ * Folds `duplicate` into `canonical`. The canonical record keeps its id so saved state keyed by
+ * id is preserved, and fills in anything it is missing from the duplicate.
+ */
+export const mergeJobs = (canonical: Job, duplicate: Job): Job => {
+  const { provenance: _provenance, ...rest } = canonical;
+  const merged: Job = {
+    ...rest,
+    company: pickKnown(canonical.company, duplicate.company),
+    location: pickKnown(canonical.location, duplicate.location),
+    description: duplicate.description.length > canonical.description.length ? duplicate.description : canonical.description,
+    skills: uniqueCaseInsensitive([...canonical.skills, ...duplicate.skills]),
+    ...pickSalary(canonical, duplicate),
+    sources: uniqueCaseInsensitive([...(canonical.sources ?? []), ...(duplicate.sources ?? [])]),
+  };
+  return { ...merged, ...pickProvenance(merged, canonical, duplicate) };
+};
+
+/**
+ * Adds a job to a list, merging it into an existing record when one is a duplicate.
+ */
+export const mergeJobIntoList = (jobs: Job[], incoming: Job): Job[] => {
+  const index = jobs.findIndex(job => isDuplicateJob(job, incoming));
+  if (index === -1) return [...jobs, incoming];
+  const next = [...jobs];
+  next[index] = mergeJobs(jobs[index], incoming);
+  return next;
+};
+
+/**
+ * Collapses near-identical jobs into one canonical record each, preserving the original order
+ * of first appearance (which is the relevance order from the sources).
+ */
+export const deduplicateJobs = (jobs: Job[]): Job[] => jobs.reduce<Job[]>(mergeJobIntoList, []);
@@ -0,0 +1,351 @@
+// Plain-text extraction for the document formats job postings arrive in. Everything runs in the
+// browser with built-in APIs (DOMParser, DecompressionStream), so only common cases are covered:
+// PDFs whose fonts map bytes to Latin-1 text, and DOCX body text without headers or footnotes.
+
+// One character per byte, so string offsets are byte offsets and the text converts back losslessly.
+// (TextDecoder's "latin1" is really windows-1252, which remaps 0x80-0x9F.)
+export const decodeLatin1 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return text;
+};
+
+export const latin1Bytes = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+
+export const decodeBytes = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset label.
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const inflate = async (bytes: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> => {
+  const input = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+  return new Uint8Array(await new Response(input.pipeThrough(new DecompressionStream(format))).arrayBuffer());
+};
+
+// Collapses runs of spaces and blank lines left over from markup.
+export const tidyText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const BLOCK_ELEMENTS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'FOOTER', 'H1', 'H2', 'H3',
+  'H4', 'H5', 'H6', 'HEADER', 'HR', 'MAIN', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'TD', 'TH', 'TR', 'UL',
+]);
+
+// Site chrome and anything that isn't readable content.
+const NON_CONTENT = 'script, style, noscript, template, svg, iframe, canvas, form, button, nav, aside, [role="navigation"], [aria-hidden="true"], [hidden]';
+const PAGE_CHROME = 'header, footer, [role="banner"], [role="contentinfo"]';
+
+const elementText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const element = node as Element;
+  if (element.tagName === 'BR') return '\n';
+  const inner = Array.from(element.childNodes).map(elementText).join('');
+  if (element.tagName === 'LI') return `\n- ${inner.trim()}\n`;
+  return BLOCK_ELEMENTS.has(element.tagName) ? `\n${inner}\n` : inner;
+};
+
+export const parseHtml = (html: string): Document => new DOMParser().parseFromString(html, 'text/html');
+
+/**
+ * Readable text of an HTML document or fragment. With `stripBoilerplate`, only the page's main
+ * content is kept (`<main>` or `<article>` when there is one) and navigation, headers, footers,
+ * forms and the like are dropped.
+ */
+export const htmlToText = (html: string | Document, { stripBoilerplate = false } = {}): string => {
+  const doc = typeof html === 'string' ? parseHtml(html) : html.cloneNode(true) as Document;
+  doc.querySelectorAll('script, style, noscript, template').forEach(element => element.remove());
+  if (!stripBoilerplate) return tidyText(doc.body ? elementText(doc.body) : '');
+  const main = doc.querySelector('main, [role="main"], article');
+  const root = main ?? doc.body;
+  if (!root) return '';
+  root.querySelectorAll(main ? NON_CONTENT : `${NON_CONTENT}, ${PAGE_CHROME}`).forEach(element => element.remove());
+  return tidyText(elementText(root));
+};
+
+// Reads a literal string starting at the "(" at `start`; returns the text and the index after ")".
+const readPdfString = (content: string, start: number): [string, number] => {
+  let text = '';
+  let depth = 0;
+  for (let i = start + 1; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[++i];
+      const octal = content.slice(i).match(/^[0-7]{1,3}/)?.[0];
+      if (octal) {
+        text += String.fromCharCode(parseInt(octal, 8));
+        i += octal.length - 1;
+      } else if (next === '\r' || next === '\n') {
+        if (next === '\r' && content[i + 1] === '\n') i++;
+      } else {
+        text += { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' }[next] ?? next;
+      }
+    } else if (char === '(') {
+      depth++;
+      text += char;
+    } else if (char === ')') {
+      if (depth === 0) return [text, i + 1];
+      depth--;
+      text += char;
+    } else {
+      text += char;
+    }
+  }
+  return [text, content.length];
+};
+
+/**
+ * Text shown by one content stream: the strings of the Tj, TJ, ' and " operators, with line
+ * breaks where the text position moves to another line. Hex strings are only kept when they are
+ * printable, since in CID fonts they are glyph numbers rather than characters.
+ */
+const contentStreamText = (content: string): string => {
+  let text = '';
+  let strings: string[] = [];
+  let numbers: number[] = [];
+  let lastY: number | null = null;
+  let inArray = false;
+  const newLine = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  for (let i = 0; i < content.length;) {
+    const char = content[i];
+    if (char === '(') {
+      const [value, end] = readPdfString(content, i);
+      strings.push(value);
+      i = end;
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/\s/g, '');
+      const value = (hex.match(/../g) ?? []).map(pair => String.fromCharCode(parseInt(pair, 16))).join('');
+      if (/^[\x20-\x7e]*$/.test(value)) strings.push(value);
+      i = end < 0 ? content.length : end + 1;
+    } else if (char === '[') {
+      inArray = true;
+      i++;
+    } else if (char === ']') {
+      inArray = false;
+      i++;
+    } else if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (char === '/') {
+      i++;
+      while (i < content.length && !/[\s/[\]()<>{}%]/.test(content[i])) i++;
+    } else if (/[-+.\d]/.test(char)) {
+      const number = content.slice(i).match(/^[-+]?(?:\d+\.?\d*|\.\d+)/)?.[0] ?? char;
+      // Inside a TJ array a large negative offset is a gap between words.
+      if (inArray && Number(number) < -200) strings.push(' ');
+      else numbers.push(Number(number));
+      i += number.length;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(i).match(/^[A-Za-z'"*]+/)![0];
+      i += operator.length;
+      if (operator === "'" || operator === '"' || operator === 'T*') newLine();
+      if (operator === 'Td' || operator === 'TD') {
+        if (numbers[numbers.length - 1]) newLine();
+      } else if (operator === 'Tm') {
+        const y = numbers[numbers.length - 1];
+        if (lastY !== null && y !== lastY) newLine();
+        lastY = y;
+      } else if (operator === 'ET') {
+        text += ' ';
+      }
+      if (operator === 'Tj' || operator === 'TJ' || operator === "'" || operator === '"') text += strings.join('');
+      strings = [];
+      numbers = [];
+    } else {
+      i++;
+    }
+  }
+  return text;
+};
+
+/**
+ * Text of a PDF's page content streams, uncompressed or Flate-compressed. Streams in other
+ * encodings (images, mostly) are skipped. Returns an empty string when nothing readable is found.
+ */
+export const extractPdfText = async (bytes: Uint8Array): Promise<string> => {
+  const raw = decodeLatin1(bytes);
+  const pages: string[] = [];
+  const streamStart = /\bstream\r?\n/g;
+  for (let match = streamStart.exec(raw); match; match = streamStart.exec(raw)) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    streamStart.lastIndex = end;
+    const dictionary = raw.slice(Math.max(0, raw.lastIndexOf(' obj', match.index)), match.index);
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '';
+    if (/\/Subtype\s*\/Image/.test(dictionary) || (filters && filters.replace(/[[\]\s]/g, '') !== '/FlateDecode')) continue;
+    let data = bytes.subarray(start, end);
+    try {
+      if (filters) data = await inflate(data, 'deflate');
+    } catch {
+      continue;
+    }
+    // Simple fonts mostly use WinAnsiEncoding, which is windows-1252.
+    const content = decodeBytes(data, 'windows-1252');
+    if (/\bBT\b/.test(content)) pages.push(contentStreamText(content));
+  }
+  return tidyText(pages.join('\n'));
+};
+
+/**
+ * Reads one file from a ZIP archive, via the central directory. Supports stored and deflated
+ * entries, which is all Office documents use. Null when the archive has no such file.
+ */
+export const readZipEntry = async (bytes: Uint8Array, name: string): Promise<Uint8Array | null> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let directoryEnd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      directoryEnd = i;
+      break;
+    }
+  }
+  if (directoryEnd < 0) throw new Error('The file is not a valid ZIP archive.');
+
+  const count = view.getUint16(directoryEnd + 10, true);
+  let offset = view.getUint32(directoryEnd + 16, true);
+  for (let entry = 0; entry < count; entry++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const entryName = decodeBytes(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    if (entryName === name) {
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, 'deflate-raw');
+      throw new Error(`Unsupported compression in ${name}.`);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(?:#(\d+)|#x([\da-f]+)|(amp|lt|gt|quot|apos));/gi, (entity, decimal, hex, name) => {
+    if (decimal) return String.fromCodePoint(Number(decimal));
+    if (hex) return String.fromCodePoint(parseInt(hex, 16));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[name.toLowerCase() as 'amp'] ?? entity;
+  });
+
+// Body text of a Word document, one paragraph per line.
+export const extractDocxText = async (bytes: Uint8Array): Promise<string> => {
+  const documentXml = await readZipEntry(bytes, 'word/document.xml');
+  if (!documentXml) throw new Error('The file is not a Word document.');
+  const xml = decodeBytes(documentXml);
+  const paragraphs = xml.split(/<\/w:p>/).map(paragraph =>
+    decodeXmlEntities(
+      (paragraph.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>/g) ?? [])
+        .map(part => part === '<w:tab/>' ? '\t' : part === '<w:br/>' ? '\n' : part.replace(/<[^>]+>/g, ''))
+        .join('')
+    ));
+  return tidyText(paragraphs.join('\n'));
+};
+
+export interface EmailPart {
+  mimeType: string;
+  fileName?: string;
+  // Transfer encoding already removed.
+  bytes: Uint8Array;
+  charset?: string;
+}
+
+export interface ParsedEmail {
+  subject: string;
+  from: string;
+  parts: EmailPart[];
+}
+
+// RFC 2047 encoded words, e.g. "=?UTF-8?Q?Caf=C3=A9?=" or "=?utf-8?B?Q2Fmw6k=?=".
+const decodeHeaderWords = (value: string): string =>
+  value.replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=(\s+(?==\?))?/gi, (_, charset: string, encoding: string, data: string) => {
+    const bytes = encoding.toLowerCase() === 'b'
+      ? latin1Bytes(atob(data))
+      : latin1Bytes(data.replace(/_/g, ' ').replace(/=([\da-f]{2})/gi, (__, hex) => String.fromCharCode(parseInt(hex, 16))));
+    return decodeBytes(bytes, charset);
+  });
+
+const parseHeaders = (block: string): Map<string, string> => {
+  const headers = new Map<string, string>();
+  // Folded header lines continue with leading whitespace.
+  block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  });
+  return headers;
+};
+
+// The value and parameters of a header like `text/plain; charset="utf-8"`.
+const headerParams = (value = ''): { value: string; params: Record<string, string> } => {
+  const [first, ...rest] = value.split(';');
+  const params = Object.fromEntries(rest.flatMap(param => {
+    const match = param.trim().match(/^([\w*-]+)\s*=\s*"?([^"]*)"?$/);
+    return match ? [[match[1].toLowerCase().replace(/\*$/, ''), match[2]]] : [];
+  }));
+  return { value: first.trim().toLowerCase(), params };
+};
+
+const decodeTransfer = (body: string, encoding: string): Uint8Array => {
+  if (encoding === 'base64') return latin1Bytes(atob(body.replace(/[^A-Za-z0-9+/=]/g, '')));
+  if (encoding === 'quoted-printable') {
+    return latin1Bytes(body.replace(/=\r?\n/g, '').replace(/=([\da-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+  }
+  return latin1Bytes(body);
+};
+
+const parseEntity = (source: string): EmailPart[] => {
+  const split = source.search(/\r?\n\r?\n/);
+  const headers = parseHeaders(split < 0 ? source : source.slice(0, split));
+  const body = split < 0 ? '' : source.slice(split).replace(/^\r?\n\r?\n/, '');
+  const contentType = headerParams(headers.get('content-type') || 'text/plain');
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    const boundary = `--${contentType.params.boundary}`;
+    return body.split(boundary).slice(1)
+      .filter(part => !part.startsWith('--'))
+      .flatMap(part => parseEntity(part.replace(/^\r?\n/, '')));
+  }
+  if (contentType.value === 'message/rfc822') return parseEntity(body);
+
+  const disposition = headerParams(headers.get('content-disposition'));
+  const fileName = disposition.params.filename || contentType.params.name;
+  return [{
+    mimeType: contentType.value,
+    fileName: fileName ? decodeHeaderWords(fileName) : undefined,
+    bytes: decodeTransfer(body, (headers.get('content-transfer-encoding') || '').toLowerCase()),
+    charset: contentType.params.charset,
+  }];
+};
+
+// Splits a MIME message (.eml) into its leaf parts: text bodies and attachments.
+export const parseEmail = (bytes: Uint8Array): ParsedEmail => {
+  const source = decodeLatin1(bytes);
+  const split = source.search(/\r?\n\r?\n/);
+  const headers = parseHeaders(split < 0 ? source : source.slice(0, split));
+  return {
+    subject: decodeHeaderWords(headers.get('subject') ?? ''),
+    from: decodeHeaderWords(headers.get('from') ?? ''),
+    parts: parseEntity(source),
+  };
+};
@@ -0,0 +1,87 @@
+import type { LLMOperation } from '../types';
+import type { LLMClient, LLMRequest } from './llmClient';
+import { abortError } from './llmClient';
+
+/**
+ * One recorded model response. `chunks` holds the text as it was streamed (a single chunk for
+ * non-streaming calls); a failed call records `error` instead.
+ */
+export interface LLMFixture {
+  operation: LLMOperation;
+  model?: string;
+  chunks?: string[];
+  error?: string;
+  recordedAt?: string;
+  // Written by hand to cover a failure mode (e.g. malformed JSON); never overwritten when recording.
+  synthetic?: boolean;
+  // Written by hand in place of a response that hasn't been recorded yet; recording replaces it.
+  standIn?: boolean;
+}
+
+/**
+ * Answers requests from recorded fixtures, in order, without touching the network. A request
+ * whose operation differs from the next fixture fails, so a changed call sequence is noticed.
+ * `onRequest` sees each request, e.g. for tests that check what was sent.
+ */
+export const createReplayClient = (fixtures: LLMFixture[], onRequest?: (request: LLMRequest) => void): LLMClient => {
+  const queue = [...fixtures];
+
+  const next = (request: LLMRequest): LLMFixture => {
+    if (request.signal?.aborted) throw abortError();
+    onRequest?.(request);
+    const fixture = queue.shift();
+    if (!fixture) {
+      throw new Error(`No recorded fixture left for a "${request.operation}" request.`);
+    }
+    if (fixture.operation !== request.operation) {
+      throw new Error(`Expected a "${fixture.operation}" request but got "${request.operation}".`);
+    }
+    if (fixture.error) throw new Error(fixture.error);
+    return fixture;
+  };
+
+  return {
+    generate: async (request) => (next(request).chunks ?? []).join(''),
+    stream: async (request, onChunk) => {
+      let text = '';
+      for (const chunk of next(request).chunks ?? []) {
+        if (request.signal?.aborted) throw abortError();
+        text += chunk;
+        onChunk(text);
+      }
+      return text;
+    },
+  };
+};
+
+/**
+ * Passes requests through to a real backend and reports every response (or error) as a fixture,
+ * together with the request it answered.
+ */
+export const createRecordingClient = (inner: LLMClient, onRecord: (fixture: LLMFixture, request: LLMRequest) => void): LLMClient => {
+  const record = async (request: LLMRequest, call: () => Promise<string[]>): Promise<string> => {
+    const base = { operation: request.operation, model: request.model, recordedAt: new Date().toISOString() };
+    try {
+      const chunks = await call();
+      onRecord({ ...base, chunks }, request);
+      return chunks.join('');
+    } catch (error) {
+      onRecord({ ...base, error: error instanceof Error ? error.message : String(error) }, request);
+      throw error;
+    }
+  };
+
+  return {
+    generate: (request) => record(request, async () => [await inner.generate(request)]),
+    stream: (request, onChunk) => record(request, async () => {
+      const chunks: string[] = [];
+      let received = 0;
+      await inner.stream(request, textSoFar => {
+        chunks.push(textSoFar.slice(received));
+        received = textSoFar.length;
+        onChunk(textSoFar);
+      });
+      return chunks;
+    }),
+  };
+};
@@ -0,0 +1,80 @@
+import { GoogleGenAI } from "@google/genai";
+import type { GenerateContentParameters, GenerateContentResponseUsageMetadata, Schema } from "@google/genai";
+import type { LLMClient, LLMRequest, JsonSchema } from './llmClient';
+import { abortError } from './llmClient';
+import { AuthenticationError } from './llmErrors';
+
+// Gemini's schema format is JSON Schema with upper-case type names (`Type.OBJECT` === 'OBJECT').
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Schema['type'],
+  description: schema.description,
+  nullable: schema.nullable,
+  required: schema.required,
+  items: schema.items && toGeminiSchema(schema.items),
+  properties: schema.properties && Object.fromEntries(
+    Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+  ),
+});
+
+const toParameters = (request: LLMRequest): GenerateContentParameters => ({
+  model: request.model,
+  contents: {
+    parts: [
+      { text: request.prompt },
+      ...(request.attachments ?? []).map(({ mimeType, data }) => ({ inlineData: { mimeType, data } })),
+    ],
+  },
+  config: {
+    abortSignal: request.signal,
+    systemInstruction: request.systemInstruction,
+    ...(request.responseSchema && {
+      responseMimeType: "application/json",
+      responseSchema: toGeminiSchema(request.responseSchema),
+    }),
+  },
+});
+
+// Thinking tokens are billed as output, so they count towards it.
+const reportUsage = (request: LLMRequest, usage: GenerateContentResponseUsageMetadata | undefined) => {
+  if (!usage) return;
+  request.onUsage?.({
+    inputTokens: usage.promptTokenCount ?? 0,
+    outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+  });
+};
+
+export const createGeminiClient = (apiKey: string): LLMClient => {
+  // Created on first use so that a missing key only fails the request, not the app.
+  let ai: GoogleGenAI | null = null;
+  const getAi = () => {
+    if (!apiKey) {
+      throw new AuthenticationError("No Gemini API key is configured. Set GEMINI_API_KEY in .env.local or add a key in Settings.");
+    }
+    ai ??= new GoogleGenAI({ apiKey });
+    return ai;
+  };
+
+  return {
+    generate: async (request) => {
+      const response = await getAi().models.generateContent(toParameters(request));
+      reportUsage(request, response.usageMetadata);
+      return response.text ?? '';
+    },
+    stream: async (request, onChunk) => {
+      const { signal } = request;
+      const stream = await getAi().models.generateContentStream(toParameters(request));
+      let text = '';
+      // Every chunk carries the running totals; the last one has the final count.
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        text += chunk.text ?? '';
+        usage = chunk.usageMetadata ?? usage;
+        onChunk(text);
+      }
+      if (signal?.aborted) throw abortError();
+      reportUsage(request, usage);
+      return text;
+    },
+  };
+};
@@ -1,193 +1,320 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { SearchFilters, Job } from '../types';
-import { InsightType } from '../types';
+import type { SearchFilters, Job, JobField, ResumeAnalysis, CoverLetterOptions, LLMOperation, InsightType } from '../types';
+import { validateResumeAnalysis } from './resumeAnalysis';
+import { JOB_FIELDS, normalizeJob, normalizeJobs } from './jobValidation';
+import { findSalaryInText, formatSalary } from './salary';
+import { splitParagraphs } from './coverLetters';
+import type { LLMAttachment, LLMRequest, TokenUsage } from './llmClient';
+import { isAbortError } from './llmClient';
+import { toServiceError } from './llmErrors';
+import { createRequestScheduler } from './requestScheduler';
+import { estimateTokens, recordModelCall } from './usage';
+import { getLLMClient, getLLMSettings, modelFor } from './llmSettings';
+import { createResponseCache } from './responseCache';
+import type { Producer } from './responseCache';
+import { hashString, jobContentKey } from './hash';
+import type { ExtractedJobFields } from './jobIngestion';
+import { missingPostingFields } from './jobIngestion';
+import type { PromptInput, ResumeInput } from './prompts';
+import { buildPrompt, toJobText, toProblems } from './prompts';
 
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+export { isAbortError };
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Asks the model again instead of reusing a cached answer.
+  refresh?: boolean;
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const jobSchema = {
-  type: Type.OBJECT,
-  properties: {
-    id: { type: Type.STRING, description: 'A unique identifier for the job' },
-    title: { type: Type.STRING, description: 'The title of the job position' },
-    company: { type: Type.STRING, description: 'The name of the company hiring' },
-    location: { type: Type.STRING, description: 'The location of the job (e.g., "San Francisco, CA")' },
-    type: { type: Type.STRING, description: 'The type of employment (e.g., "Full-time")' },
-    description: { type: Type.STRING, description: 'A detailed description of the job responsibilities and requirements' },
-    skills: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: 'A list of key skills required for the job'
-    },
-    salaryRange: { type: Type.STRING, description: 'An estimated salary range (e.g., "$120,000 - $150,000")', nullable: true },
-  },
-  required: ['id', 'title', 'company', 'location', 'type', 'description', 'skills'],
-};
+export interface StreamOptions extends RequestOptions {
+  // Called with the full text received so far each time a new chunk arrives.
+  onChunk?: (textSoFar: string) => void;
+}
 
-export const findJobs = async (filters: SearchFilters): Promise<Job[]> => {
+const requestScheduler = createRequestScheduler({ maxConcurrent: 4, maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30_000 });
+
+/**
+ * Sends a request through the scheduler, which limits concurrency and retries transient failures,
+ * and records its token use under the operation. Requests go to whichever backend is selected in
+ * Settings, using the model configured for the operation.
+ */
+const callModel = async (input: PromptInput, signal: AbortSignal | undefined, send: (request: LLMRequest) => Promise<string>): Promise<string> => {
+  const request = buildPrompt(input);
+  const { operation } = request;
+  const model = modelFor(operation);
+  let usage: TokenUsage | undefined;
+  let retries = 0;
   try {
-    const prompt = `Find AI-related jobs based on the following criteria and rank them by relevance:
-    - Keywords: ${filters.query || 'any'}
-    - Location: ${filters.location || 'any'}
-    - Job Type: ${filters.type || 'any'}
-    - Desired Salary: ${filters.salary || 'any'}
-    - Work Location Preference: ${filters.workLocation || 'any'}
-    - Target Industry: ${filters.industry || 'any'}
-    
-    Generate between 8 and 12 realistic but fictional job listings that are the best match for these criteria. The most relevant jobs should appear first.`;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        systemInstruction: "You are an AI Job Board API. Your purpose is to generate realistic, fictional job listings based on user queries. Respond ONLY with a valid JSON array matching the provided schema. Do not include any introductory text, markdown formatting, or explanations.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: jobSchema,
-        },
-      },
+    const text = await requestScheduler.run(
+      () => send({ ...request, input, model, signal, onUsage: reported => { usage = reported; } }),
+      { signal, onRetry: (error, attempt, delayMs) => {
+        retries = attempt;
+        console.warn(`Retrying ${operation} request in ${delayMs}ms (attempt ${attempt + 1}):`, error.message);
+      } },
+    );
+    recordModelCall({
+      operation, model, retries,
+      usage: usage ?? { inputTokens: estimateTokens(`${request.systemInstruction ?? ''}${request.prompt}`), outputTokens: estimateTokens(text) },
+      isEstimate: !usage,
     });
-    
-    const jsonString = response.text;
-    const jobs = JSON.parse(jsonString);
-    return jobs as Job[];
+    return text;
   } catch (error) {
-    console.error("Error finding jobs:", error);
-    throw new Error("Failed to fetch job listings from Gemini API.");
+    if (!isAbortError(error)) recordModelCall({ operation, model, retries, failed: true });
+    throw error;
+  }
+};
+
+const generateText = (input: PromptInput, signal?: AbortSignal): Promise<string> =>
+  callModel(input, signal, fullRequest => getLLMClient().generate(fullRequest));
+
+const streamText = (input: PromptInput, { onChunk, signal }: StreamOptions): Promise<string> =>
+  callModel(input, signal, fullRequest => getLLMClient().stream(fullRequest, text => onChunk?.(text)));
+
+// How long answers are reused, for the operations that are cached. Search results go stale quickly;
+// answers about a fixed job text don't. Resume analyses and cover letters are kept with their own
+// history, and pasted postings are parsed once, so those are always generated afresh.
+const CACHE_TTL_MS: Partial<Record<LLMOperation, number>> = {
+  search: 30 * 60 * 1000,
+  insight: 7 * 24 * 60 * 60 * 1000,
+  match: 7 * 24 * 60 * 60 * 1000,
+};
+
+const responseCache = createResponseCache({ maxEntries: 200, maxSize: 2_000_000 });
+
+/**
+ * Reuses the answer to an identical earlier request for the same operation and model, and shares
+ * one call between identical requests made at the same time. `contentKey` ties the entry to the
+ * job the prompt is about.
+ */
+const cached = <T>(input: PromptInput, produce: Producer<T>, options: StreamOptions & { contentKey?: string } = {}): Promise<T> => {
+  const ttlMs = CACHE_TTL_MS[input.operation];
+  if (!ttlMs) return produce(options.signal ?? new AbortController().signal, text => options.onChunk?.(text));
+  const request = buildPrompt(input);
+  const body = JSON.stringify(request);
+  const key = [request.operation, getLLMSettings().backend, modelFor(request.operation), options.contentKey ?? '', hashString(body), body.length].join(':');
+  return responseCache.run(key, produce, { ...options, ttlMs });
+};
+
+// Forgets cached answers for one operation, or all of them.
+export const clearResponseCache = (operation?: LLMOperation) => responseCache.clear(operation ? `${operation}:` : '');
+
+// Parses model JSON, describing a syntax error as a problem instead of throwing.
+const parseModelJson = (text: string): { value: unknown; problems: string[] } => {
+  try {
+    return { value: JSON.parse(text), problems: [] };
+  } catch (error) {
+    return { value: undefined, problems: [`The response was not valid JSON (${error instanceof Error ? error.message : error}).`] };
   }
 };
 
-export const getJobInsight = async (job: Job, insightType: InsightType): Promise<string> => {
-  let prompt = '';
-  switch (insightType) {
-    case InsightType.SUMMARY:
-      prompt = `Summarize the key responsibilities and qualifications from the following job description in 3-4 concise bullet points:\n\n---\n\n${job.description}`;
-      break;
-    case InsightType.SKILLS:
-      prompt = `Based on this job description, list the top 5 most important technical skills as a comma-separated list. Only list the skills.\n\n---\n\n${job.description}`;
-      break;
-    case InsightType.COVER_LETTER:
-      prompt = `Write a compelling and professional opening paragraph (2-3 sentences) for a cover letter for the role of '${job.title}' at '${job.company}'. The paragraph should be concise and express enthusiasm for the role and the company based on the provided job description.\n\n---\n\n${job.description}`;
-      break;
-    default:
-      throw new Error('Invalid insight type');
+const generateJobList = async (input: PromptInput, signal?: AbortSignal): Promise<{ jobs: Job[]; problems: string[] }> => {
+  const { value, problems } = parseModelJson(await generateText(input, signal));
+  if (problems.length > 0) return { jobs: [], problems };
+  if (!Array.isArray(value)) return { jobs: [], problems: ['The response must be a JSON array of job listings.'] };
+
+  const { jobs, rejected } = normalizeJobs(value);
+  rejected.forEach(({ index, errors }) => console.warn(`Rejected job listing #${index + 1}:`, errors));
+  return { jobs, problems: rejected.map(({ index, errors }) => `Listing ${index + 1}: ${errors.join(' ')}`) };
+};
+
+export const findJobs = async (filters: SearchFilters, options: RequestOptions = {}): Promise<Job[]> => {
+  try {
+    const input: PromptInput = { operation: 'search', filters };
+    return await cached(input, async signal => {
+      const first = await generateJobList(input, signal);
+      if (first.problems.length === 0) return first.jobs;
+
+      // Retry once with the problems spelled out, then keep whichever attempt gave more usable listings.
+      const retry = await generateJobList({ ...input, problems: toProblems(first.problems) }, signal);
+      const best = retry.jobs.length >= first.jobs.length ? retry : first;
+      if (best.jobs.length === 0) {
+        throw new Error(`No usable job listings after retrying: ${retry.problems.join(' ')}`);
+      }
+      return best.jobs;
+    }, options);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error finding jobs:", error);
+    throw toServiceError(error, "Failed to fetch job listings from the AI service.");
   }
+};
+
+export const getJobInsight = async (job: Job, insightType: InsightType, options: StreamOptions = {}): Promise<string> => {
+  const input: PromptInput = { operation: 'insight', job: toJobText(job), insightType };
+  // Builds the prompt up front, so an unknown insight type throws as it is rather than as a service error.
+  buildPrompt(input);
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-    });
-    return response.text;
+    return await cached(input, (signal, onChunk) => streamText(input, { signal, onChunk }), { ...options, contentKey: jobContentKey(job) });
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error(`Error getting job insight (${insightType}):`, error);
-    throw new Error(`Failed to generate insight for the job.`);
+    throw toServiceError(error, 'Failed to generate insight for the job.');
   }
 };
 
+const hasResume = (resume: ResumeInput) => !!(resume.file || resume.text);
+
 export const analyzeResume = async (
-  resume: { text?: string; file?: { data: string; mimeType: string } }, 
-  job: Job
-): Promise<string> => {
-  
-  const promptText = `
-    As an expert career coach and resume writer, analyze the following resume against the provided job description.
-
-    **Job Description:**
-    Title: ${job.title}
-    Company: ${job.company}
-    Description: ${job.description}
-    Required Skills: ${job.skills.join(', ')}
-
-    **User's Resume is provided as a file attachment or as text below.**
-
-    ---
-
-    Provide a detailed analysis with the following sections, formatted in markdown:
-
-    ### Overall Match
-    Provide a brief summary (2-3 sentences) of how well the resume aligns with the job description and a qualitative rating (e.g., Strong Match, Good Match, Needs Improvement).
-
-    ### Keyword Analysis
-    - **Keywords to Add:** List critical keywords and skills from the job description that are missing from the resume.
-    - **Keywords to Emphasize:** List keywords that are present but could be highlighted more effectively.
-
-    ### Tailoring Suggestions
-    Provide 3-5 specific, actionable suggestions for tailoring the resume. For each suggestion, explain *why* it's important and provide an example of how to phrase it. For instance, suggest rephrasing a bullet point to include specific metrics or technologies mentioned in the job description.
-  `;
-
-  const parts: any[] = [];
-  
-  if (resume.file) {
-    parts.push({text: promptText});
-    parts.push({
-      inlineData: {
-        mimeType: resume.file.mimeType,
-        data: resume.file.data,
-      },
-    });
-  } else if (resume.text) {
-     parts.push({text: `${promptText}\n\n**User's Resume:**\n${resume.text}`});
-  } else {
+  resume: ResumeInput, 
+  job: Job,
+  options: StreamOptions = {}
+): Promise<ResumeAnalysis> => {
+  if (!hasResume(resume)) {
     throw new Error("No resume provided for analysis.");
   }
 
+  let jsonString: string;
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-pro",
-      contents: { parts },
-    });
-    return response.text;
+    jsonString = await streamText({ operation: 'resume', job: toJobText(job), resume }, options);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('Error analyzing resume:', error);
-    throw new Error('Failed to analyze resume with Gemini API.');
+    throw toServiceError(error, 'Failed to analyze resume with the AI service.');
+  }
+
+  try {
+    return validateResumeAnalysis(JSON.parse(jsonString));
+  } catch (error) {
+    console.error('Invalid resume analysis response:', error, jsonString);
+    throw new Error('AI returned an analysis in an unexpected format. Please try again.');
   }
 };
 
 
-export const parseJobPosting = async (jobPostingText: string): Promise<Job> => {
+/**
+ * Quick 0-100 fit score for batch ranking. Uses the fast model and a one-field schema, so it is
+ * much cheaper than a full `analyzeResume` call.
+ */
+export const scoreResumeMatch = async (
+  resume: ResumeInput,
+  job: Job,
+  signal?: AbortSignal
+): Promise<number> => {
+  if (!hasResume(resume)) {
+    throw new Error("No resume provided for scoring.");
+  }
+
+  const input: PromptInput = { operation: 'match', job: toJobText(job), resume };
   try {
-    const prompt = `
-      Analyze the following job posting text and extract the key information.
-      If a specific piece of information (like salaryRange) is not present, omit the field or set it to null.
-      The 'type' should be one of 'Full-time', 'Part-time', 'Contract', or 'Internship'. If you can't determine it, default to 'Full-time'.
-      The location should be specific (e.g., "San Francisco, CA" or "Remote").
-      Generate a list of 5-10 relevant skills based on the description.
-      Generate a plausible but random ID for the job.
-
-      Job Posting Text:
-      ---
-      ${jobPostingText}
-      ---
-    `;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-pro", // Using a more powerful model for better parsing accuracy
-      contents: prompt,
-      config: {
-        systemInstruction: "You are an expert job description parser. Your task is to extract job details from raw text and respond ONLY with a single valid JSON object matching the provided schema. Do not include any introductory text, markdown formatting, or explanations.",
-        responseMimeType: "application/json",
-        responseSchema: jobSchema,
-      },
-    });
+    return await cached(input, async requestSignal => {
+      const score = Number(JSON.parse(await generateText(input, requestSignal)).matchScore);
+      if (!Number.isFinite(score)) {
+        throw new Error('Response did not contain a numeric matchScore.');
+      }
+      return Math.round(Math.min(100, Math.max(0, score)));
+    }, { signal, contentKey: jobContentKey(job) });
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
+    console.error('Error scoring resume match:', error);
+    throw toServiceError(error, 'Failed to score resume match with the AI service.');
+  }
+};
+
+/**
+ * Writes a complete cover letter body (no address block or date) and returns it split into
+ * paragraphs. Streams like `getJobInsight`; `onChunk` receives the raw text so far.
+ */
+export const generateCoverLetter = async (
+  job: Job,
+  resume: ResumeInput | undefined,
+  options: CoverLetterOptions,
+  streamOptions: StreamOptions = {}
+): Promise<string[]> => {
+  if (resume && !hasResume(resume)) {
+    throw new Error("The selected resume is empty.");
+  }
+
+  try {
+    const text = await streamText({ operation: 'coverLetter', job: toJobText(job), resume, options }, streamOptions);
+    return splitParagraphs(text);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('Error generating cover letter:', error);
+    throw toServiceError(error, 'Failed to generate cover letter with the AI service.');
+  }
+};
+
+/**
+ * Rewrites one paragraph of an existing letter so it still flows with the paragraphs around it.
+ */
+export const regenerateCoverLetterParagraph = async (
+  job: Job,
+  resume: ResumeInput | undefined,
+  options: CoverLetterOptions,
+  paragraphs: string[],
+  index: number,
+  instruction: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (resume && !hasResume(resume)) {
+    throw new Error("The selected resume is empty.");
+  }
 
-    const jsonString = response.text;
-    const parsedJobData = JSON.parse(jsonString);
+  try {
+    const response = await generateText({ operation: 'coverLetter', job: toJobText(job), resume, options, rewrite: { paragraphs, index, instruction } }, signal);
+    return response.trim().replace(/^\[\d+\]\s*/, '');
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
+    console.error('Error regenerating cover letter paragraph:', error);
+    throw toServiceError(error, 'Failed to regenerate the paragraph with the AI service.');
+  }
+};
+
+const parseJobAttempt = async (input: PromptInput, extracted: ExtractedJobFields, signal?: AbortSignal): Promise<{ job: Job | null; problems: string[]; isInvalidJson: boolean }> => {
+  const { value, problems } = parseModelJson(await generateText(input, signal));
+  if (problems.length > 0) return { job: null, problems, isInvalidJson: true };
+  // Fields read from the document win over the model's reading of them.
+  const { job, errors } = normalizeJob(value && typeof value === 'object' ? { ...value, ...extracted } : value);
+  return { job, problems: errors, isInvalidJson: false };
+};
+
+export interface ParseJobOptions {
+  // Fields already read from the document; the model is only asked for the others.
+  extracted?: ExtractedJobFields;
+  // The original file, when no text could be extracted from it.
+  attachment?: LLMAttachment;
+  signal?: AbortSignal;
+}
 
-    // Ensure the job has a unique ID client-side, overriding whatever Gemini provided.
-    const jobWithId: Job = { ...parsedJobData, id: crypto.randomUUID() };
-    
-    return jobWithId;
+export const parseJobPosting = async (jobPostingText: string, { extracted = {}, attachment, signal }: ParseJobOptions = {}): Promise<Job> => {
+  const missing = missingPostingFields(extracted);
+  const stated = extracted.salary ?? findSalaryInText(jobPostingText);
+  // The model is told to come up with skills, and a salary it supplies is only a guess.
+  const isGenerated = (field: JobField) => missing.includes(field) && (field === 'skills' || (field === 'salaryRange' && !stated));
+  // A stated salary wins over the model's reading, which is kept only as an estimate.
+  const withStatedSalary = (job: Job): Job =>
+    stated ? { ...job, salaryRange: job.salaryRange ?? formatSalary(stated), salary: stated } : job;
+  const finish = (parsed: Job): Job => {
+    const job = withStatedSalary(parsed);
+    const fields = JOB_FIELDS.filter(field => field !== 'salaryRange' || job.salaryRange);
+    return { ...job, provenance: Object.fromEntries(fields.map(field => [field, isGenerated(field) ? 'ai-generated' : 'ai-extracted'])) };
+  };
 
+  // Everything required was in the document, so there is nothing to ask the model.
+  if (missing.every(field => field === 'salaryRange')) {
+    const { job, errors } = normalizeJob(extracted);
+    if (job) return finish(job);
+    console.warn("Extracted job fields are incomplete, asking the model:", errors);
+  }
+
+  const input: PromptInput = { operation: 'parse', text: jobPostingText, extracted, attachment };
+  let attempt;
+  try {
+    attempt = await parseJobAttempt(input, extracted, signal);
+    if (!attempt.job) {
+      console.warn("Retrying job posting parse after invalid output:", attempt.problems);
+      attempt = await parseJobAttempt({ ...input, problems: toProblems(attempt.problems) }, extracted, signal);
+    }
   } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
     console.error("Error parsing job posting:", error);
-    if (error instanceof Error && error.message.includes('JSON')) {
-        throw new Error("AI failed to return valid JSON. The job description might be too complex or unclear. Please try again with a different posting.");
-    }
-    throw new Error("Failed to parse job posting with Gemini API.");
+    throw toServiceError(error, "Failed to parse job posting with the AI service.");
+  }
+
+  if (attempt.job) return finish(attempt.job);
+  console.error("Parsed job posting is still invalid after retrying:", attempt.problems);
+  if (attempt.isInvalidJson) {
+    throw new Error("AI failed to return valid JSON. The job description might be too complex or unclear. Please try again with a different posting.");
   }
-};
\ No newline at end of file
+  throw new Error(`AI could not extract every required detail from the posting (${attempt.problems.join(' ')}) Please check the text and try again.`);
+};
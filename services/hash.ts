@@ -0,0 +1,17 @@
+import type { Job } from '../types';
+
+// Small non-cryptographic (djb2) hash for stable ids and cache keys derived from content.
+export const hashString = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Identifies a job by what it says rather than by its id, which for AI-generated listings is
+ * not stable across searches.
+ */
+export const jobContentKey = (job: Job): string =>
+  hashString([job.title, job.company, job.location, job.description].join('|'));
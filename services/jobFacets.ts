@@ -0,0 +1,146 @@
+import type { Job } from '../types';
+import { annualSalaryValue, DISPLAY_CURRENCY } from './salary';
+
+export type FacetKey = 'type' | 'workMode' | 'location' | 'company' | 'skills' | 'salary';
+
+// Selected values per facet. Values within a facet are alternatives; facets combine with AND.
+export type FacetSelection = Partial<Record<FacetKey, string[]>>;
+
+export interface FacetOption {
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+export interface Facet {
+  key: FacetKey;
+  label: string;
+  options: FacetOption[];
+}
+
+export const FACET_LABELS: Record<FacetKey, string> = {
+  type: 'Employment type',
+  workMode: 'Work mode',
+  location: 'Location',
+  company: 'Company',
+  skills: 'Skills',
+  salary: 'Salary (per year)',
+};
+
+export const FACET_KEYS = Object.keys(FACET_LABELS) as FacetKey[];
+
+// Lower bounds of the yearly salary bands, in the display currency.
+const SALARY_BANDS = [0, 50000, 100000, 150000, 200000];
+const UNKNOWN_SALARY = 'unknown';
+
+// Band values are the lower bound ("0", "50000", …) so they read sensibly in the URL.
+const salaryBand = (job: Job): string => {
+  const value = annualSalaryValue(job);
+  if (value === null) return UNKNOWN_SALARY;
+  return String([...SALARY_BANDS].reverse().find(bound => value >= bound) ?? 0);
+};
+
+const compactAmount = (amount: number) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: DISPLAY_CURRENCY, notation: 'compact', maximumFractionDigits: 0 }).format(amount);
+
+const salaryBandLabel = (band: string): string => {
+  if (band === UNKNOWN_SALARY) return 'Not stated';
+  const lower = Number(band);
+  const upper = SALARY_BANDS.find(bound => bound > lower);
+  if (lower === 0) return `Under ${compactAmount(upper!)}`;
+  return upper ? `${compactAmount(lower)} – ${compactAmount(upper)}` : `${compactAmount(lower)}+`;
+};
+
+export const workModeOf = (job: Job): 'Remote' | 'Hybrid' | 'On-site' => {
+  const text = `${job.location} ${job.description}`;
+  if (/\bhybrid\b/i.test(text)) return 'Hybrid';
+  if (/\bremote\b/i.test(text)) return 'Remote';
+  return 'On-site';
+};
+
+const valuesOf = (job: Job, key: FacetKey): string[] => {
+  switch (key) {
+    case 'type': return [job.type];
+    case 'workMode': return [workModeOf(job)];
+    case 'location': return [job.location];
+    case 'company': return [job.company];
+    case 'skills': return job.skills;
+    case 'salary': return [salaryBand(job)];
+  }
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const matchesFacet = (job: Job, key: FacetKey, selected: string[] | undefined): boolean => {
+  if (!selected || selected.length === 0) return true;
+  const wanted = new Set(selected.map(normalize));
+  return valuesOf(job, key).some(value => wanted.has(normalize(value)));
+};
+
+export const filterByFacets = (jobs: Job[], selection: FacetSelection): Job[] =>
+  jobs.filter(job => FACET_KEYS.every(key => matchesFacet(job, key, selection[key])));
+
+export const hasActiveFacets = (selection: FacetSelection): boolean =>
+  FACET_KEYS.some(key => (selection[key]?.length ?? 0) > 0);
+
+const compareOptions = (key: FacetKey) => (a: FacetOption, b: FacetOption): number => {
+  if (key === 'salary') {
+    // Bands in ascending order, "Not stated" last.
+    if (a.value === UNKNOWN_SALARY || b.value === UNKNOWN_SALARY) return a.value === UNKNOWN_SALARY ? 1 : -1;
+    return Number(a.value) - Number(b.value);
+  }
+  return b.count - a.count || a.label.localeCompare(b.label);
+};
+
+/**
+ * Lists every facet's options for `jobs` with counts. Each facet counts the jobs that match the
+ * other facets' selections, so a count is what ticking that option would add. Selected values
+ * stay listed, with a zero count, even when no job has them.
+ */
+export const buildFacets = (jobs: Job[], selection: FacetSelection): Facet[] =>
+  FACET_KEYS.map(key => {
+    const selected = new Set((selection[key] ?? []).map(normalize));
+    const options = new Map<string, FacetOption>();
+    const addOption = (value: string) => {
+      const id = normalize(value);
+      if (!options.has(id)) {
+        options.set(id, { value, label: key === 'salary' ? salaryBandLabel(value) : value, count: 0, selected: selected.has(id) });
+      }
+      return options.get(id)!;
+    };
+
+    jobs
+      .filter(job => FACET_KEYS.every(other => other === key || matchesFacet(job, other, selection[other])))
+      .forEach(job => {
+        // A job counts once per option, however a skill is capitalised.
+        new Set(valuesOf(job, key).filter(value => normalize(value)).map(value => addOption(value))).forEach(option => option.count++);
+      });
+    (selection[key] ?? []).forEach(addOption);
+
+    return { key, label: FACET_LABELS[key], options: [...options.values()].sort(compareOptions(key)) };
+  });
+
+export const toggleFacetValue = (selection: FacetSelection, key: FacetKey, value: string): FacetSelection => {
+  const current = selection[key] ?? [];
+  const next = current.some(v => normalize(v) === normalize(value))
+    ? current.filter(v => normalize(v) !== normalize(value))
+    : [...current, value];
+  return { ...selection, [key]: next };
+};
+
+// Facets are kept in the query string as repeated parameters, e.g. `?skills=Python&skills=SQL`.
+export const readFacetParams = (params: URLSearchParams): FacetSelection =>
+  Object.fromEntries(FACET_KEYS.flatMap(key => {
+    const values = params.getAll(key).filter(Boolean);
+    return values.length > 0 ? [[key, values]] : [];
+  }));
+
+export const writeFacetParams = (params: URLSearchParams, selection: FacetSelection): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  FACET_KEYS.forEach(key => {
+    next.delete(key);
+    (selection[key] ?? []).forEach(value => next.append(key, value));
+  });
+  return next;
+};
@@ -0,0 +1,289 @@
+import type { Job } from '../types';
+import type { LLMAttachment } from './llmClient';
+import { coerceJobType } from './jobValidation';
+import { fieldsFromJobPosting, findJobPostings, splitSkills } from './jobPosting';
+import { findSalaryInText, formatSalary } from './salary';
+import { decodeBytes, decodeLatin1, extractDocxText, extractPdfText, htmlToText, parseEmail, parseHtml, tidyText } from './documentText';
+
+export type PostingFormat = 'text' | 'html' | 'pdf' | 'docx' | 'eml';
+
+// The job fields a posting can provide. `salary` travels with `salaryRange`.
+export type PostingField = 'title' | 'company' | 'location' | 'type' | 'description' | 'skills' | 'salaryRange';
+
+export type ExtractedJobFields = Partial<Pick<Job, PostingField | 'salary'>>;
+
+export interface IngestedPosting {
+  // File name, URL or "Pasted text".
+  source: string;
+  format: PostingFormat;
+  text: string;
+  // Fields read from the document without the model.
+  fields: ExtractedJobFields;
+  // The original file, for the model to read when no text could be extracted from it.
+  attachment?: LLMAttachment;
+  // Fields of each posting in the page's structured data, when it lists more than one.
+  postings?: ExtractedJobFields[];
+}
+
+export const POSTING_FIELDS: { field: PostingField; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'company', label: 'Company' },
+  { field: 'location', label: 'Location' },
+  { field: 'type', label: 'Job type' },
+  { field: 'salaryRange', label: 'Salary' },
+  { field: 'skills', label: 'Skills' },
+  { field: 'description', label: 'Description' },
+];
+
+export const FORMAT_NAMES: Record<PostingFormat, string> = {
+  text: 'Plain text',
+  html: 'Web page',
+  pdf: 'PDF',
+  docx: 'Word document',
+  eml: 'Email',
+};
+
+const FORMATS_BY_EXTENSION: Record<string, PostingFormat> = {
+  txt: 'text', text: 'text', md: 'text', html: 'html', htm: 'html', pdf: 'pdf', docx: 'docx', eml: 'eml',
+};
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const FORMATS_BY_MIME_TYPE: Record<string, PostingFormat> = {
+  'text/plain': 'text',
+  'text/markdown': 'text',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/pdf': 'pdf',
+  [DOCX_MIME_TYPE]: 'docx',
+  'message/rfc822': 'eml',
+};
+
+export const POSTING_FILE_ACCEPT = [
+  ...Object.keys(FORMATS_BY_EXTENSION).map(extension => `.${extension}`),
+  ...Object.keys(FORMATS_BY_MIME_TYPE),
+].join(',');
+
+const formatOf = (fileName: string, mimeType: string): PostingFormat | null =>
+  FORMATS_BY_MIME_TYPE[mimeType.split(';')[0].trim().toLowerCase()]
+  ?? FORMATS_BY_EXTENSION[fileName.split('.').pop()?.toLowerCase() ?? '']
+  ?? null;
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// The fields the model still has to supply, in display order.
+export const missingPostingFields = (fields: ExtractedJobFields): PostingField[] =>
+  POSTING_FIELDS.map(({ field }) => field).filter(field => isMissing(fields[field]));
+
+// Later sources only fill the gaps left by earlier ones.
+const mergeFields = (...sources: ExtractedJobFields[]): ExtractedJobFields =>
+  sources.reduce<ExtractedJobFields>((merged, source) => {
+    const result = { ...merged };
+    (Object.keys(source) as (keyof ExtractedJobFields)[]).forEach(field => {
+      if (isMissing(result[field]) && !isMissing(source[field])) Object.assign(result, { [field]: source[field] });
+    });
+    return result;
+  }, {});
+
+// "Title: …" style lines, as in recruiter emails and hand-written specs. Only a colon counts as the separator.
+const LABELLED_FIELDS: [Exclude<PostingField, 'salaryRange' | 'description'>, RegExp][] = [
+  ['title', /^(?:job title|position|role)\s*:\s*(.+)$/im],
+  ['company', /^(?:company|employer|organi[sz]ation)\s*:\s*(.+)$/im],
+  ['location', /^(?:location|work location|office location)\s*:\s*(.+)$/im],
+  ['type', /^(?:job type|employment type|contract type|employment)\s*:\s*(.+)$/im],
+  ['skills', /^(?:skills|key skills|required skills|tech stack)\s*:\s*(.+)$/im],
+];
+
+const EMPLOYMENT_TYPE_PATTERN = /\b(full[- ]time|part[- ]time|internship|freelance|fixed[- ]term)\b/gi;
+
+/**
+ * Fields that can be read reliably from plain text: labelled lines, a salary with a currency,
+ * and the employment type when the text names exactly one. The whole text is the description.
+ */
+export const fieldsFromText = (text: string): ExtractedJobFields => {
+  const fields: ExtractedJobFields = {};
+  LABELLED_FIELDS.forEach(([field, pattern]) => {
+    const value = text.match(pattern)?.[1].trim();
+    if (!value) return;
+    if (field === 'type') {
+      const type = coerceJobType(value);
+      if (type) fields.type = type;
+    } else if (field === 'skills') {
+      fields.skills = splitSkills(value);
+    } else {
+      fields[field] = value;
+    }
+  });
+  if (!fields.type) {
+    const types = new Set([...text.matchAll(EMPLOYMENT_TYPE_PATTERN)].map(match => coerceJobType(match[1])));
+    if (types.size === 1) fields.type = [...types][0] ?? undefined;
+  }
+  const salary = findSalaryInText(text);
+  if (salary) {
+    fields.salary = salary;
+    fields.salaryRange = formatSalary(salary);
+  }
+  if (text.trim()) fields.description = text.trim();
+  return fields;
+};
+
+const ingestHtml = (html: string, source: string): IngestedPosting => {
+  const doc = parseHtml(html);
+  const text = htmlToText(doc, { stripBoilerplate: true });
+  const postings = findJobPostings(doc);
+  // Careers pages usually have a single <h1> with the job title.
+  const headings = doc.querySelectorAll('h1');
+  const siteName = doc.querySelector('meta[property="og:site_name"]')?.getAttribute('content')?.trim();
+  const pageFields: ExtractedJobFields = {
+    ...(headings.length === 1 && headings[0].textContent?.trim() && { title: headings[0].textContent.trim() }),
+    ...(siteName && { company: siteName }),
+  };
+  return {
+    source,
+    format: 'html',
+    text,
+    fields: mergeFields(postings.length > 0 ? fieldsFromJobPosting(postings[0]) : {}, pageFields, fieldsFromText(text)),
+    ...(postings.length > 1 && { postings: postings.map(fieldsFromJobPosting) }),
+  };
+};
+
+// A line of three or more dashes, asterisks, underscores or equals signs ("---", "* * *") between postings.
+const SEPARATOR_LINE = /^[ \t]*(?:(?:-[ \t]*){3,}|(?:\*[ \t]*){3,}|(?:_[ \t]*){3,}|(?:=[ \t]*){3,})$/m;
+const TITLE_LINE = /^(?:job title|position|role)\s*:/gim;
+// Shorter pieces are greetings, sign-offs and the like rather than postings.
+const MIN_POSTING_WORDS = 20;
+
+const splitText = (text: string): string[] => {
+  const sections = text.split(SEPARATOR_LINE);
+  if (sections.length > 1) return sections;
+  // Without separators, each "Job title:" line starts a new posting.
+  const starts = [...text.matchAll(TITLE_LINE)].map(match => match.index!);
+  return starts.length > 1 ? starts.map((start, i) => text.slice(start, starts[i + 1])) : [text];
+};
+
+/**
+ * Splits a document that lists several openings into one posting each: by the page's structured
+ * data, by separator lines, or by repeated "Job title:" lines. A document with one posting is
+ * returned as it is.
+ */
+export const splitPostings = (posting: IngestedPosting): IngestedPosting[] => {
+  const numbered = (index: number) => `${posting.source} #${index + 1}`;
+  if (posting.postings) {
+    return posting.postings.map((fields, index) => ({ source: numbered(index), format: posting.format, text: fields.description ?? posting.text, fields }));
+  }
+  if (posting.attachment) return [posting];
+  const sections = splitText(posting.fields.description ?? posting.text)
+    .map(tidyText)
+    .filter(section => section.split(/\s+/).length >= MIN_POSTING_WORDS);
+  if (sections.length < 2) return [posting];
+  return sections.map((text, index) => ({ source: numbered(index), format: posting.format, text, fields: fieldsFromText(text) }));
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(decodeLatin1(bytes));
+
+// Scanned PDFs and fonts without a usable encoding give no text or garbage.
+const isReadable = (text: string) => {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  return letters >= 80 && letters >= text.replace(/\s/g, '').length * 0.5;
+};
+
+// A PDF without readable text is handed to the model as a file instead.
+const ingestPdf = async (bytes: Uint8Array, source: string): Promise<IngestedPosting> => {
+  const text = await extractPdfText(bytes);
+  if (!isReadable(text)) {
+    return { source, format: 'pdf', text: '', fields: {}, attachment: { mimeType: 'application/pdf', data: toBase64(bytes) } };
+  }
+  return { source, format: 'pdf', text, fields: fieldsFromText(text) };
+};
+
+// A Word document's text is all the model could read from it, however short.
+const ingestDocx = async (bytes: Uint8Array, source: string): Promise<IngestedPosting> => {
+  const text = await extractDocxText(bytes);
+  if (!text.trim()) throw new Error('The Word document has no text to read.');
+  return { source, format: 'docx', text, fields: fieldsFromText(text) };
+};
+
+const ingestEmail = async (bytes: Uint8Array, source: string): Promise<IngestedPosting> => {
+  const email = parseEmail(bytes);
+  const bodyPart = email.parts.find(part => !part.fileName && part.mimeType === 'text/plain')
+    ?? email.parts.find(part => !part.fileName && part.mimeType === 'text/html');
+  const bodyText = !bodyPart ? '' : bodyPart.mimeType === 'text/html'
+    ? htmlToText(decodeBytes(bodyPart.bytes, bodyPart.charset), { stripBoilerplate: true })
+    : tidyText(decodeBytes(bodyPart.bytes, bodyPart.charset));
+
+  // Attached specs are read like uploaded files; their text is added after the message. One that
+  // can't be read, such as an empty Word document, is left out rather than failing the message.
+  const attachments = (await Promise.all(email.parts
+    .filter(part => part.fileName && formatOf(part.fileName, part.mimeType) && formatOf(part.fileName, part.mimeType) !== 'eml')
+    .map(part => ingestBytes(part.bytes, part.fileName!, part.mimeType, part.fileName!).catch(() => null))))
+    .filter((attachment): attachment is IngestedPosting => attachment !== null);
+
+  const content = tidyText([
+    bodyText,
+    ...attachments.filter(attachment => attachment.text).map(attachment => `Attachment ${attachment.source}:\n${attachment.text}`),
+  ].join('\n\n'));
+  const headerLines = [email.subject && `Subject: ${email.subject}`, email.from && `From: ${email.from}`].filter(Boolean);
+
+  return {
+    source,
+    format: 'eml',
+    text: [...headerLines, content].join('\n\n'),
+    // The message and its attachments together describe the job; the headers don't.
+    fields: mergeFields({ ...fieldsFromText(bodyText), ...(content && { description: content }) }, ...attachments.map(attachment => attachment.fields)),
+    attachment: attachments.find(attachment => attachment.attachment)?.attachment,
+  };
+};
+
+const ingestBytes = async (bytes: Uint8Array, fileName: string, mimeType: string, source: string): Promise<IngestedPosting> => {
+  const format = formatOf(fileName, mimeType);
+  switch (format) {
+    case 'html':
+      return ingestHtml(decodeBytes(bytes), source);
+    case 'pdf':
+      return ingestPdf(bytes, source);
+    case 'docx':
+      return ingestDocx(bytes, source);
+    case 'eml':
+      return ingestEmail(bytes, source);
+    case 'text':
+      return ingestText(decodeBytes(bytes), source);
+    default:
+      throw new Error('Unsupported file type. Upload an HTML page, PDF, Word document, email (.eml) or text file.');
+  }
+};
+
+export const ingestText = (text: string, source = 'Pasted text'): IngestedPosting => {
+  const tidy = tidyText(text);
+  return { source, format: 'text', text: tidy, fields: fieldsFromText(tidy) };
+};
+
+const readFileBytes = (file: File): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(new Error('Failed to read the file.'));
+    reader.readAsArrayBuffer(file);
+  });
+
+export const ingestFile = async (file: File): Promise<IngestedPosting> =>
+  ingestBytes(await readFileBytes(file), file.name, file.type, file.name);
+
+/**
+ * Downloads a posting from the browser. Most careers sites don't allow that from other sites
+ * (CORS), in which case the error suggests saving the page and uploading it instead.
+ */
+export const ingestUrl = async (url: string, signal?: AbortSignal): Promise<IngestedPosting> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error("Couldn't download the page; the site may not allow it. Save the page from your browser and upload the file instead.");
+  }
+  if (!response.ok) throw new Error(`The page responded with status ${response.status}.`);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const fileName = new URL(url).pathname.split('/').pop() || 'page.html';
+  // Pages without a recognisable type are read as HTML.
+  const mimeType = response.headers.get('content-type') || 'text/html';
+  return ingestBytes(bytes, formatOf(fileName, mimeType) ? fileName : 'page.html', mimeType, url);
+};
@@ -0,0 +1,217 @@
+import type { Job, Salary, SalaryPeriod } from '../types';
+import type { ExtractedJobFields } from './jobIngestion';
+import type { JobValidationResult } from './jobValidation';
+import { htmlToText, parseHtml } from './documentText';
+import { jobContentKey } from './hash';
+import { JOB_TYPES, coerceJobType, validateJob } from './jobValidation';
+import { formatSalary } from './salary';
+
+// Conversion between `Job` and schema.org JobPosting (https://schema.org/JobPosting) in JSON-LD.
+
+export type JsonLd = Record<string, unknown>;
+
+export const SCHEMA_CONTEXT = 'https://schema.org';
+
+// Names the identifier that carries our own job id, so an exported posting keeps its id when imported again.
+const ID_PROPERTY = 'ai-job-finder';
+
+const EMPLOYMENT_TYPES: Record<Job['type'], string> = {
+  'Full-time': 'FULL_TIME',
+  'Part-time': 'PART_TIME',
+  Contract: 'CONTRACTOR',
+  Internship: 'INTERN',
+};
+
+const SALARY_UNITS: Record<string, SalaryPeriod> = { HOUR: 'hourly', DAY: 'daily', WEEK: 'weekly', MONTH: 'monthly', YEAR: 'annual' };
+
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+
+const nameOf = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof (value as JsonLd | null)?.name === 'string' ? ((value as JsonLd).name as string).trim() : '';
+
+const isJobPosting = (value: unknown): value is JsonLd =>
+  Boolean(value) && typeof value === 'object' && asArray((value as JsonLd)['@type']).includes('JobPosting');
+
+// Every JobPosting in parsed JSON-LD, including ones nested in arrays or an `@graph`.
+export const findJobPostingNodes = (value: unknown): JsonLd[] => {
+  const postings: JsonLd[] = [];
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) return node.forEach(visit);
+    if (!node || typeof node !== 'object') return;
+    if (isJobPosting(node)) postings.push(node);
+    asArray((node as JsonLd)['@graph']).forEach(visit);
+  };
+  visit(value);
+  return postings;
+};
+
+// Every JobPosting in a page's JSON-LD blocks.
+export const findJobPostings = (doc: Document): JsonLd[] =>
+  [...doc.querySelectorAll('script[type="application/ld+json"]')].flatMap(script => {
+    try {
+      return findJobPostingNodes(JSON.parse(script.textContent ?? ''));
+    } catch {
+      console.warn('Ignoring invalid JSON-LD block in the page.');
+      return [];
+    }
+  });
+
+export const splitSkills = (value: string) => value.split(/[,;•|]/).map(skill => skill.trim()).filter(Boolean);
+
+const formatPlace = (place: unknown): string => {
+  const address = (place as JsonLd | null)?.address ?? place;
+  if (typeof address === 'string') return address.trim();
+  if (!address || typeof address !== 'object') return nameOf(place);
+  const { addressLocality, addressRegion, addressCountry } = address as JsonLd;
+  return [addressLocality, addressRegion, nameOf(addressCountry)].filter(part => typeof part === 'string' && part).join(', ');
+};
+
+const isRemote = (location: string) => /\bremote\b/i.test(location);
+
+// schema.org MonetaryAmount, e.g. `{ currency: "USD", value: { minValue: 1, maxValue: 2, unitText: "YEAR" } }`.
+const salaryFromMonetaryAmount = (amount: unknown, isEstimate: boolean): Salary | null => {
+  if (!amount || typeof amount !== 'object') return null;
+  const { currency, value } = amount as JsonLd;
+  const quantity = (typeof value === 'object' && value !== null ? value : { value }) as JsonLd;
+  const min = Number(quantity.minValue ?? quantity.value);
+  const max = Number(quantity.maxValue ?? quantity.value);
+  if (typeof currency !== 'string' || !/^[A-Z]{3}$/.test(currency) || !Number.isFinite(min) || !Number.isFinite(max) || min <= 0 || min > max) {
+    return null;
+  }
+  const period = SALARY_UNITS[String(quantity.unitText ?? '').toUpperCase()] ?? (max < 1000 ? 'hourly' : 'annual');
+  return { min, max, currency, period, isEstimate };
+};
+
+// Descriptions are HTML, sometimes escaped a second time ("&lt;p&gt;").
+const descriptionText = (value: unknown): string => {
+  if (typeof value !== 'string') return '';
+  const html = /<[a-z]/i.test(value) ? value : parseHtml(value).body.textContent ?? '';
+  return htmlToText(html);
+};
+
+/**
+ * The fields a JobPosting provides directly. Values that can't be used are left out; see
+ * `jobFromJobPosting` for a conversion that reports them.
+ */
+export const fieldsFromJobPosting = (posting: JsonLd): ExtractedJobFields => {
+  const fields: ExtractedJobFields = {};
+  if (typeof posting.title === 'string' && posting.title.trim()) fields.title = posting.title.trim();
+  const company = nameOf(posting.hiringOrganization);
+  if (company) fields.company = company;
+  const places = asArray(posting.jobLocation).map(formatPlace).filter(Boolean);
+  if (asArray(posting.jobLocationType).includes('TELECOMMUTE') && !places.some(isRemote)) places.unshift('Remote');
+  if (places.length > 0) fields.location = [...new Set(places)].join(' / ');
+  const type = asArray(posting.employmentType).map(coerceJobType).find(Boolean);
+  if (type) fields.type = type;
+  const description = descriptionText(posting.description);
+  if (description) fields.description = description;
+  const skills = asArray(posting.skills).flatMap(skill => typeof skill === 'string' ? splitSkills(skill) : [nameOf(skill)]).filter(Boolean);
+  if (skills.length > 0) fields.skills = skills;
+  // A stated salary wins over the publisher's estimate.
+  const salary = salaryFromMonetaryAmount(posting.baseSalary, false) ?? salaryFromMonetaryAmount(posting.estimatedSalary, true);
+  if (salary) {
+    fields.salary = salary;
+    fields.salaryRange = formatSalary(salary);
+  }
+  return fields;
+};
+
+const ownId = (posting: JsonLd): string | undefined => {
+  const identifier = asArray(posting.identifier).find(value => (value as JsonLd | null)?.name === ID_PROPERTY) as JsonLd | undefined;
+  return typeof identifier?.value === 'string' && identifier.value.trim() ? identifier.value : undefined;
+};
+
+/**
+ * Converts a JobPosting into a `Job`, reporting every property that is missing or can't be
+ * mapped. A missing employment type means Full-time. Postings exported by this app keep their
+ * id; others get one derived from their content, so importing the same file twice finds them.
+ */
+export const jobFromJobPosting = (value: unknown): JobValidationResult => {
+  if (!isJobPosting(value)) return { job: null, errors: ['Record is not a schema.org JobPosting.'] };
+  const fields = fieldsFromJobPosting(value);
+  const errors: string[] = [];
+
+  if (!fields.title) errors.push('"title" must be a non-empty string.');
+  if (!fields.company) errors.push('"hiringOrganization" must name the employer.');
+  if (!fields.location) errors.push('"jobLocation" or a "jobLocationType" of TELECOMMUTE is required.');
+  if (!fields.description) errors.push('"description" must be a non-empty string.');
+  if (asArray(value.employmentType).length > 0 && !fields.type) {
+    errors.push(`"employmentType" ${JSON.stringify(value.employmentType)} matches none of ${JOB_TYPES.join(', ')}.`);
+  }
+  (['baseSalary', 'estimatedSalary'] as const).forEach(property => {
+    if (value[property] !== undefined && !salaryFromMonetaryAmount(value[property], false)) {
+      errors.push(`"${property}" must be a MonetaryAmount with a currency code and a positive value or minValue and maxValue.`);
+    }
+  });
+  if (errors.length > 0) return { job: null, errors };
+
+  const job: Job = {
+    id: '',
+    title: fields.title!,
+    company: fields.company!,
+    location: fields.location!,
+    type: fields.type ?? 'Full-time',
+    description: fields.description!,
+    skills: fields.skills ?? [],
+    salaryRange: fields.salaryRange,
+    salary: fields.salary,
+  };
+  job.id = ownId(value) ?? `jsonld-${jobContentKey(job)}`;
+  return validateJob(job);
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Paragraphs become <p>, single line breaks <br>, which `descriptionText` turns back into the same text.
+const descriptionHtml = (text: string): string =>
+  text.split(/\n{2,}/).map(paragraph => `<p>${paragraph.split('\n').map(escapeHtml).join('<br>')}</p>`).join('');
+
+// "Seattle, WA, US" → locality, region and country; "Seattle" → locality only.
+const toPlace = (location: string): JsonLd => {
+  const [addressLocality, addressRegion, ...country] = location.split(',').map(part => part.trim());
+  return {
+    '@type': 'Place',
+    address: {
+      '@type': 'PostalAddress',
+      addressLocality,
+      ...(addressRegion && { addressRegion }),
+      ...(country.length > 0 && { addressCountry: country.join(', ') }),
+    },
+  };
+};
+
+const toMonetaryAmount = (salary: Salary): JsonLd => ({
+  '@type': 'MonetaryAmount',
+  currency: salary.currency,
+  value: {
+    '@type': 'QuantitativeValue',
+    minValue: salary.min,
+    maxValue: salary.max,
+    unitText: Object.keys(SALARY_UNITS).find(unit => SALARY_UNITS[unit] === salary.period),
+  },
+});
+
+// A JobPosting for the job, without `@context` so it can be embedded in a graph.
+export const jobToJobPosting = (job: Job): JsonLd => {
+  const places = job.location.split(' / ').map(part => part.trim()).filter(part => part && !/^remote$/i.test(part));
+  return {
+    '@type': 'JobPosting',
+    identifier: { '@type': 'PropertyValue', name: ID_PROPERTY, value: job.id },
+    title: job.title,
+    description: descriptionHtml(job.description),
+    hiringOrganization: { '@type': 'Organization', name: job.company },
+    employmentType: EMPLOYMENT_TYPES[job.type],
+    ...(isRemote(job.location) && { jobLocationType: 'TELECOMMUTE' }),
+    ...(places.length > 0 && { jobLocation: places.length === 1 ? toPlace(places[0]) : places.map(toPlace) }),
+    ...(job.skills.length > 0 && { skills: job.skills }),
+    // Estimated salaries aren't the employer's, so they go in the property meant for them.
+    ...(job.salary && { [job.salary.isEstimate ? 'estimatedSalary' : 'baseSalary']: toMonetaryAmount(job.salary) }),
+  };
+};
+
+// A JSON-LD document for one job, or a graph of several.
+export const jobsToJsonLd = (jobs: Job[]): JsonLd =>
+  jobs.length === 1
+    ? { '@context': SCHEMA_CONTEXT, ...jobToJobPosting(jobs[0]) }
+    : { '@context': SCHEMA_CONTEXT, '@graph': jobs.map(jobToJobPosting) };
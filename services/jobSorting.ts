@@ -0,0 +1,43 @@
+import type { Job } from '../types';
+import { annualSalaryValue } from './salary';
+
+export type JobSortOrder = 'relevance' | 'match' | 'salary' | 'company' | 'added';
+
+export const JOB_SORT_LABELS: Record<JobSortOrder, string> = {
+  relevance: 'Relevance',
+  match: 'Match score',
+  salary: 'Salary (per year)',
+  company: 'Company (A–Z)',
+  added: 'Date added (newest)',
+};
+
+export const isJobSortOrder = (value: unknown): value is JobSortOrder =>
+  typeof value === 'string' && Object.hasOwn(JOB_SORT_LABELS, value);
+
+export interface JobSortKeys {
+  scoreOf: (job: Job) => number | undefined;
+  // When the job was added to the list; any increasing number works (a timestamp or arrival order).
+  addedAt: (job: Job) => number | undefined;
+}
+
+/**
+ * Orders jobs by the chosen key: highest first for scores, salaries and dates, A–Z for companies.
+ * 'relevance' keeps the order the jobs came in; jobs without a value for the key (no score,
+ * unknown salary) go last in their original order.
+ */
+export const sortJobs = (jobs: Job[], order: JobSortOrder, keys: JobSortKeys): Job[] => {
+  if (order === 'relevance') return jobs;
+  if (order === 'company') {
+    return [...jobs].sort((a, b) => a.company.localeCompare(b.company, undefined, { sensitivity: 'base' }));
+  }
+  const valueOf = order === 'match'
+    ? (job: Job) => keys.scoreOf(job) ?? null
+    : order === 'added' ? (job: Job) => keys.addedAt(job) ?? null : annualSalaryValue;
+  return jobs
+    .map(job => ({ job, value: valueOf(job) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) return a.value === null ? (b.value === null ? 0 : 1) : -1;
+      return b.value - a.value;
+    })
+    .map(({ job }) => job);
+};
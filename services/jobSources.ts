@@ -0,0 +1,248 @@
+import type { Job, SearchFilters, JobSourceStatus } from '../types';
+import { findJobs, isAbortError } from './geminiService';
+import { parseCsv } from './csv';
+import { hashString } from './hash';
+import { JOB_FIELDS, coerceJobType } from './jobValidation';
+import { withParsedSalary } from './salary';
+
+export interface FetchOptions {
+  // Asks AI sources for fresh listings instead of reusing cached ones.
+  refresh?: boolean;
+}
+
+export interface JobSourceProvider {
+  id: string;
+  name: string;
+  fetchJobs: (filters: SearchFilters, signal?: AbortSignal, options?: FetchOptions) => Promise<Job[]>;
+}
+
+// Loosely-typed record as it comes out of a feed before being mapped onto a Job.
+type RawJobRecord = Record<string, unknown>;
+
+const asString = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  return '';
+};
+
+const stripHtml = (html: string): string => {
+  if (!html) return '';
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const toSkills = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(asString).filter(Boolean);
+  const text = asString(value);
+  return text ? text.split(/[,;|]/).map(s => s.trim()).filter(Boolean) : [];
+};
+
+const toJob = (record: RawJobRecord, sourceId: string, sourceName: string): Job | null => {
+  const title = asString(record.title ?? record.position ?? record.name);
+  const company = asString(record.company ?? record.companyName ?? record.employer ?? record.author);
+  if (!title) return null;
+
+  const description = stripHtml(asString(record.description ?? record.summary ?? record.content));
+  const rawId = asString(record.id ?? record.guid ?? record.link ?? record.url);
+
+  return withParsedSalary({
+    id: `${sourceId}-${rawId || hashString(`${title}|${company}|${description.slice(0, 200)}`)}`,
+    title,
+    company: company || 'Unknown company',
+    location: asString(record.location ?? record.city) || 'Not specified',
+    type: coerceJobType(record.type ?? record.employmentType ?? record.jobType) ?? 'Full-time',
+    description,
+    skills: toSkills(record.skills ?? record.tags ?? record.categories),
+    salaryRange: asString(record.salaryRange ?? record.salary) || undefined,
+    sources: [sourceName],
+  });
+};
+
+const matchesFilters = (job: Job, filters: SearchFilters): boolean => {
+  const haystack = `${job.title} ${job.company} ${job.description} ${job.skills.join(' ')}`.toLowerCase();
+  const keywords = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (keywords.length > 0 && !keywords.some(keyword => haystack.includes(keyword))) {
+    return false;
+  }
+  if (filters.type && job.type !== filters.type) {
+    return false;
+  }
+  if (filters.location && filters.location.toLowerCase() !== 'remote') {
+    if (!job.location.toLowerCase().includes(filters.location.toLowerCase())) return false;
+  }
+  const remoteWanted = filters.workLocation === 'Remote' || filters.location.toLowerCase() === 'remote';
+  if (remoteWanted && !`${job.location} ${job.description}`.toLowerCase().includes('remote')) {
+    return false;
+  }
+  if (filters.industry && !haystack.includes(filters.industry.toLowerCase())) {
+    return false;
+  }
+  return true;
+};
+
+const parseFeedXml = (xml: string): RawJobRecord[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Feed is not valid XML.');
+  }
+  const text = (el: Element, selector: string) => el.querySelector(selector)?.textContent?.trim() || '';
+
+  const rssItems = Array.from(doc.querySelectorAll('item'));
+  if (rssItems.length > 0) {
+    return rssItems.map(item => ({
+      title: text(item, 'title'),
+      link: text(item, 'link'),
+      guid: text(item, 'guid'),
+      description: text(item, 'description'),
+      company: text(item, 'author') || text(item, 'creator'),
+      location: text(item, 'location'),
+      type: text(item, 'jobType') || text(item, 'type'),
+      salary: text(item, 'salary'),
+      categories: Array.from(item.querySelectorAll('category')).map(c => c.textContent || ''),
+    }));
+  }
+
+  return Array.from(doc.querySelectorAll('entry')).map(entry => ({
+    title: text(entry, 'title'),
+    id: text(entry, 'id'),
+    link: entry.querySelector('link')?.getAttribute('href') || '',
+    description: text(entry, 'content') || text(entry, 'summary'),
+    company: text(entry, 'author > name'),
+    location: text(entry, 'location'),
+    categories: Array.from(entry.querySelectorAll('category')).map(c => c.getAttribute('term') || ''),
+  }));
+};
+
+const fetchText = async (url: string, signal?: AbortSignal): Promise<{ body: string; contentType: string }> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with status ${response.status}.`);
+  }
+  return { body: await response.text(), contentType: response.headers.get('content-type') || '' };
+};
+
+const extractRecords = (payload: unknown, listKey?: string): RawJobRecord[] => {
+  if (Array.isArray(payload)) return payload as RawJobRecord[];
+  if (payload && typeof payload === 'object') {
+    const obj = payload as Record<string, unknown>;
+    const list = listKey ? obj[listKey] : obj.jobs ?? obj.results ?? obj.data ?? obj.items;
+    if (Array.isArray(list)) return list as RawJobRecord[];
+  }
+  throw new Error('Response did not contain a list of jobs.');
+};
+
+export const createGeminiProvider = (): JobSourceProvider => ({
+  id: 'gemini',
+  name: 'Gemini (AI-generated)',
+  fetchJobs: async (filters, signal, options) => {
+    const jobs = await findJobs(filters, { signal, refresh: options?.refresh });
+    return jobs.map(job => ({
+      ...job,
+      sources: ['Gemini (AI-generated)'],
+      provenance: Object.fromEntries(JOB_FIELDS.filter(field => field !== 'salaryRange' || job.salaryRange).map(field => [field, 'ai-generated'])),
+    }));
+  },
+});
+
+export const createLocalFeedProvider = (url: string, name = 'Local feed'): JobSourceProvider => ({
+  id: `local-${hashString(url)}`,
+  name,
+  fetchJobs: async (filters, signal) => {
+    const { body, contentType } = await fetchText(url, signal);
+    const isCsv = contentType.includes('csv') || url.toLowerCase().endsWith('.csv');
+    const records = isCsv ? parseCsv(body) : extractRecords(JSON.parse(body));
+    return records
+      .map(record => toJob(record, `local-${hashString(url)}`, name))
+      .filter((job): job is Job => job !== null && matchesFilters(job, filters));
+  },
+});
+
+export const createRssFeedProvider = (url: string, name = new URL(url, window.location.href).hostname): JobSourceProvider => ({
+  id: `rss-${hashString(url)}`,
+  name,
+  fetchJobs: async (filters, signal) => {
+    const { body } = await fetchText(url, signal);
+    return parseFeedXml(body)
+      .map(record => toJob(record, `rss-${hashString(url)}`, name))
+      .filter((job): job is Job => job !== null && matchesFilters(job, filters));
+  },
+});
+
+export interface JsonEndpointOptions {
+  name?: string;
+  // Property of the response object that holds the job array, when it is not the top-level value.
+  listKey?: string;
+}
+
+export const createJsonEndpointProvider = (url: string, options: JsonEndpointOptions = {}): JobSourceProvider => {
+  const name = options.name || new URL(url, window.location.href).hostname;
+  const id = `api-${hashString(url)}`;
+  return {
+    id,
+    name,
+    fetchJobs: async (filters, signal) => {
+      const endpoint = new URL(url, window.location.href);
+      if (filters.query) endpoint.searchParams.set('q', filters.query);
+      if (filters.location) endpoint.searchParams.set('location', filters.location);
+      if (filters.type) endpoint.searchParams.set('type', filters.type);
+      const { body } = await fetchText(endpoint.toString(), signal);
+      return extractRecords(JSON.parse(body), options.listKey)
+        .map(record => toJob(record, id, name))
+        .filter((job): job is Job => job !== null && matchesFilters(job, filters));
+    },
+  };
+};
+
+const splitList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+/**
+ * Builds the provider list from build-time configuration. Gemini is always enabled;
+ * the feed-based providers are only added when their URL is configured in .env.local.
+ */
+export const getDefaultProviders = (): JobSourceProvider[] => {
+  const providers: JobSourceProvider[] = [createGeminiProvider()];
+  splitList(process.env.JOB_FEED_URLS).forEach(url => providers.push(createLocalFeedProvider(url)));
+  splitList(process.env.JOB_RSS_FEEDS).forEach(url => providers.push(createRssFeedProvider(url)));
+  splitList(process.env.JOB_API_URLS).forEach(url => providers.push(createJsonEndpointProvider(url)));
+  return providers;
+};
+
+/**
+ * Runs every provider concurrently. `onUpdate` is called whenever a provider changes state,
+ * together with the jobs it returned, so callers can render results as each source finishes.
+ * A failing provider is reported in its status and never rejects the whole search.
+ */
+export const searchAllSources = async (
+  filters: SearchFilters,
+  providers: JobSourceProvider[],
+  onUpdate: (statuses: JobSourceStatus[], newJobs: Job[]) => void,
+  signal?: AbortSignal,
+  options: FetchOptions = {},
+): Promise<Job[]> => {
+  const statuses: JobSourceStatus[] = providers.map(p => ({ id: p.id, name: p.name, state: 'loading', jobCount: 0 }));
+  const update = (id: string, patch: Partial<JobSourceStatus>, newJobs: Job[] = []) => {
+    const index = statuses.findIndex(s => s.id === id);
+    statuses[index] = { ...statuses[index], ...patch };
+    onUpdate([...statuses], newJobs);
+  };
+  onUpdate([...statuses], []);
+
+  const results = await Promise.all(providers.map(async provider => {
+    try {
+      const jobs = await provider.fetchJobs(filters, signal, options);
+      update(provider.id, { state: 'done', jobCount: jobs.length }, jobs);
+      return jobs;
+    } catch (error) {
+      // A cancelled search isn't a provider failure.
+      if (!isAbortError(error)) console.error(`Error fetching jobs from ${provider.name}:`, error);
+      update(provider.id, { state: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+      return [];
+    }
+  }));
+
+  if (providers.length > 0 && statuses.every(s => s.state === 'error')) {
+    throw new Error('Failed to fetch job listings from every configured source.');
+  }
+  return results.flat();
+};
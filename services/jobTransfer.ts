@@ -0,0 +1,225 @@
+import type { Job, JobField, Application } from '../types';
+import { ApplicationStage } from '../types';
+import { parseCsv, toCsv } from './csv';
+import type { JobValidationResult } from './jobValidation';
+import { validateJob } from './jobValidation';
+import { findJobPostingNodes, jobFromJobPosting, jobsToJsonLd } from './jobPosting';
+import { withParsedSalary } from './salary';
+
+export const EXPORT_FORMAT = 'ai-job-finder';
+export const EXPORT_VERSION = 1;
+
+export interface JobExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  jobs: Job[];
+  applications: Application[];
+}
+
+export interface ImportConflict {
+  existing: Job;
+  incoming: Job;
+}
+
+export interface ImportReport {
+  added: Job[];
+  unchanged: Job[];
+  conflicts: ImportConflict[];
+  invalid: { index: number; errors: string[] }[];
+  applications: Application[];
+}
+
+const CSV_HEADERS = ['id', 'title', 'company', 'location', 'type', 'salaryRange', 'skills', 'description', 'sources', 'stage', 'notes'];
+
+export const exportJobsAsJson = (jobs: Job[], applications: Record<string, Application>): string => {
+  const payload: JobExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    jobs,
+    applications: jobs.map(job => applications[job.id]).filter((a): a is Application => Boolean(a)),
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+export const exportJobsAsCsv = (jobs: Job[], applications: Record<string, Application>): string =>
+  toCsv(CSV_HEADERS, jobs.map(job => [
+    job.id,
+    job.title,
+    job.company,
+    job.location,
+    job.type,
+    job.salaryRange ?? '',
+    job.skills.join('; '),
+    job.description,
+    (job.sources ?? []).join('; '),
+    applications[job.id]?.stage ?? '',
+    applications[job.id]?.notes ?? '',
+  ]));
+
+export const exportJobsAsJsonLd = (jobs: Job[]): string => JSON.stringify(jobsToJsonLd(jobs), null, 2);
+
+// RFC 5545 text escaping and 75-octet line folding.
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  for (let i = 0; i < line.length; i += 73) {
+    chunks.push(line.slice(i, i + 73));
+  }
+  return chunks.join('\r\n ');
+};
+
+const toIcsDate = (iso: string): string => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const exportEventsAsIcs = (jobs: Job[], applications: Record<string, Application>): string => {
+  const stamp = toIcsDate(new Date().toISOString());
+  const events = jobs.flatMap(job => (applications[job.id]?.events ?? []).map(event => {
+    const start = new Date(event.date);
+    const end = new Date(start.getTime() + (event.kind === 'interview' ? 60 : 15) * 60 * 1000);
+    const label = event.kind === 'interview' ? 'Interview' : 'Follow up';
+    return [
+      'BEGIN:VEVENT',
+      `UID:${event.id}@ai-job-finder`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${toIcsDate(start.toISOString())}`,
+      `DTEND:${toIcsDate(end.toISOString())}`,
+      `SUMMARY:${escapeIcsText(`${label}: ${job.title} at ${job.company}`)}`,
+      `DESCRIPTION:${escapeIcsText(event.note || `${job.title} · ${job.company} · ${job.location}`)}`,
+      'END:VEVENT',
+    ];
+  }));
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AI Job Finder//Applications//EN',
+    'CALSCALE:GREGORIAN',
+    ...events.flat(),
+    'END:VCALENDAR',
+  ].map(foldIcsLine).join('\r\n');
+};
+
+const csvRowToRecord = (row: Record<string, string>): Record<string, unknown> => ({
+  ...row,
+  skills: row.skills ? row.skills.split(';').map(s => s.trim()).filter(Boolean) : [],
+  sources: row.sources ? row.sources.split(';').map(s => s.trim()).filter(Boolean) : undefined,
+  salaryRange: row.salaryRange || undefined,
+});
+
+// CSV files and older exports only carry the salary text. Reuse the saved job's parse when the
+// text matches, so re-importing an export doesn't look like a conflict.
+const withSalary = (job: Job, existing: Job | undefined): Job => {
+  if (job.salary || !job.salaryRange) return job;
+  if (existing?.salary && existing.salaryRange === job.salaryRange) return { ...job, salary: existing.salary };
+  return withParsedSalary(job);
+};
+
+// JobPostings have nowhere to keep where a job was found, how its salary was worded or where its
+// values came from, so keep the saved job's when they still apply.
+const withLocalDetails = (job: Job, existing: Job | undefined): Job => {
+  if (!existing) return job;
+  const result = { ...job };
+  if (existing.salaryRange && JSON.stringify(existing.salary) === JSON.stringify(job.salary)) result.salaryRange = existing.salaryRange;
+  if (existing.sources) result.sources = existing.sources;
+  const provenance = Object.entries(existing.provenance ?? {})
+    .filter(([field]) => JSON.stringify(result[field as JobField]) === JSON.stringify(existing[field as JobField]));
+  if (provenance.length > 0) result.provenance = Object.fromEntries(provenance);
+  return result;
+};
+
+const isSameJob = (a: Job, b: Job): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const isApplication = (value: unknown): value is Application => {
+  if (!value || typeof value !== 'object') return false;
+  const application = value as Application;
+  return typeof application.jobId === 'string'
+    && Object.values(ApplicationStage).includes(application.stage)
+    && Array.isArray(application.history)
+    && Array.isArray(application.contacts)
+    && typeof application.notes === 'string';
+};
+
+/**
+ * Parses an exported JSON or CSV file, or a JSON-LD file of schema.org JobPostings, and sorts every record into added, unchanged, conflicting
+ * (same id, different content) or invalid, without touching the existing list.
+ */
+export const readImportFile = (fileName: string, text: string, existingJobs: Job[]): ImportReport => {
+  let records: unknown[];
+  let isJsonLd = false;
+  let applications: Application[] = [];
+
+  if (fileName.toLowerCase().endsWith('.csv')) {
+    const rows = parseCsv(text);
+    records = rows.map(csvRowToRecord);
+    applications = rows
+      .filter(row => row.id && Object.values(ApplicationStage).includes(row.stage as ApplicationStage))
+      .map(row => ({
+        jobId: row.id,
+        stage: row.stage as ApplicationStage,
+        history: [{ stage: row.stage as ApplicationStage, changedAt: new Date().toISOString() }],
+        contacts: [],
+        notes: row.notes ?? '',
+      }));
+  } else {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+    const postings = findJobPostingNodes(payload);
+    if (postings.length > 0) {
+      records = postings;
+      isJsonLd = true;
+    } else if (Array.isArray(payload)) {
+      records = payload;
+    } else if (payload && typeof payload === 'object' && (payload as JobExport).format === EXPORT_FORMAT) {
+      const exported = payload as JobExport;
+      if (exported.version > EXPORT_VERSION) {
+        throw new Error(`This file was exported by a newer version of the app (format v${exported.version}).`);
+      }
+      records = Array.isArray(exported.jobs) ? exported.jobs : [];
+      applications = (Array.isArray(exported.applications) ? exported.applications : []).filter(isApplication);
+    } else {
+      throw new Error('The file does not contain an exported job list or schema.org JobPostings.');
+    }
+  }
+
+  const toJob: (record: unknown) => JobValidationResult = isJsonLd ? jobFromJobPosting : validateJob;
+  const existingById = new Map(existingJobs.map(job => [job.id, job]));
+  const report: ImportReport = { added: [], unchanged: [], conflicts: [], invalid: [], applications: [] };
+  const seen = new Set<string>();
+
+  records.forEach((record, index) => {
+    const { job: validated, errors } = toJob(record);
+    if (!validated) {
+      report.invalid.push({ index, errors });
+      return;
+    }
+    const existing = existingById.get(validated.id);
+    const job = isJsonLd ? withLocalDetails(validated, existing) : withSalary(validated, existing);
+    if (seen.has(job.id)) {
+      report.invalid.push({ index, errors: [`Duplicate id "${job.id}" in the imported file.`] });
+      return;
+    }
+    seen.add(job.id);
+    if (!existing) report.added.push(job);
+    else if (isSameJob(existing, job)) report.unchanged.push(job);
+    else report.conflicts.push({ existing, incoming: job });
+  });
+
+  report.applications = applications.filter(application => seen.has(application.jobId));
+  return report;
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
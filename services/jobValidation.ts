@@ -0,0 +1,203 @@
+import type { FieldProvenance, Job, JobField, Salary, SalaryPeriod } from '../types';
+import { jobContentKey } from './hash';
+import { parseSalary } from './salary';
+
+export const JOB_TYPES: Job['type'][] = ['Full-time', 'Part-time', 'Contract', 'Internship'];
+
+export const JOB_FIELDS: JobField[] = ['title', 'company', 'location', 'type', 'description', 'skills', 'salaryRange'];
+
+const FIELD_PROVENANCES: FieldProvenance[] = ['ai-extracted', 'ai-generated', 'user-edited'];
+
+export interface JobValidationResult {
+  job: Job | null;
+  errors: string[];
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const SALARY_PERIODS: SalaryPeriod[] = ['hourly', 'daily', 'weekly', 'monthly', 'annual'];
+
+const isSalary = (value: unknown): value is Salary => {
+  if (!value || typeof value !== 'object') return false;
+  const salary = value as Record<string, unknown>;
+  return typeof salary.min === 'number' && typeof salary.max === 'number' && salary.min <= salary.max
+    && typeof salary.currency === 'string' && /^[A-Z]{3}$/.test(salary.currency)
+    && SALARY_PERIODS.includes(salary.period as SalaryPeriod)
+    && typeof salary.isEstimate === 'boolean';
+};
+
+const isProvenance = (value: unknown): value is Job['provenance'] =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+  && Object.entries(value as Record<string, unknown>).every(([field, provenance]) =>
+    JOB_FIELDS.includes(field as JobField) && FIELD_PROVENANCES.includes(provenance as FieldProvenance));
+
+/**
+ * Strictly checks that an unknown value has the shape of a `Job`. Nothing is coerced:
+ * any problem is reported and `job` is null.
+ */
+export const validateJob = (value: unknown): JobValidationResult => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { job: null, errors: ['Record is not an object.'] };
+  }
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  (['id', 'title', 'company', 'location', 'description'] as const).forEach(field => {
+    if (!isNonEmptyString(record[field])) errors.push(`"${field}" must be a non-empty string.`);
+  });
+  if (!JOB_TYPES.includes(record.type as Job['type'])) {
+    errors.push(`"type" must be one of ${JOB_TYPES.join(', ')}.`);
+  }
+  if (!Array.isArray(record.skills) || !record.skills.every(isNonEmptyString)) {
+    errors.push('"skills" must be a list of strings.');
+  }
+  if (record.salaryRange !== undefined && record.salaryRange !== null && typeof record.salaryRange !== 'string') {
+    errors.push('"salaryRange" must be a string when present.');
+  }
+  if (record.salary !== undefined && !isSalary(record.salary)) {
+    errors.push('"salary" must have numeric min and max, a currency code, a period and isEstimate when present.');
+  }
+  if (record.sources !== undefined && (!Array.isArray(record.sources) || !record.sources.every(isNonEmptyString))) {
+    errors.push('"sources" must be a list of strings when present.');
+  }
+  if (record.provenance !== undefined && !isProvenance(record.provenance)) {
+    errors.push(`"provenance" must map job fields to one of ${FIELD_PROVENANCES.join(', ')} when present.`);
+  }
+
+  if (errors.length > 0) return { job: null, errors };
+
+  const job: Job = {
+    id: record.id as string,
+    title: record.title as string,
+    company: record.company as string,
+    location: record.location as string,
+    type: record.type as Job['type'],
+    description: record.description as string,
+    skills: record.skills as string[],
+  };
+  if (typeof record.salaryRange === 'string' && record.salaryRange) job.salaryRange = record.salaryRange;
+  if (record.salary !== undefined) job.salary = record.salary as Salary;
+  if (Array.isArray(record.sources)) job.sources = record.sources as string[];
+  if (record.provenance !== undefined) job.provenance = record.provenance as Job['provenance'];
+  return { job, errors };
+};
+
+// Upper bounds for model-written fields, so one runaway response can't bloat the UI or storage.
+const FIELD_LIMITS = { title: 150, company: 120, location: 120, description: 8000, salaryRange: 80 } as const;
+const MAX_SKILLS = 15;
+const MAX_SKILL_LENGTH = 40;
+
+/**
+ * Maps the many ways an employment type gets written ("full time", "FULL_TIME", "Contractor",
+ * "Intern") onto the four supported values. Returns null when the value is not recognised.
+ */
+export const coerceJobType = (value: unknown): Job['type'] | null => {
+  if (typeof value !== 'string') return null;
+  const normalized = value.toLowerCase().replace(/[\s_]+/g, '-');
+  if (normalized.includes('part')) return 'Part-time';
+  if (['contract', 'freelance', 'temporary', 'temp', 'fixed-term', 'consult'].some(word => normalized.includes(word))) return 'Contract';
+  if (normalized.includes('intern') || normalized.includes('apprentice')) return 'Internship';
+  if (['full', 'permanent', 'regular', 'fte'].some(word => normalized.includes(word))) return 'Full-time';
+  return null;
+};
+
+const truncate = (text: string, limit: number): string => {
+  if (text.length <= limit) return text;
+  const cut = text.slice(0, limit - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > limit * 0.8 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+const cleanString = (value: unknown, limit: number): string =>
+  typeof value === 'string' || typeof value === 'number' ? truncate(String(value).replace(/\s+/g, ' ').trim(), limit) : '';
+
+const cleanSkills = (value: unknown): string[] => {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;]/) : [];
+  const seen = new Set<string>();
+  return list
+    .map(skill => cleanString(skill, MAX_SKILL_LENGTH))
+    .filter(skill => {
+      const key = skill.toLowerCase();
+      if (!skill || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SKILLS);
+};
+
+// Problems with a hand-edited skill list, which is held to the same limits as the model's.
+export const validateSkillList = (skills: string[]): string[] => {
+  const errors: string[] = [];
+  if (skills.length === 0) errors.push('List at least one skill.');
+  if (skills.length > MAX_SKILLS) errors.push(`List at most ${MAX_SKILLS} skills.`);
+  const tooLong = skills.filter(skill => skill.length > MAX_SKILL_LENGTH);
+  if (tooLong.length > 0) errors.push(`Skills must be at most ${MAX_SKILL_LENGTH} characters: ${tooLong.join(', ')}.`);
+  const duplicates = skills.filter((skill, index) => skills.findIndex(other => other.toLowerCase() === skill.toLowerCase()) !== index);
+  if (duplicates.length > 0) errors.push(`Skills are listed more than once: ${[...new Set(duplicates)].join(', ')}.`);
+  return errors;
+};
+
+/**
+ * Lenient counterpart to `validateJob` for model output: trims and limits fields, coerces the
+ * employment type and skill list, parses the salary text (as an estimate), and derives a stable
+ * id from the content (the model's id is ignored). A missing type falls back to Full-time; other
+ * missing or unusable fields are errors.
+ */
+export const normalizeJob = (value: unknown): JobValidationResult => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { job: null, errors: ['Record is not an object.'] };
+  }
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const title = cleanString(record.title, FIELD_LIMITS.title);
+  const company = cleanString(record.company, FIELD_LIMITS.company);
+  const location = cleanString(record.location, FIELD_LIMITS.location);
+  // Keep paragraph breaks in descriptions; only trim and limit them.
+  const description = typeof record.description === 'string' ? truncate(record.description.trim(), FIELD_LIMITS.description) : '';
+  ([['title', title], ['company', company], ['location', location], ['description', description]] as const).forEach(([field, text]) => {
+    if (!text) errors.push(`"${field}" must be a non-empty string.`);
+  });
+
+  const hasType = record.type !== undefined && record.type !== null && record.type !== '';
+  const type = hasType ? coerceJobType(record.type) : 'Full-time';
+  if (!type) errors.push(`"type" must be one of ${JOB_TYPES.join(', ')}, got ${JSON.stringify(record.type)}.`);
+
+  const skills = cleanSkills(record.skills);
+  if (skills.length === 0) errors.push('"skills" must list at least one skill.');
+
+  if (errors.length > 0) return { job: null, errors };
+
+  const job: Job = { id: '', title, company, location, type: type!, description, skills };
+  const salaryRange = cleanString(record.salaryRange, FIELD_LIMITS.salaryRange);
+  if (salaryRange) {
+    job.salaryRange = salaryRange;
+    const salary = parseSalary(salaryRange, { isEstimate: true });
+    if (salary) job.salary = salary;
+  }
+  job.id = `ai-${jobContentKey(job)}`;
+  return { job, errors };
+};
+
+export interface NormalizedJobs {
+  jobs: Job[];
+  rejected: { index: number; errors: string[] }[];
+}
+
+// Normalises a list of model-written jobs, keeping ids unique when two listings have the same content.
+export const normalizeJobs = (values: unknown[]): NormalizedJobs => {
+  const result: NormalizedJobs = { jobs: [], rejected: [] };
+  const ids = new Set<string>();
+  values.forEach((value, index) => {
+    const { job, errors } = normalizeJob(value);
+    if (!job) {
+      result.rejected.push({ index, errors });
+      return;
+    }
+    let id = job.id;
+    for (let n = 2; ids.has(id); n++) id = `${job.id}-${n}`;
+    ids.add(id);
+    result.jobs.push({ ...job, id });
+  });
+  return result;
+};
@@ -0,0 +1,50 @@
+import type { LLMOperation } from '../types';
+import type { PromptInput } from './prompts';
+
+// A provider-neutral subset of JSON Schema; each backend converts it to its own format.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  nullable?: boolean;
+}
+
+export interface LLMAttachment {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMRequest {
+  operation: LLMOperation;
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  attachments?: LLMAttachment[];
+  // When set, the backend is asked for JSON matching this schema.
+  responseSchema?: JsonSchema;
+  // What the prompt was built from; the app server rebuilds the prompt from it (see `buildPrompt`).
+  input?: PromptInput;
+  signal?: AbortSignal;
+  // Called with the token counts when the backend reports them.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LLMClient {
+  // Resolves with the complete response text.
+  generate(request: LLMRequest): Promise<string>;
+  // Like `generate`, calling `onChunk` with the full text received so far as it arrives.
+  stream(request: LLMRequest, onChunk: (textSoFar: string) => void): Promise<string>;
+}
+
+export const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+// Checks the name only: a DOMException is not always an `Error` instance (e.g. from another realm).
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
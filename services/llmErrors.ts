@@ -0,0 +1,105 @@
+import { isAbortError } from './llmClient';
+
+interface LLMErrorOptions {
+  status?: number;
+  cause?: unknown;
+}
+
+/**
+ * A failed model call. Subclasses tell apart the failures the UI handles differently; the
+ * base class covers everything else, with a message for the operation that failed.
+ */
+export class LLMError extends Error {
+  readonly status?: number;
+  // Whether the same request may succeed if sent again after a pause.
+  readonly retryable: boolean = false;
+
+  constructor(message: string, { status, cause }: LLMErrorOptions = {}) {
+    super(message, { cause });
+    this.name = 'LLMError';
+    this.status = status;
+  }
+}
+
+// Too many requests in a short time (HTTP 429). Retried after `retryAfterMs` when the service says how long to wait.
+export class RateLimitError extends LLMError {
+  override name = 'RateLimitError';
+  override readonly retryable = true;
+  readonly retryAfterMs?: number;
+
+  constructor(message = 'The AI service is receiving too many requests. Please wait a moment and try again.', options: LLMErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// A daily or billing quota is used up; retrying won't help until it resets.
+export class QuotaExceededError extends LLMError {
+  override name = 'QuotaExceededError';
+
+  constructor(message = 'The AI service quota has been used up. Check your plan and billing, or switch backends in Settings.', options: LLMErrorOptions = {}) {
+    super(message, options);
+  }
+}
+
+// A 5xx response or a network failure, which usually clears up by itself.
+export class ServiceUnavailableError extends LLMError {
+  override name = 'ServiceUnavailableError';
+  override readonly retryable = true;
+
+  constructor(message = 'The AI service is temporarily unavailable. Please try again shortly.', options: LLMErrorOptions = {}) {
+    super(message, options);
+  }
+}
+
+// A missing, invalid or unauthorised API key.
+export class AuthenticationError extends LLMError {
+  override name = 'AuthenticationError';
+
+  constructor(message = 'The AI service rejected the API key. Check it in Settings.', options: LLMErrorOptions = {}) {
+    super(message, options);
+  }
+}
+
+// Quota messages name a daily limit or billing; per-minute limits are only rate limiting.
+const QUOTA_PATTERN = /per ?day|billing|insufficient_quota|exceeded your current quota/i;
+
+// Reads the status from SDK errors (`status`), and from messages such as "got status: 503" or "responded with status 429".
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status;
+  const match = error instanceof Error ? error.message.match(/\bstatus:? (\d{3})\b/) : null;
+  return match ? Number(match[1]) : undefined;
+};
+
+// Gemini puts the suggested delay in the error details, e.g. `"retryDelay": "38s"`.
+const retryAfterOf = (error: unknown): number | undefined => {
+  const match = error instanceof Error ? error.message.match(/retryDelay"?:\s*"?(\d+(?:\.\d+)?)s/) : null;
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Turns an error from any backend into the matching `LLMError` subclass. Cancellations and
+ * other errors, such as a 400 for a bad request, are returned unchanged.
+ */
+export const classifyLLMError = (error: unknown): unknown => {
+  if (error instanceof LLMError || isAbortError(error)) return error;
+  const status = statusOf(error);
+  const options = { status, cause: error };
+  if (status === 429) {
+    return error instanceof Error && QUOTA_PATTERN.test(error.message)
+      ? new QuotaExceededError(undefined, options)
+      : new RateLimitError(undefined, { ...options, retryAfterMs: retryAfterOf(error) });
+  }
+  if (status === 401 || status === 403) return new AuthenticationError(undefined, options);
+  if (status !== undefined && status >= 500) return new ServiceUnavailableError(undefined, options);
+  // fetch rejects with a TypeError when the server can't be reached at all.
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) {
+    return new ServiceUnavailableError('Could not reach the AI service. Check your connection and try again.', options);
+  }
+  return error;
+};
+
+// Keeps errors the UI can act on; anything else is reported with the operation's own message.
+export const toServiceError = (error: unknown, message: string): LLMError =>
+  error instanceof LLMError ? error : new LLMError(message, { cause: error });
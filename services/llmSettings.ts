@@ -0,0 +1,113 @@
+import type { LLMBackendId, LLMOperation, LLMSettings } from '../types';
+import type { LLMClient } from './llmClient';
+import { createOpenAiClient } from './openAiClient';
+import { createProxyClient } from './proxyClient';
+import { createMockClient } from './mockClient';
+
+export const LLM_BACKENDS: { id: LLMBackendId; name: string }[] = [
+  { id: 'gemini', name: 'Google Gemini' },
+  { id: 'openai', name: 'OpenAI-compatible server' },
+  { id: 'mock', name: 'Offline mock' },
+];
+
+export const LLM_OPERATIONS: { id: LLMOperation; name: string }[] = [
+  { id: 'search', name: 'Job search' },
+  { id: 'insight', name: 'Insights' },
+  { id: 'resume', name: 'Resume analysis' },
+  { id: 'match', name: 'Match scoring' },
+  { id: 'coverLetter', name: 'Cover letters' },
+  { id: 'parse', name: 'Posting parser' },
+];
+
+const STORAGE_KEY = 'llmSettings';
+
+const DEFAULT_MODELS: LLMSettings['models'] = {
+  gemini: {
+    search: 'gemini-2.5-flash',
+    insight: 'gemini-2.5-flash',
+    resume: 'gemini-2.5-pro',
+    match: 'gemini-2.5-flash',
+    coverLetter: 'gemini-2.5-pro',
+    parse: 'gemini-2.5-pro',
+  },
+  openai: {
+    search: 'llama3.1',
+    insight: 'llama3.1',
+    resume: 'llama3.1',
+    match: 'llama3.1',
+    coverLetter: 'llama3.1',
+    parse: 'llama3.1',
+  },
+  mock: {
+    search: 'mock',
+    insight: 'mock',
+    resume: 'mock',
+    match: 'mock',
+    coverLetter: 'mock',
+    parse: 'mock',
+  },
+};
+
+export const getDefaultLLMSettings = (): LLMSettings => ({
+  // Without a key on the app server the app starts on the mock backend instead of failing every request.
+  backend: process.env.HAS_SERVER_API_KEY ? 'gemini' : 'mock',
+  geminiApiKey: '',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiApiKey: '',
+  models: DEFAULT_MODELS,
+});
+
+const loadSettings = (): LLMSettings => {
+  const defaults = getDefaultLLMSettings();
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as Partial<LLMSettings> | null;
+    if (!stored) return defaults;
+    // Merge per backend so operations added in later versions pick up their default model.
+    const models = Object.fromEntries(
+      LLM_BACKENDS.map(({ id }) => [id, { ...defaults.models[id], ...stored.models?.[id] }])
+    ) as LLMSettings['models'];
+    return { ...defaults, ...stored, models };
+  } catch (error) {
+    console.error("Error loading AI settings", error);
+    return defaults;
+  }
+};
+
+let currentSettings = loadSettings();
+let currentClient: LLMClient | null = null;
+let clientOverride: LLMClient | null = null;
+
+export const getLLMSettings = (): LLMSettings => currentSettings;
+
+export const saveLLMSettings = (settings: LLMSettings) => {
+  currentSettings = settings;
+  currentClient = null;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+const createClient = (settings: LLMSettings): LLMClient => {
+  switch (settings.backend) {
+    case 'openai':
+      return createOpenAiClient({ baseUrl: settings.openAiBaseUrl, apiKey: settings.openAiApiKey });
+    case 'mock':
+      return createMockClient();
+    default:
+      // Requests always go through the app server, with the personal key if one is set.
+      return createProxyClient({ apiKey: settings.geminiApiKey || undefined });
+  }
+};
+
+// The client for the backend currently selected in Settings, rebuilt whenever the settings change.
+export const getLLMClient = (): LLMClient => {
+  if (clientOverride) return clientOverride;
+  currentClient ??= createClient(currentSettings);
+  return currentClient;
+};
+
+// Replaces the configured backend until reset with null; the test suite uses this to replay fixtures.
+export const setLLMClientOverride = (client: LLMClient | null) => {
+  clientOverride = client;
+};
+
+export const modelFor = (operation: LLMOperation): string =>
+  currentSettings.models[currentSettings.backend][operation];
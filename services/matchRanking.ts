@@ -0,0 +1,83 @@
+import type { Job, Resume } from '../types';
+import { scoreResumeMatch, isAbortError } from './geminiService';
+import { jobContentKey } from './hash';
+import { saveMatchScore } from './storage';
+import { AuthenticationError, QuotaExceededError } from './llmErrors';
+
+export interface RankingProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  // Why the run gave up early, when an error means every remaining job would fail too.
+  stoppedBecause?: string;
+}
+
+export interface RankingOptions {
+  // Scores already known for this resume, keyed by `jobContentKey`; those jobs are skipped.
+  cachedScores: Record<string, number>;
+  onScore: (jobKey: string, score: number) => void;
+  onProgress: (progress: RankingProgress) => void;
+  signal?: AbortSignal;
+  // Maximum number of scoring requests in flight at once.
+  concurrency?: number;
+  // Minimum gap between the start of two requests, to stay under the per-minute quota.
+  minIntervalMs?: number;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MIN_INTERVAL_MS = 500;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+
+/**
+ * Scores every job that has no cached score for the resume, running a small pool of workers
+ * that share one start-time throttle. New scores are persisted as they arrive so a stopped
+ * run still keeps its progress. Failed jobs are counted and left unscored.
+ */
+export const rankJobsForResume = async (jobs: Job[], resume: Resume, options: RankingOptions): Promise<void> => {
+  const { cachedScores, onScore, onProgress, signal } = options;
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const minIntervalMs = options.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS;
+
+  // The same listing can appear twice (e.g. in results and saved), so queue each key once.
+  const queue = Array.from(new Map(
+    jobs.map(job => [jobContentKey(job), job] as const).filter(([key]) => cachedScores[key] === undefined),
+  ));
+  const progress: RankingProgress = { total: queue.length, completed: 0, failed: 0 };
+  onProgress({ ...progress });
+
+  let nextStart = 0;
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      const [jobKey, job] = queue.shift()!;
+      const now = Date.now();
+      const startAt = Math.max(now, nextStart);
+      nextStart = startAt + minIntervalMs;
+      if (startAt > now) await wait(startAt - now, signal);
+      if (signal?.aborted) return;
+
+      try {
+        const score = await scoreResumeMatch(resume, job, signal);
+        // A stopped run's late scores may be for a resume that has since changed.
+        if (signal?.aborted) return;
+        onScore(jobKey, score);
+        saveMatchScore(jobKey, resume.id, score).catch(error => console.error("Error storing match score", error));
+        progress.completed++;
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) return;
+        progress.failed++;
+        if (error instanceof QuotaExceededError || error instanceof AuthenticationError) {
+          progress.stoppedBecause = error.message;
+          queue.length = 0;
+        }
+      }
+      onProgress({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+};
@@ -0,0 +1,98 @@
+import type { LLMOperation } from '../types';
+import type { LLMClient, LLMRequest, JsonSchema } from './llmClient';
+import { abortError } from './llmClient';
+import { hashString } from './hash';
+
+// Sample values for the fields the app's schemas ask for, picked by property name.
+const FIXTURE_VALUES: Record<string, unknown[]> = {
+  title: ['Machine Learning Engineer', 'Applied Scientist, NLP', 'AI Platform Engineer', 'Data Scientist', 'MLOps Engineer', 'Research Engineer, LLMs'],
+  company: ['Example Labs', 'Sample Robotics', 'Placeholder AI', 'Mock Analytics', 'Fixture Systems'],
+  location: ['Remote', 'San Francisco, CA', 'New York, NY', 'London, UK', 'Berlin, Germany'],
+  type: ['Full-time', 'Full-time', 'Contract', 'Part-time', 'Internship'],
+  description: [
+    'Sample listing from the offline mock backend. Build and ship machine learning features end to end, from data pipelines to model serving, working closely with product and research.',
+    'Sample listing from the offline mock backend. Train, evaluate and deploy language models for internal tools, and own the evaluation harness that keeps them reliable.',
+    'Sample listing from the offline mock backend. Design the platform our ML teams use to run experiments, track models and roll them out safely to production.',
+  ],
+  skills: [['Python', 'PyTorch', 'SQL', 'Docker', 'Kubernetes'], ['Python', 'TensorFlow', 'NLP', 'AWS', 'MLflow'], ['TypeScript', 'Python', 'LLMs', 'Vector databases', 'GCP']],
+  salaryRange: ['$120,000 - $150,000', '$140,000 - $180,000', null, '£70,000 - £90,000'],
+  matchScore: [42, 58, 67, 74, 81, 88],
+  summary: ['This is a mock analysis. The resume covers most of the core requirements but could do more to show production experience with the listed tools.'],
+  matched: [['Python', 'Machine learning', 'SQL']],
+  missing: [['Kubernetes', 'Model monitoring']],
+  emphasize: [['Experimentation', 'Team leadership']],
+  suggestion: ['Quantify the impact of your most recent project', 'Name the deployment tools you have used', 'Lead with the skills this job asks for first'],
+  rationale: ['Hiring managers scan for measurable results that match the role.', 'The job lists specific tooling, and matching it helps automated screening.'],
+  example: ['Reduced model latency by 40% by moving inference to a batched GPU service.', 'Deployed 12 models to production with Docker and Kubernetes.'],
+};
+
+const TEXT_FIXTURES: Record<LLMOperation, string> = {
+  search: 'Mock search response.',
+  insight: '- Sample insight from the offline mock backend.\n- Switch to Gemini or a local model in Settings for real output.\n- Responses here are fixed, so they are useful for trying out the interface.',
+  resume: 'Mock resume feedback from the offline mock backend.',
+  match: 'Mock match response.',
+  coverLetter: [
+    'Dear Hiring Manager,',
+    'This is a sample cover letter from the offline mock backend. It shows how a full letter is laid out, with one editable paragraph per block.',
+    'A real draft would explain how your experience fits the role, drawing on your stored resume and the emphasis you chose.',
+    'Thank you for your time and consideration. I would welcome the chance to discuss the role further.\n\nSincerely,\nYour Name',
+  ].join('\n\n'),
+  parse: 'Mock parse response.',
+};
+
+// Deterministic pick so the same prompt always yields the same response.
+const pick = <T,>(values: T[], seed: number, offset: number): T => values[(seed + offset) % values.length];
+
+const sampleFromSchema = (schema: JsonSchema, seed: number, key = '', index = 0): unknown => {
+  const fixtures = FIXTURE_VALUES[key];
+  if (fixtures && schema.type !== 'object') return pick(fixtures, seed, index);
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([name, property]) => [name, sampleFromSchema(property, seed, name, index)]));
+    case 'array': {
+      // Top-level lists (e.g. search results) get a page of items; nested ones a few.
+      const length = key ? 3 : 8;
+      return Array.from({ length }, (_, i) => sampleFromSchema(schema.items ?? { type: 'string' }, seed, key, index + i));
+    }
+    case 'integer':
+    case 'number':
+      return (seed + index) % 100;
+    case 'boolean':
+      return (seed + index) % 2 === 0;
+    default:
+      return key === 'id' ? `mock-${(seed + index).toString(36)}` : `Sample ${key || 'text'}`;
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); reject(abortError()); }, { once: true });
+  });
+
+const respond = (request: LLMRequest): string => {
+  const seed = parseInt(hashString(request.prompt), 36) || 0;
+  return request.responseSchema
+    ? JSON.stringify(sampleFromSchema(request.responseSchema, seed))
+    : TEXT_FIXTURES[request.operation];
+};
+
+/**
+ * Offline backend that answers instantly from fixed fixtures, so the app can be run and
+ * demonstrated without an API key. Structured requests get a value built from their schema.
+ */
+export const createMockClient = (): LLMClient => ({
+  generate: async (request) => {
+    await wait(150, request.signal);
+    return respond(request);
+  },
+  stream: async (request, onChunk) => {
+    const text = respond(request);
+    const CHUNK_SIZE = 40;
+    for (let end = CHUNK_SIZE; end < text.length + CHUNK_SIZE; end += CHUNK_SIZE) {
+      await wait(30, request.signal);
+      onChunk(text.slice(0, end));
+    }
+    return text;
+  },
+});
@@ -0,0 +1,121 @@
+import type { LLMClient, LLMRequest, JsonSchema } from './llmClient';
+
+interface OpenAiClientOptions {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+// OpenAI-style JSON Schema expresses optional values as a union with null.
+const toOpenAiSchema = (schema: JsonSchema): Record<string, unknown> => ({
+  type: schema.nullable ? [schema.type, 'null'] : schema.type,
+  ...(schema.description && { description: schema.description }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toOpenAiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toOpenAiSchema(value)])),
+  }),
+});
+
+const toMessages = (request: LLMRequest) => {
+  const images = (request.attachments ?? []).filter(a => a.mimeType.startsWith('image/'));
+  if (images.length < (request.attachments ?? []).length) {
+    // Chat-completions servers only accept images inline; documents have to be pasted as text.
+    throw new Error("This model server can't read PDF or Word files. Paste the text instead, or switch to Gemini in Settings.");
+  }
+  let prompt = request.prompt;
+  if (request.responseSchema) {
+    // Not every local server enforces `response_format`, so the schema is spelled out in the prompt too.
+    prompt += `\n\nRespond only with JSON matching this schema:\n${JSON.stringify(toOpenAiSchema(request.responseSchema))}`;
+  }
+  const content = images.length === 0 ? prompt : [
+    { type: 'text', text: prompt },
+    ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+  ];
+  return [
+    ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+    { role: 'user', content },
+  ];
+};
+
+// Some models wrap JSON answers in a markdown code fence despite being told not to.
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1');
+
+/**
+ * Talks to any server implementing the OpenAI chat-completions API, such as Ollama
+ * (`http://localhost:11434/v1`) or the llama.cpp server (`http://localhost:8080/v1`).
+ */
+export const createOpenAiClient = ({ baseUrl, apiKey }: OpenAiClientOptions): LLMClient => {
+  const post = async (request: LLMRequest, stream: boolean) => {
+    if (!baseUrl) {
+      throw new Error("No server URL is configured for the OpenAI-compatible backend. Add one in Settings.");
+    }
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: toMessages(request),
+        stream,
+        // Asks for a final chunk with token counts; servers that don't support it ignore the option.
+        ...(stream && { stream_options: { include_usage: true } }),
+        ...(request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: request.operation, schema: toOpenAiSchema(request.responseSchema) },
+          },
+        }),
+      }),
+      signal: request.signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Model server responded with status ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}.`);
+    }
+    return response;
+  };
+
+  const finish = (request: LLMRequest, text: string) => request.responseSchema ? stripCodeFence(text) : text;
+
+  const reportUsage = (request: LLMRequest, usage: { prompt_tokens?: number; completion_tokens?: number } | undefined) => {
+    if (usage) request.onUsage?.({ inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 });
+  };
+
+  return {
+    generate: async (request) => {
+      const response = await post(request, false);
+      const payload = await response.json();
+      reportUsage(request, payload.usage);
+      return finish(request, payload.choices?.[0]?.message?.content ?? '');
+    },
+    stream: async (request, onChunk) => {
+      const response = await post(request, true);
+      if (!response.body) throw new Error('Model server returned an empty response.');
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      let text = '';
+      // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`.
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          const event = JSON.parse(data);
+          reportUsage(request, event.usage ?? undefined);
+          const delta = event.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onChunk(text);
+          }
+        }
+      }
+      return finish(request, text);
+    },
+  };
+};
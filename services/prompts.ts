@@ -0,0 +1,266 @@
+import type { SearchFilters, Job, CoverLetterOptions } from '../types';
+import { InsightType } from '../types';
+import { COVER_LETTER_LENGTHS } from './coverLetters';
+import type { LLMAttachment, LLMRequest, JsonSchema } from './llmClient';
+import type { ExtractedJobFields } from './jobIngestion';
+import { POSTING_FIELDS, missingPostingFields } from './jobIngestion';
+
+// The prompts for every operation, built from typed input. Both the browser and the app server
+// build them from here, so the server only relays requests the app itself would make.
+
+export type PromptRequest = Omit<LLMRequest, 'model' | 'signal'>;
+
+// The job fields the prompts use.
+export type JobText = Pick<Job, 'title' | 'company' | 'location' | 'description' | 'skills'>;
+
+export type ResumeInput = { text?: string; file?: { data: string; mimeType: string } };
+
+// What one request may carry; the app server rejects anything bigger, so input is trimmed to fit first.
+export const INPUT_LIMITS = { field: 500, document: 100_000, skills: 100, problems: 20, problem: 1000 } as const;
+
+const clip = (text: string, limit: number) => text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+
+// The job fields the prompts use, trimmed to the request limits.
+export const toJobText = (job: JobText): JobText => ({
+  title: clip(job.title, INPUT_LIMITS.field),
+  company: clip(job.company, INPUT_LIMITS.field),
+  location: clip(job.location, INPUT_LIMITS.field),
+  description: clip(job.description, INPUT_LIMITS.document),
+  skills: job.skills.slice(0, INPUT_LIMITS.skills).map(skill => clip(skill, INPUT_LIMITS.field)),
+});
+
+// The problems a retry reports, trimmed to the request limits; the first ones are kept.
+export const toProblems = (problems: string[]): string[] =>
+  problems.slice(0, INPUT_LIMITS.problems).map(problem => clip(problem, INPUT_LIMITS.problem));
+
+/**
+ * What a request is about, one shape per operation. `problems` lists what was wrong with the
+ * model's previous answer, for a retry that asks it to fix them.
+ */
+export type PromptInput =
+  | { operation: 'search'; filters: SearchFilters; problems?: string[] }
+  | { operation: 'insight'; job: JobText; insightType: InsightType }
+  | { operation: 'resume'; job: JobText; resume: ResumeInput }
+  | { operation: 'match'; job: JobText; resume: ResumeInput }
+  | { operation: 'coverLetter'; job: JobText; resume?: ResumeInput; options: CoverLetterOptions; rewrite?: { paragraphs: string[]; index: number; instruction: string } }
+  | { operation: 'parse'; text: string; extracted: ExtractedJobFields; attachment?: LLMAttachment; problems?: string[] };
+
+export const jobSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'A unique identifier for the job' },
+    title: { type: 'string', description: 'The title of the job position' },
+    company: { type: 'string', description: 'The name of the company hiring' },
+    location: { type: 'string', description: 'The location of the job (e.g., "San Francisco, CA")' },
+    type: { type: 'string', description: 'The type of employment (e.g., "Full-time")' },
+    description: { type: 'string', description: 'A detailed description of the job responsibilities and requirements' },
+    skills: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'A list of key skills required for the job'
+    },
+    salaryRange: { type: 'string', description: 'An estimated salary range (e.g., "$120,000 - $150,000")', nullable: true },
+  },
+  required: ['id', 'title', 'company', 'location', 'type', 'description', 'skills'],
+};
+
+const resumeAnalysisSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    matchScore: { type: 'integer', description: 'How well the resume matches the job, from 0 (no match) to 100 (perfect match)' },
+    summary: { type: 'string', description: 'A 2-3 sentence summary of how well the resume aligns with the job' },
+    keywords: {
+      type: 'object',
+      properties: {
+        matched: { type: 'array', items: { type: 'string' }, description: 'Important job keywords that the resume already covers well' },
+        missing: { type: 'array', items: { type: 'string' }, description: 'Critical job keywords and skills missing from the resume' },
+        emphasize: { type: 'array', items: { type: 'string' }, description: 'Keywords present in the resume that should be highlighted more' },
+      },
+      required: ['matched', 'missing', 'emphasize'],
+    },
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          suggestion: { type: 'string', description: 'A specific, actionable change to the resume' },
+          rationale: { type: 'string', description: 'Why this change matters for this job' },
+          example: { type: 'string', description: 'Example wording, e.g. a rephrased bullet point' },
+        },
+        required: ['suggestion', 'rationale', 'example'],
+      },
+    },
+  },
+  required: ['matchScore', 'summary', 'keywords', 'suggestions'],
+};
+
+// Prompt plus resume, attaching a file or appending pasted text.
+const withResume = (promptText: string, resume: ResumeInput): Pick<LLMRequest, 'prompt' | 'attachments'> => {
+  if (resume.file) {
+    return { prompt: promptText, attachments: [{ mimeType: resume.file.mimeType, data: resume.file.data }] };
+  }
+  if (resume.text) {
+    return { prompt: `${promptText}\n\n**User's Resume:**\n${resume.text}` };
+  }
+  throw new Error('No resume provided.');
+};
+
+// Appended to a prompt when its first answer failed validation, so the retry can fix the problems.
+const withValidationFeedback = (prompt: string, problems: string[] = []) => problems.length === 0 ? prompt : `${prompt}
+
+    Your previous response could not be used because of these problems:
+    ${problems.map(problem => `- ${problem}`).join('\n    ')}
+    Return a corrected response that fixes every problem.`;
+
+const describeJob = (job: JobText) => `Title: ${job.title}
+    Company: ${job.company}
+    Location: ${job.location}
+    Description: ${job.description}
+    Required Skills: ${job.skills.join(', ')}`;
+
+const coverLetterBrief = (options: CoverLetterOptions) => {
+  const length = COVER_LETTER_LENGTHS[options.length];
+  return `- Tone: ${options.tone}
+    - Length: ${length.paragraphs} paragraphs, about ${length.words} words in total
+    - Emphasize: ${options.emphasis.trim() || 'whatever makes the candidate the strongest fit'}`;
+};
+
+const searchPrompt = ({ filters, problems }: Extract<PromptInput, { operation: 'search' }>): PromptRequest => ({
+  operation: 'search',
+  prompt: withValidationFeedback(`Find AI-related jobs based on the following criteria and rank them by relevance:
+    - Keywords: ${filters.query || 'any'}
+    - Location: ${filters.location || 'any'}
+    - Job Type: ${filters.type || 'any'}
+    - Desired Salary: ${filters.salary || 'any'}
+    - Work Location Preference: ${filters.workLocation || 'any'}
+    - Target Industry: ${filters.industry || 'any'}
+    
+    Generate between 8 and 12 realistic but fictional job listings that are the best match for these criteria. The most relevant jobs should appear first.`, problems),
+  systemInstruction: "You are an AI Job Board API. Your purpose is to generate realistic, fictional job listings based on user queries. Respond ONLY with a valid JSON array matching the provided schema. Do not include any introductory text, markdown formatting, or explanations.",
+  responseSchema: {
+    type: 'array',
+    items: jobSchema,
+  },
+});
+
+const insightPrompt = ({ job, insightType }: Extract<PromptInput, { operation: 'insight' }>): PromptRequest => {
+  switch (insightType) {
+    case InsightType.SUMMARY:
+      return { operation: 'insight', prompt: `Summarize the key responsibilities and qualifications from the following job description in 3-4 concise bullet points:\n\n---\n\n${job.description}` };
+    case InsightType.SKILLS:
+      return { operation: 'insight', prompt: `Based on this job description, list the top 5 most important technical skills as a comma-separated list. Only list the skills.\n\n---\n\n${job.description}` };
+    case InsightType.COVER_LETTER:
+      return { operation: 'insight', prompt: `Write a compelling and professional opening paragraph (2-3 sentences) for a cover letter for the role of '${job.title}' at '${job.company}'. The paragraph should be concise and express enthusiasm for the role and the company based on the provided job description.\n\n---\n\n${job.description}` };
+    default:
+      throw new Error('Invalid insight type');
+  }
+};
+
+const resumePrompt = ({ job, resume }: Extract<PromptInput, { operation: 'resume' }>): PromptRequest => ({
+  operation: 'resume',
+  ...withResume(`
+    As an expert career coach and resume writer, analyze the following resume against the provided job description.
+
+    **Job Description:**
+    Title: ${job.title}
+    Company: ${job.company}
+    Description: ${job.description}
+    Required Skills: ${job.skills.join(', ')}
+
+    **User's Resume is provided as a file attachment or as text below.**
+
+    ---
+
+    Provide a detailed analysis:
+    - matchScore: an integer from 0 to 100 rating how well the resume fits the role.
+    - summary: 2-3 sentences on how well the resume aligns with the job description.
+    - keywords: the job's important keywords split into those the resume already matches, those that are missing, and those that are present but should be emphasized more.
+    - suggestions: 3-5 specific, actionable suggestions for tailoring the resume. For each, explain *why* it's important and give an example of how to phrase it, such as a bullet point rephrased to include metrics or technologies from the job description.
+  `, resume),
+  systemInstruction: "You are an expert career coach and resume writer. Respond ONLY with a single valid JSON object matching the provided schema. Do not include any introductory text, markdown formatting, or explanations.",
+  responseSchema: resumeAnalysisSchema,
+});
+
+const matchPrompt = ({ job, resume }: Extract<PromptInput, { operation: 'match' }>): PromptRequest => ({
+  operation: 'match',
+  ...withResume(`Rate from 0 to 100 how well the candidate's resume matches this job. 100 means an ideal fit for every requirement.
+
+    Title: ${job.title}
+    Company: ${job.company}
+    Description: ${job.description}
+    Required Skills: ${job.skills.join(', ')}`, resume),
+  responseSchema: {
+    type: 'object',
+    properties: { matchScore: { type: 'integer', description: 'Match score from 0 to 100' } },
+    required: ['matchScore'],
+  },
+});
+
+// A whole letter, or with `rewrite` one paragraph of an existing letter that still flows with the rest.
+const coverLetterPrompt = ({ job, resume, options, rewrite }: Extract<PromptInput, { operation: 'coverLetter' }>): PromptRequest => {
+  const promptText = rewrite ? `Here is a cover letter for the following job, with its paragraphs numbered.
+
+    **Job:**
+    ${describeJob(job)}
+
+    **Letter style:**
+    ${coverLetterBrief(options)}
+
+    **Letter:**
+    ${rewrite.paragraphs.map((p, i) => `[${i + 1}] ${p}`).join('\n\n')}
+
+    Rewrite paragraph [${rewrite.index + 1}] only, keeping it consistent with the rest of the letter.${rewrite.instruction.trim() ? ` Additional instruction: ${rewrite.instruction.trim()}` : ''}
+    Respond with the new paragraph text only, without the number, quotes or any commentary.` : `Write a complete cover letter for the following job${resume ? ", tailored to the candidate's resume" : ''}.
+
+    **Job:**
+    ${describeJob(job)}
+
+    **Requirements:**
+    ${coverLetterBrief(options)}
+    - Start with a greeting such as "Dear Hiring Manager," and end with a sign-off paragraph.
+    - Only claim experience that appears in the resume. Do not invent employers, titles or numbers.
+    - Separate paragraphs with a single blank line. Output plain text only, no markdown or placeholders in brackets.`;
+  return { operation: 'coverLetter', ...(resume ? withResume(promptText, resume) : { prompt: promptText }) };
+};
+
+// Asks only for the fields the document didn't state.
+const parsePrompt = ({ text, extracted, attachment, problems }: Extract<PromptInput, { operation: 'parse' }>): PromptRequest => {
+  const missing = missingPostingFields(extracted);
+  const isPartial = missing.length < POSTING_FIELDS.length;
+  const prompt = `
+      Analyze the following job posting ${attachment ? 'document' : 'text'} and extract the key information.
+      If a specific piece of information (like salaryRange) is not present, omit the field or set it to null.
+      The 'type' should be one of 'Full-time', 'Part-time', 'Contract', or 'Internship'. If you can't determine it, default to 'Full-time'.
+      The location should be specific (e.g., "San Francisco, CA" or "Remote").
+      Generate a list of 5-10 relevant skills based on the description.
+      ${isPartial ? `Only these fields are needed: ${missing.join(', ')}.` : 'Generate a plausible but random ID for the job.'}
+
+      ${attachment && !text ? 'The job posting is attached.' : `Job Posting Text:
+      ---
+      ${text}
+      ---`}
+    `;
+  return {
+    operation: 'parse',
+    prompt: withValidationFeedback(prompt, problems),
+    attachments: attachment ? [attachment] : undefined,
+    systemInstruction: "You are an expert job description parser. Your task is to extract job details from raw text and respond ONLY with a single valid JSON object matching the provided schema. Do not include any introductory text, markdown formatting, or explanations.",
+    responseSchema: isPartial ? {
+      type: 'object',
+      properties: Object.fromEntries(missing.map(field => [field, jobSchema.properties![field]])),
+      required: missing.filter(field => jobSchema.required!.includes(field)),
+    } : jobSchema,
+  };
+};
+
+// The prompt, system instruction, attachments and response schema for `input`.
+export const buildPrompt = (input: PromptInput): PromptRequest => {
+  switch (input.operation) {
+    case 'search': return searchPrompt(input);
+    case 'insight': return insightPrompt(input);
+    case 'resume': return resumePrompt(input);
+    case 'match': return matchPrompt(input);
+    case 'coverLetter': return coverLetterPrompt(input);
+    case 'parse': return parsePrompt(input);
+  }
+};
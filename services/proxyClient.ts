@@ -0,0 +1,109 @@
+import type { LLMOperation } from '../types';
+import type { LLMClient, LLMRequest, TokenUsage } from './llmClient';
+import { AuthenticationError, LLMError, QuotaExceededError, RateLimitError, ServiceUnavailableError } from './llmErrors';
+import type { PromptInput } from './prompts';
+
+// One endpoint per service operation, e.g. `POST /api/search` for `findJobs`.
+export const API_PATHS: Record<LLMOperation, string> = {
+  search: 'search',
+  insight: 'insight',
+  resume: 'resume-analysis',
+  match: 'match-score',
+  coverLetter: 'cover-letter',
+  parse: 'parse-job',
+};
+
+// Carries a personal Gemini key from Settings; the server uses it for that request only and never stores or logs it.
+export const API_KEY_HEADER = 'x-gemini-api-key';
+
+// The server builds the prompt from `input` itself, so it only relays the app's own requests.
+export interface ApiRequestBody {
+  model: string;
+  input: PromptInput;
+  stream: boolean;
+}
+
+export interface ApiErrorBody {
+  // The `LLMError` subclass to rethrow in the browser, or 'Error' for anything unclassified.
+  name: string;
+  message: string;
+  retryAfterMs?: number;
+}
+
+// A successful response is newline-delimited JSON: text deltas, then the token counts if known.
+// A failure after the response has started arrives as a final `error` event.
+export type ApiEvent = { text: string } | { usage: TokenUsage } | { error: ApiErrorBody };
+
+// Rebuilds the error the server reported, so callers see the same types as with a direct client.
+const fromApiError = ({ name, message, retryAfterMs }: ApiErrorBody, status: number): Error => {
+  const options = { status };
+  switch (name) {
+    case 'RateLimitError': return new RateLimitError(message, { ...options, retryAfterMs });
+    case 'QuotaExceededError': return new QuotaExceededError(message, options);
+    case 'ServiceUnavailableError': return new ServiceUnavailableError(message, options);
+    case 'AuthenticationError': return new AuthenticationError(message, options);
+    case 'LLMError': return new LLMError(message, options);
+    default: return new Error(message);
+  }
+};
+
+interface ProxyClientOptions {
+  // Origin of the app server; empty for the one serving the page.
+  baseUrl?: string;
+  // A personal Gemini key to use instead of the server's.
+  apiKey?: string;
+}
+
+/**
+ * Sends Gemini requests to the app server, which holds the API key, instead of calling Gemini
+ * from the browser.
+ */
+export const createProxyClient = ({ baseUrl = '', apiKey }: ProxyClientOptions = {}): LLMClient => {
+  const send = async (request: LLMRequest, onChunk?: (textSoFar: string) => void): Promise<string> => {
+    if (!request.input) throw new Error('Only requests built with `buildPrompt` can be sent to the app server.');
+    const body: ApiRequestBody = { model: request.model, input: request.input, stream: !!onChunk };
+    const response = await fetch(`${baseUrl}/api/${API_PATHS[request.operation]}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(apiKey && { [API_KEY_HEADER]: apiKey }) },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null) as { error?: ApiErrorBody } | null;
+      throw payload?.error
+        ? fromApiError(payload.error, response.status)
+        : new Error(`The app server responded with status ${response.status}.`);
+    }
+    if (!response.body) throw new Error('The app server returned an empty response.');
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    const handle = (line: string) => {
+      if (!line.trim()) return;
+      const event = JSON.parse(line) as ApiEvent;
+      if ('error' in event) throw fromApiError(event.error, response.status);
+      if ('usage' in event) {
+        request.onUsage?.(event.usage);
+        return;
+      }
+      text += event.text;
+      onChunk?.(text);
+    };
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handle);
+    }
+    handle(buffer);
+    return text;
+  };
+
+  return {
+    generate: (request) => send(request),
+    stream: (request, onChunk) => send(request, onChunk),
+  };
+};
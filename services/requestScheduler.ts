@@ -0,0 +1,102 @@
+import { abortError } from './llmClient';
+import { LLMError, RateLimitError, classifyLLMError } from './llmErrors';
+
+export interface RequestSchedulerOptions {
+  // Most requests running at once; the rest wait in order.
+  maxConcurrent: number;
+  // Retries after the first attempt, for errors that may clear up by themselves.
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  random?: () => number;
+}
+
+export interface ScheduledCallOptions {
+  signal?: AbortSignal;
+  // Called before each retry with the error that caused it and the pause before the next attempt.
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+export interface RequestScheduler {
+  run: <T>(task: () => Promise<T>, options?: ScheduledCallOptions) => Promise<T>;
+}
+
+// "Full jitter": a random pause up to the exponential cap, so clients that failed together don't retry together.
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, random: () => number = Math.random): number =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    if (ms <= 0) return resolve();
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+
+/**
+ * Runs model requests with a cap on how many are in flight, retrying rate limits and transient
+ * failures with exponential backoff. A rate limit also holds back every other request until its
+ * pause is over. Errors are rethrown as `LLMError` subclasses where they can be classified.
+ */
+export const createRequestScheduler = ({ maxConcurrent, maxRetries, baseDelayMs, maxDelayMs, random = () => Math.random() }: RequestSchedulerOptions): RequestScheduler => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  let pausedUntil = 0;
+
+  const acquire = (signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+      if (active < maxConcurrent) {
+        active++;
+        return resolve();
+      }
+      const start = () => {
+        signal?.removeEventListener('abort', cancel);
+        active++;
+        resolve();
+      };
+      const cancel = () => {
+        waiting.splice(waiting.indexOf(start), 1);
+        reject(abortError());
+      };
+      waiting.push(start);
+      signal?.addEventListener('abort', cancel, { once: true });
+    });
+
+  const release = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  return {
+    run: async <T>(task: () => Promise<T>, { signal, onRetry }: ScheduledCallOptions = {}): Promise<T> => {
+      for (let attempt = 0; ; attempt++) {
+        let delayMs: number;
+        await acquire(signal);
+        try {
+          await sleep(pausedUntil - Date.now(), signal);
+          return await task();
+        } catch (raw) {
+          const error = classifyLLMError(raw);
+          if (signal?.aborted || !(error instanceof LLMError) || !error.retryable || attempt >= maxRetries) throw error;
+          delayMs = backoffDelay(attempt, baseDelayMs, maxDelayMs, random);
+          if (error instanceof RateLimitError) {
+            delayMs = Math.max(delayMs, error.retryAfterMs ?? 0);
+            pausedUntil = Math.max(pausedUntil, Date.now() + delayMs);
+          }
+          onRetry?.(error, attempt + 1, delayMs);
+        } finally {
+          release();
+        }
+        await sleep(delayMs, signal);
+      }
+    },
+  };
+};
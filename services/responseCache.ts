@@ -0,0 +1,159 @@
+import { abortError } from './llmClient';
+
+export interface ResponseCacheOptions {
+  // Largest number of entries kept; the least recently used go first.
+  maxEntries: number;
+  // Rough cap on the total size of cached values, in characters of their JSON.
+  maxSize: number;
+  now?: () => number;
+}
+
+export interface CachedCallOptions {
+  ttlMs: number;
+  // Skips a cached value and stores the fresh one in its place.
+  refresh?: boolean;
+  signal?: AbortSignal;
+  // Called with the full text so far while a streamed value arrives, or once with a cached value.
+  onChunk?: (textSoFar: string) => void;
+}
+
+// Produces the value for a cache miss. `onChunk` fans streamed text out to every caller waiting on it.
+export type Producer<T> = (signal: AbortSignal, onChunk: (textSoFar: string) => void) => Promise<T>;
+
+export interface ResponseCache {
+  run: <T>(key: string, produce: Producer<T>, options: CachedCallOptions) => Promise<T>;
+  // Drops every entry whose key starts with `prefix`, or all of them.
+  clear: (prefix?: string) => void;
+  readonly size: number;
+}
+
+interface Entry {
+  value: unknown;
+  size: number;
+  expiresAt: number;
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  textSoFar: string;
+  listeners: Set<(textSoFar: string) => void>;
+  waiting: number;
+}
+
+/**
+ * In-memory cache for model responses with a time to live, least-recently-used eviction and
+ * de-duplication: callers asking for a key that is already being produced share that request.
+ * Only successful values are stored. A caller that aborts stops waiting; the shared request is
+ * cancelled once nobody is waiting for it.
+ */
+export const createResponseCache = ({ maxEntries, maxSize, now = Date.now }: ResponseCacheOptions): ResponseCache => {
+  // Map order is insertion order, so re-inserting on every hit keeps the least recently used first.
+  const entries = new Map<string, Entry>();
+  const inFlight = new Map<string, InFlight>();
+  let totalSize = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    totalSize -= entry.size;
+    entries.delete(key);
+  };
+
+  const lookup = (key: string): Entry | undefined => {
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+    remove(key);
+    if (entry.expiresAt <= now()) return undefined;
+    entries.set(key, entry);
+    totalSize += entry.size;
+    return entry;
+  };
+
+  const store = (key: string, value: unknown, ttlMs: number) => {
+    remove(key);
+    const size = (JSON.stringify(value) ?? '').length;
+    if (size > maxSize) return;
+    entries.set(key, { value, size, expiresAt: now() + ttlMs });
+    totalSize += size;
+    for (const oldest of entries.keys()) {
+      if (entries.size <= maxEntries && totalSize <= maxSize) break;
+      remove(oldest);
+    }
+  };
+
+  const start = <T>(key: string, produce: Producer<T>, ttlMs: number): InFlight => {
+    const controller = new AbortController();
+    const request: InFlight = { promise: Promise.resolve(), controller, textSoFar: '', listeners: new Set(), waiting: 0 };
+    const onChunk = (textSoFar: string) => {
+      request.textSoFar = textSoFar;
+      request.listeners.forEach(listener => listener(textSoFar));
+    };
+    // Started on the next tick, so the first caller is listening before any text streams in.
+    request.promise = Promise.resolve()
+      .then(() => produce(controller.signal, onChunk))
+      .then(value => {
+        store(key, value, ttlMs);
+        return value;
+      })
+      .finally(() => {
+        if (inFlight.get(key) === request) inFlight.delete(key);
+      });
+    // Nobody may be left waiting, e.g. after every caller aborted.
+    request.promise.catch(() => {});
+    inFlight.set(key, request);
+    return request;
+  };
+
+  const join = <T>(request: InFlight, { signal, onChunk }: CachedCallOptions): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      request.waiting++;
+      if (onChunk) {
+        request.listeners.add(onChunk);
+        if (request.textSoFar) onChunk(request.textSoFar);
+      }
+      let hasLeft = false;
+      // Returns false when this caller already stopped waiting.
+      const leave = () => {
+        if (hasLeft) return false;
+        hasLeft = true;
+        signal?.removeEventListener('abort', handleAbort);
+        if (onChunk) request.listeners.delete(onChunk);
+        request.waiting--;
+        return true;
+      };
+      const handleAbort = () => {
+        if (!leave()) return;
+        if (request.waiting === 0) request.controller.abort();
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', handleAbort);
+      request.promise.then(
+        value => { if (leave()) resolve(value as T); },
+        error => { if (leave()) reject(error); },
+      );
+    });
+
+  return {
+    run: async <T>(key: string, produce: Producer<T>, options: CachedCallOptions): Promise<T> => {
+      if (options.signal?.aborted) throw abortError();
+      const pending = inFlight.get(key);
+      // A request already on its way is as fresh as a regenerated one, so even `refresh` joins it.
+      if (pending && !pending.controller.signal.aborted) return join<T>(pending, options);
+      const cached = options.refresh ? undefined : lookup(key);
+      if (cached) {
+        if (typeof cached.value === 'string') options.onChunk?.(cached.value);
+        return cached.value as T;
+      }
+      return join<T>(start(key, produce, options.ttlMs), options);
+    },
+
+    clear: (prefix = '') => {
+      [...entries.keys()].filter(key => key.startsWith(prefix)).forEach(remove);
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import type { ResumeAnalysis, TailoringSuggestion } from '../types';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const toStringList = (value: unknown, field: string, errors: string[]): string[] => {
+  if (!Array.isArray(value)) {
+    errors.push(`"${field}" must be a list.`);
+    return [];
+  }
+  return value.filter(isString).map(s => s.trim()).filter(Boolean);
+};
+
+/**
+ * Checks a model response against the `ResumeAnalysis` shape. The score is clamped to 0-100
+ * and rounded, and incomplete suggestions are dropped; anything structurally wrong throws.
+ */
+export const validateResumeAnalysis = (value: unknown): ResumeAnalysis => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Resume analysis is not an object.');
+  }
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const score = typeof record.matchScore === 'number' ? record.matchScore : Number(record.matchScore);
+  if (!Number.isFinite(score)) errors.push('"matchScore" must be a number.');
+  if (!isString(record.summary) || !record.summary.trim()) errors.push('"summary" must be a non-empty string.');
+
+  const keywords = (record.keywords && typeof record.keywords === 'object' ? record.keywords : {}) as Record<string, unknown>;
+  const matched = toStringList(keywords.matched, 'keywords.matched', errors);
+  const missing = toStringList(keywords.missing, 'keywords.missing', errors);
+  const emphasize = toStringList(keywords.emphasize, 'keywords.emphasize', errors);
+
+  if (!Array.isArray(record.suggestions)) errors.push('"suggestions" must be a list.');
+  const suggestions = (Array.isArray(record.suggestions) ? record.suggestions : [])
+    .filter((s): s is TailoringSuggestion => Boolean(s) && isString(s.suggestion) && isString(s.rationale) && isString(s.example));
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid resume analysis: ${errors.join(' ')}`);
+  }
+
+  return {
+    matchScore: Math.round(Math.min(100, Math.max(0, score))),
+    summary: (record.summary as string).trim(),
+    keywords: { matched, missing, emphasize },
+    suggestions,
+  };
+};
+
+export const matchLabel = (score: number): string => {
+  if (score >= 80) return 'Strong Match';
+  if (score >= 60) return 'Good Match';
+  if (score >= 40) return 'Partial Match';
+  return 'Needs Improvement';
+};
@@ -0,0 +1,23 @@
+import type { ResumeFile } from '../types';
+
+export const RESUME_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+export const RESUME_FILE_ACCEPT = `.pdf,.docx,${RESUME_MIME_TYPES.join(',')}`;
+
+export const readResumeFile = (file: File): Promise<ResumeFile> =>
+  new Promise((resolve, reject) => {
+    if (!RESUME_MIME_TYPES.includes(file.type)) {
+      reject(new Error('Invalid file type. Please upload a PDF or DOCX file.'));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const dataUrl = e.target?.result as string;
+      resolve({ name: file.name, data: dataUrl.split(',')[1], mimeType: file.type });
+    };
+    reader.onerror = () => reject(new Error('Failed to read the file.'));
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,98 @@
+import type { SearchFilters } from '../types';
+import { coerceJobType } from './jobValidation';
+import { readFacetParams, writeFacetParams } from './jobFacets';
+import type { FacetSelection } from './jobFacets';
+import { isJobSortOrder } from './jobSorting';
+import type { JobSortOrder } from './jobSorting';
+
+export type View = 'search' | 'saved' | 'board' | 'profile' | 'usage' | 'settings';
+
+const VIEWS: View[] = ['search', 'saved', 'board', 'profile', 'usage', 'settings'];
+
+// The work preferences the search form offers.
+const WORK_LOCATIONS = ['Remote', 'Hybrid', 'On-site'];
+
+// Views that list jobs, and so have a page, facets and a sort order.
+const LIST_VIEWS: View[] = ['search', 'saved'];
+
+// Query parameter for each search filter. Facets already use `type` and `location`, so these differ.
+const FILTER_PARAMS: [keyof SearchFilters, string][] = [
+  ['query', 'q'],
+  ['location', 'where'],
+  ['type', 'jobType'],
+  ['salary', 'salary'],
+  ['workLocation', 'workplace'],
+  ['industry', 'industry'],
+];
+
+/**
+ * Everything needed to put the app back where it was: the view, the search (on the search
+ * view only), the page and list filters, and the job open in the detail modal.
+ */
+export interface AppRoute {
+  view: View;
+  // Missing when the URL names no search, so the caller can fall back to the last one.
+  filters?: SearchFilters;
+  page: number;
+  facets: FacetSelection;
+  sort: JobSortOrder;
+  jobId?: string;
+}
+
+export const isListView = (view: View): boolean => LIST_VIEWS.includes(view);
+
+export const sameFilters = (a: SearchFilters, b: SearchFilters): boolean =>
+  FILTER_PARAMS.every(([key]) => a[key] === b[key]);
+
+// The search in `params`, with a job type or work preference the search form doesn't offer read as "any".
+const readFilters = (params: URLSearchParams): SearchFilters => {
+  const param = (key: keyof SearchFilters) => params.get(FILTER_PARAMS.find(([filter]) => filter === key)![1]) ?? '';
+  const workLocation = param('workLocation');
+  return {
+    query: param('query'),
+    location: param('location'),
+    type: coerceJobType(param('type')) ?? '',
+    salary: param('salary'),
+    workLocation: WORK_LOCATIONS.includes(workLocation) ? workLocation : '',
+    industry: param('industry'),
+  };
+};
+
+// Reads a route from a query string such as `window.location.search`; anything unrecognised falls back to the defaults.
+export const parseRoute = (search: string): AppRoute => {
+  const params = new URLSearchParams(search);
+  const view = VIEWS.find(v => v === params.get('view')) ?? 'search';
+  const hasFilters = view === 'search' && FILTER_PARAMS.some(([, param]) => params.has(param));
+  const page = Number(params.get('page'));
+  const sort = params.get('sort');
+  const listed = isListView(view);
+  return {
+    view,
+    filters: hasFilters ? readFilters(params) : undefined,
+    page: listed && Number.isInteger(page) && page > 1 ? page : 1,
+    facets: listed ? readFacetParams(params) : {},
+    sort: listed && isJobSortOrder(sort) ? sort : 'relevance',
+    jobId: params.get('job') || undefined,
+  };
+};
+
+// The query string for a route, including the leading `?`, or an empty string for the default route.
+export const formatRoute = (route: AppRoute): string => {
+  let params = new URLSearchParams();
+  if (route.view !== 'search') params.set('view', route.view);
+  if (route.view === 'search' && route.filters) {
+    // `q` is always written, even when empty, so a shared search isn't mixed with the reader's last one.
+    const filters = route.filters;
+    FILTER_PARAMS.forEach(([key, param]) => {
+      if (filters[key] || key === 'query') params.set(param, filters[key]);
+    });
+  }
+  if (isListView(route.view)) {
+    params = writeFacetParams(params, route.facets);
+    if (route.sort !== 'relevance') params.set('sort', route.sort);
+    if (route.page > 1) params.set('page', String(route.page));
+  }
+  if (route.jobId) params.set('job', route.jobId);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
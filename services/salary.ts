@@ -0,0 +1,180 @@
+import type { Job, Salary, SalaryPeriod } from '../types';
+
+// Units of one US dollar in each currency. Override or extend with EXCHANGE_RATES in .env.local,
+// e.g. "EUR=0.92,GBP=0.79".
+const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1, EUR: 0.92, GBP: 0.79, CAD: 1.37, AUD: 1.52, NZD: 1.66, CHF: 0.88, JPY: 150,
+  INR: 83, SGD: 1.35, HKD: 7.8, SEK: 10.6, NOK: 10.7, DKK: 6.9, PLN: 4,
+};
+
+const parseRateTable = (value: string | undefined): Record<string, number> =>
+  Object.fromEntries((value || '').split(',').flatMap(entry => {
+    const [code, rate] = entry.split('=').map(part => part.trim());
+    const parsed = Number(rate);
+    return code && parsed > 0 ? [[code.toUpperCase(), parsed]] : [];
+  }));
+
+export const EXCHANGE_RATES: Record<string, number> = { ...DEFAULT_EXCHANGE_RATES, ...parseRateTable(process.env.EXCHANGE_RATES) };
+
+// Currency that salaries are converted to for filtering, sorting and the "≈ per year" hints.
+export const DISPLAY_CURRENCY = (process.env.SALARY_CURRENCY || 'USD').toUpperCase();
+
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = { hourly: 2080, daily: 260, weekly: 52, monthly: 12, annual: 1 };
+
+// Longest first, so "CA$" wins over "$".
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'], ['CA$', 'CAD'], ['C$', 'CAD'], ['AU$', 'AUD'], ['A$', 'AUD'], ['NZ$', 'NZD'], ['S$', 'SGD'], ['HK$', 'HKD'],
+  ['$', 'USD'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₹', 'INR'],
+];
+
+const escapeRegExp = (text: string) => text.replace(/[$]/g, '\\$');
+const CURRENCY = `(${[
+  ...CURRENCY_SYMBOLS.map(([symbol]) => escapeRegExp(symbol)),
+  ...Object.keys(DEFAULT_EXCHANGE_RATES).map(code => `(?<![A-Za-z])${code}(?![A-Za-z])`),
+].join('|')})`;
+// "120,000", "120.000", "120 000", "72.50" or "120", optionally followed by k or m.
+const AMOUNT = '(\\d{1,3}(?:[,.\\u00a0 ]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d+)?)(\\s?[kKmM](?![A-Za-z]))?';
+const SALARY_PATTERN = new RegExp(
+  `(?:${CURRENCY}\\s?)?${AMOUNT}(?:\\s*(?:-|–|—|to)\\s*(?:${CURRENCY}\\s?)?${AMOUNT})?(?:\\s?${CURRENCY})?`,
+  'g'
+);
+
+const PERIOD_PATTERNS: [SalaryPeriod, RegExp][] = [
+  ['hourly', /\b(?:hour|hourly|hr|ph)\b|\/\s?h\b/i],
+  ['daily', /\b(?:day|daily|diem)\b/i],
+  ['weekly', /\b(?:week|weekly|wk)\b/i],
+  ['monthly', /\b(?:month|monthly|mo|pcm)\b/i],
+  ['annual', /\b(?:year|yearly|yr|annum|annual|annually|pa|p\.a)\b/i],
+];
+
+const ESTIMATE_PATTERN = /\b(?:est|estimated?|approx|approximately|circa)\b|~/i;
+
+const currencyCode = (token: string | undefined): string | undefined =>
+  token && (CURRENCY_SYMBOLS.find(([symbol]) => symbol === token)?.[1] ?? token.toUpperCase());
+
+const toNumber = (digits: string, suffix: string | undefined): number => {
+  // In "120.000,50" the first separator groups thousands; whatever is left is the decimal point.
+  const grouped = digits.match(/^\d{1,3}([,.\u00a0 ])\d{3}/);
+  const normalized = (grouped ? digits.split(grouped[1]).join('') : digits).replace(',', '.');
+  const multiplier = /m/i.test(suffix ?? '') ? 1e6 : /k/i.test(suffix ?? '') ? 1e3 : 1;
+  return Number(normalized) * multiplier;
+};
+
+// Without a stated period, guess from the size of the number.
+const inferPeriod = (amount: number): SalaryPeriod => {
+  if (amount < 300) return 'hourly';
+  if (amount < 2000) return 'daily';
+  if (amount < 20000) return 'monthly';
+  return 'annual';
+};
+
+export interface ParseSalaryOptions {
+  isEstimate?: boolean;
+  // Only accept amounts marked with a currency, to skip numbers like "5+ years" in a full posting.
+  requireCurrency?: boolean;
+  // Used when the text names no currency.
+  defaultCurrency?: string;
+}
+
+/**
+ * Reads a salary such as "$120,000 - $150,000", "€55k–65k per year", "£500/day" or
+ * "USD 60-75 an hour". Returns null when there is no usable amount.
+ */
+export const parseSalary = (text: string, options: ParseSalaryOptions = {}): Salary | null => {
+  for (const match of text.matchAll(SALARY_PATTERN)) {
+    const [matched, currency1, digits1, suffix1, currency2, digits2, suffix2, currency3] = match;
+    const currency = currencyCode(currency1 ?? currency2 ?? currency3);
+    if (options.requireCurrency && !currency) continue;
+
+    let max = digits2 ? toNumber(digits2, suffix2) : toNumber(digits1, suffix1);
+    // "120-150k" applies the k to both ends.
+    let min = toNumber(digits1, suffix1 ?? (digits2 && toNumber(digits1, undefined) < 1000 ? suffix2 : undefined));
+    if (!Number.isFinite(min) || !Number.isFinite(max) || max <= 0) continue;
+    if (min > max) [min, max] = [max, min];
+
+    // Look for the period and estimate markers on the same line, just around the amount.
+    const start = match.index ?? 0;
+    const lineStart = text.lastIndexOf('\n', start) + 1;
+    const lineEnd = text.indexOf('\n', start + matched.length);
+    const context = text.slice(Math.max(lineStart, start - 30), Math.min(lineEnd === -1 ? text.length : lineEnd, start + matched.length + 25));
+
+    return {
+      min,
+      max,
+      currency: currency ?? (options.defaultCurrency ?? DISPLAY_CURRENCY),
+      period: PERIOD_PATTERNS.find(([, pattern]) => pattern.test(context))?.[0] ?? inferPeriod(max),
+      isEstimate: Boolean(options.isEstimate) || ESTIMATE_PATTERN.test(context),
+    };
+  }
+  return null;
+};
+
+// Finds a salary stated in a full job posting; only currency-marked amounts count.
+export const findSalaryInText = (text: string): Salary | null => parseSalary(text, { requireCurrency: true });
+
+// Adds a parsed `salary` to a job that only has the display text.
+export const withParsedSalary = (job: Job, isEstimate = false): Job => {
+  if (job.salary || !job.salaryRange) return job;
+  const salary = parseSalary(job.salaryRange, { isEstimate });
+  return salary ? { ...job, salary } : job;
+};
+
+export const convertAmount = (amount: number, from: string, to: string, rates = EXCHANGE_RATES): number | null => {
+  if (!rates[from] || !rates[to]) return null;
+  return (amount / rates[from]) * rates[to];
+};
+
+/**
+ * The salary as a yearly range in `currency`, assuming full-time hours. Null when the
+ * currency is missing from the rate table.
+ */
+export const annualizeSalary = (salary: Salary, currency = DISPLAY_CURRENCY, rates = EXCHANGE_RATES): { min: number; max: number } | null => {
+  const perYear = PERIODS_PER_YEAR[salary.period];
+  const min = convertAmount(salary.min * perYear, salary.currency, currency, rates);
+  const max = convertAmount(salary.max * perYear, salary.currency, currency, rates);
+  return min === null || max === null ? null : { min, max };
+};
+
+// Midpoint of the annualised range, for sorting; null when unknown.
+export const annualSalaryValue = (job: Job): number | null => {
+  const annual = job.salary && annualizeSalary(job.salary);
+  return annual ? (annual.min + annual.max) / 2 : null;
+};
+
+// The lowest yearly salary a search asks for, read from the free-text "Desired Salary" filter.
+export const desiredAnnualSalary = (text: string): number | null => {
+  const salary = text.trim() ? parseSalary(text) : null;
+  return salary ? annualizeSalary(salary)?.min ?? null : null;
+};
+
+// Jobs without a known salary always pass; the others must reach `floor` at the top of their range.
+export const meetsSalaryFloor = (job: Job, floor: number | null): boolean => {
+  if (floor === null || !job.salary) return true;
+  const annual = annualizeSalary(job.salary);
+  return !annual || annual.max >= floor;
+};
+
+const PERIOD_LABELS: Record<SalaryPeriod, string> = { hourly: 'hour', daily: 'day', weekly: 'week', monthly: 'month', annual: 'year' };
+
+const formatAmount = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: amount < 1000 ? 2 : 0 }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount).toLocaleString()}`;
+  }
+};
+
+export const formatSalary = (salary: Salary): string => {
+  const range = salary.min === salary.max
+    ? formatAmount(salary.max, salary.currency)
+    : `${formatAmount(salary.min, salary.currency)} – ${formatAmount(salary.max, salary.currency)}`;
+  return `${range} per ${PERIOD_LABELS[salary.period]}`;
+};
+
+// e.g. "≈ $124,800 – $145,600 per year", or null when the salary is already yearly in the display currency.
+export const formatAnnualEquivalent = (salary: Salary): string | null => {
+  if (salary.period === 'annual' && salary.currency === DISPLAY_CURRENCY) return null;
+  const annual = annualizeSalary(salary);
+  if (!annual) return null;
+  return `≈ ${formatSalary({ ...salary, ...annual, currency: DISPLAY_CURRENCY, period: 'annual' })}`;
+};
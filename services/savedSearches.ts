@@ -0,0 +1,183 @@
+import type { Job, JobAlert, SavedSearch, SearchFilters } from '../types';
+import type { JobSourceProvider } from './jobSources';
+import { searchAllSources } from './jobSources';
+import { jobIdentityKey, mergeJobIntoList } from './deduplication';
+import { desiredAnnualSalary, meetsSalaryFloor } from './salary';
+
+// Refresh choices offered in the UI, in minutes; null runs the search only on demand.
+export const REFRESH_INTERVALS: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: 'Manual only' },
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 240, label: 'Every 4 hours' },
+  { minutes: 1440, label: 'Daily' },
+];
+
+// Oldest keys are forgotten first, so a long-running search doesn't grow without bound.
+const MAX_SEEN_JOB_KEYS = 2000;
+
+// How often the scheduler checks whether a search is due.
+const SCHEDULER_TICK_MS = 60 * 1000;
+
+/**
+ * Creates a saved search. `currentJobs` are the results already on screen for these filters;
+ * they count as seen, so only jobs that turn up later raise alerts.
+ */
+export const createSavedSearch = (name: string, filters: SearchFilters, currentJobs: Job[] = [], refreshMinutes?: number): SavedSearch => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || filters.query || 'Untitled search',
+    filters,
+    refreshMinutes,
+    seenJobKeys: [...new Set(currentJobs.map(jobIdentityKey))],
+    // The current results stand in for a first run.
+    lastRunAt: currentJobs.length > 0 ? now : undefined,
+    createdAt: now,
+  };
+};
+
+export const describeFilters = (filters: SearchFilters): string =>
+  [filters.query, filters.location, filters.type, filters.workLocation, filters.industry, filters.salary && `from ${filters.salary}`]
+    .filter(Boolean)
+    .join(' · ');
+
+// Jobs not seen by the search before, and the updated list of seen keys.
+export const findNewMatches = (seenJobKeys: string[], jobs: Job[]): { newJobs: Job[]; seenJobKeys: string[] } => {
+  const seen = new Set(seenJobKeys);
+  const newJobs = jobs.filter(job => {
+    const key = jobIdentityKey(job);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { newJobs, seenJobKeys: [...seen].slice(-MAX_SEEN_JOB_KEYS) };
+};
+
+export const isSearchDue = (search: SavedSearch, now: number): boolean => {
+  if (!search.refreshMinutes) return false;
+  if (!search.lastRunAt) return true;
+  return now - Date.parse(search.lastRunAt) >= search.refreshMinutes * 60 * 1000;
+};
+
+// What a run changes on its search. Everything else may have been edited, or the search deleted, while it ran.
+export type SavedSearchRun = Pick<SavedSearch, 'id' | 'seenJobKeys' | 'lastRunAt' | 'lastError'>;
+
+/**
+ * Runs a saved search against every source and returns its updated seen jobs and run time,
+ * plus the jobs that are new to it. Results below the desired salary are dropped, as they are
+ * in the results list.
+ */
+export const runSavedSearch = async (
+  search: SavedSearch,
+  providers: JobSourceProvider[],
+  signal?: AbortSignal,
+): Promise<{ run: SavedSearchRun; newJobs: Job[] }> => {
+  // Always fresh, or a check right after the same search would only see cached listings.
+  const results = await searchAllSources(search.filters, providers, () => {}, signal, { refresh: true });
+  const floor = desiredAnnualSalary(search.filters.salary);
+  const jobs = results.reduce(mergeJobIntoList, [] as Job[]).filter(job => meetsSalaryFloor(job, floor));
+  const { newJobs, seenJobKeys } = findNewMatches(search.seenJobKeys, jobs);
+  return {
+    run: { id: search.id, seenJobKeys, lastRunAt: new Date().toISOString(), lastError: undefined },
+    newJobs,
+  };
+};
+
+// A failed run still counts as one, so a failing source isn't retried on every tick.
+export const failedSavedSearchRun = (search: SavedSearch, error: unknown): SavedSearchRun => ({
+  id: search.id,
+  seenJobKeys: search.seenJobKeys,
+  lastRunAt: new Date().toISOString(),
+  lastError: error instanceof Error ? error.message : 'Unknown error',
+});
+
+// Records a run on the current copy of its search, keeping keys seen by any run that finished meanwhile.
+export const applySavedSearchRun = (current: SavedSearch, run: SavedSearchRun): SavedSearch => ({
+  ...current,
+  seenJobKeys: [...new Set([...current.seenJobKeys, ...run.seenJobKeys])].slice(-MAX_SEEN_JOB_KEYS),
+  lastRunAt: run.lastRunAt,
+  lastError: run.lastError,
+});
+
+export const createJobAlerts = (search: SavedSearch, jobs: Job[]): JobAlert[] => {
+  const createdAt = new Date().toISOString();
+  return jobs.map(job => ({ id: crypto.randomUUID(), searchId: search.id, searchName: search.name, job, createdAt, read: false }));
+};
+
+export interface SchedulerOptions {
+  getSearches: () => SavedSearch[];
+  providers: JobSourceProvider[];
+  // Called after every scheduled run; a failed run reports `lastError` and no jobs.
+  onRun: (run: SavedSearchRun, newJobs: Job[]) => void;
+}
+
+/**
+ * Re-runs saved searches when their refresh interval has passed, one at a time, until the
+ * returned function is called.
+ */
+export const startSavedSearchScheduler = ({ getSearches, providers, onRun }: SchedulerOptions): (() => void) => {
+  const controller = new AbortController();
+  let isRunning = false;
+
+  const tick = async () => {
+    if (isRunning || controller.signal.aborted) return;
+    const due = getSearches().find(search => isSearchDue(search, Date.now()));
+    if (!due) return;
+    isRunning = true;
+    try {
+      const { run, newJobs } = await runSavedSearch(due, providers, controller.signal);
+      if (!controller.signal.aborted) onRun(run, newJobs);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(`Error refreshing saved search "${due.name}":`, error);
+      onRun(failedSavedSearchRun(due, error), []);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  tick();
+  const timer = window.setInterval(tick, SCHEDULER_TICK_MS);
+  return () => {
+    controller.abort();
+    window.clearInterval(timer);
+  };
+};
+
+// Asks for permission to show system notifications; call from a click so browsers allow the prompt.
+export const requestAlertPermission = async (): Promise<void> => {
+  if (!('Notification' in window) || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch (error) {
+    console.error('Error requesting notification permission', error);
+  }
+};
+
+// Shows a system notification for new matches when the user has allowed it.
+export const notifyNewMatches = (search: SavedSearch, newJobs: Job[]): void => {
+  if (newJobs.length === 0 || !('Notification' in window) || Notification.permission !== 'granted') return;
+  const [first] = newJobs;
+  new Notification(`${newJobs.length} new ${newJobs.length === 1 ? 'match' : 'matches'} for "${search.name}"`, {
+    body: newJobs.length === 1 ? `${first.title} at ${first.company}` : `${first.title} at ${first.company} and ${newJobs.length - 1} more`,
+    tag: `saved-search-${search.id}`,
+  });
+};
+
+const LAST_FILTERS_KEY = 'lastSearchFilters';
+
+// The filters of the last search, so a reload picks up where the user left off.
+export const loadLastFilters = (fallback: SearchFilters): SearchFilters => {
+  try {
+    const raw = window.localStorage.getItem(LAST_FILTERS_KEY);
+    return raw ? { ...fallback, ...JSON.parse(raw) } : fallback;
+  } catch (error) {
+    console.error('Error reading the last search filters', error);
+    return fallback;
+  }
+};
+
+export const saveLastFilters = (filters: SearchFilters): void => {
+  window.localStorage.setItem(LAST_FILTERS_KEY, JSON.stringify(filters));
+};
@@ -0,0 +1,198 @@
+import type { Job } from '../types';
+
+// How much a term counts depending on where it appears.
+const FIELD_WEIGHTS = { title: 3, skills: 2.5, company: 2, description: 1 } as const;
+type IndexedField = keyof typeof FIELD_WEIGHTS;
+
+// Words too common to narrow anything down, so "that Rust role in Berlin" searches for rust, role and berlin.
+const STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'for', 'in', 'is', 'of', 'on', 'or', 'that', 'the', 'to', 'with']);
+
+// Letters, digits and the symbols in names like C++ and C#.
+const TOKEN_PATTERN = /[\p{L}\p{N}+#]+/gu;
+
+// Lowercases and strips accents, so "Zürich" matches "zurich".
+export const normalizeTerm = (word: string): string =>
+  word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string): string[] =>
+  (text.match(TOKEN_PATTERN) ?? []).map(normalizeTerm).filter(term => term && !STOP_WORDS.has(term));
+
+/**
+ * Optimal string alignment distance (edits, counting a swap of neighbours as one), giving up
+ * as soon as it must exceed `max`.
+ */
+const editDistanceWithin = (a: string, b: string, max: number): boolean => {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return false;
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length] <= max;
+};
+
+// Longer words tolerate more typos; very short ones must match exactly or by prefix.
+const allowedTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Relative strength of each kind of match.
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.7;
+const FUZZY_MATCH = 0.5;
+
+export interface JobSearchResult {
+  job: Job;
+  score: number;
+  // Index terms that matched the query, for highlighting.
+  matchedTerms: string[];
+}
+
+export interface JobSearchIndex {
+  // Brings the index in line with `jobs`, re-indexing only jobs that were added or changed.
+  sync: (jobs: Job[]) => void;
+  search: (query: string) => JobSearchResult[];
+  readonly size: number;
+}
+
+/**
+ * In-memory inverted index over job titles, companies, descriptions and skills. Query words
+ * match index terms exactly, as prefixes (at least two letters) or with a typo or two, and
+ * results are ranked by how many query words matched, then by a field-weighted score.
+ */
+export const createJobSearchIndex = (): JobSearchIndex => {
+  // term -> job id -> weighted frequency
+  const postings = new Map<string, Map<string, number>>();
+  const indexedJobs = new Map<string, { job: Job; terms: string[] }>();
+
+  const remove = (jobId: string) => {
+    indexedJobs.get(jobId)?.terms.forEach(term => {
+      const docs = postings.get(term);
+      docs?.delete(jobId);
+      if (docs && docs.size === 0) postings.delete(term);
+    });
+    indexedJobs.delete(jobId);
+  };
+
+  const add = (job: Job) => {
+    const weights = new Map<string, number>();
+    const fields: Record<IndexedField, string> = {
+      title: job.title,
+      skills: job.skills.join(' '),
+      company: job.company,
+      description: job.description,
+    };
+    (Object.keys(fields) as IndexedField[]).forEach(field => {
+      tokenize(fields[field]).forEach(term => weights.set(term, (weights.get(term) ?? 0) + FIELD_WEIGHTS[field]));
+    });
+    weights.forEach((weight, term) => {
+      if (!postings.has(term)) postings.set(term, new Map());
+      // Dampen repetition so a word used twenty times in a description doesn't drown out the title.
+      postings.get(term)!.set(job.id, Math.log2(1 + weight));
+    });
+    indexedJobs.set(job.id, { job, terms: [...weights.keys()] });
+  };
+
+  // Index terms that a query word matches, with how strongly.
+  const expand = (word: string, isLastWord: boolean): Map<string, number> => {
+    const matches = new Map<string, number>();
+    const typos = allowedTypos(word);
+    postings.forEach((_, term) => {
+      if (term === word) matches.set(term, EXACT_MATCH);
+      // Prefixes need three letters, or two for the word still being typed, so "py" finds "python".
+      else if ((isLastWord || word.length >= 3) && word.length >= 2 && term.startsWith(word)) matches.set(term, PREFIX_MATCH);
+      else if (typos > 0 && editDistanceWithin(word, term, typos)) matches.set(term, FUZZY_MATCH);
+    });
+    return matches;
+  };
+
+  return {
+    sync: (jobs) => {
+      const current = new Set(jobs.map(job => job.id));
+      [...indexedJobs.keys()].filter(id => !current.has(id)).forEach(remove);
+      jobs.forEach(job => {
+        const indexed = indexedJobs.get(job.id);
+        if (indexed?.job === job) return;
+        if (indexed) remove(job.id);
+        add(job);
+      });
+    },
+
+    search: (query) => {
+      const words = [...new Set(tokenize(query))];
+      if (words.length === 0) return [];
+      const results = new Map<string, { score: number; matchedWords: number; matchedTerms: Set<string> }>();
+
+      words.forEach((word, index) => {
+        // Best match of this word per job, so many prefix expansions don't stack up.
+        const best = new Map<string, number>();
+        expand(word, index === words.length - 1).forEach((strength, term) => {
+          const docs = postings.get(term)!;
+          const idf = Math.log(1 + indexedJobs.size / docs.size);
+          docs.forEach((weight, jobId) => {
+            const score = strength * weight * idf;
+            if (score > (best.get(jobId) ?? 0)) best.set(jobId, score);
+            // Every matching term is highlighted, not only the best one.
+            const result = results.get(jobId) ?? { score: 0, matchedWords: 0, matchedTerms: new Set<string>() };
+            result.matchedTerms.add(term);
+            results.set(jobId, result);
+          });
+        });
+        best.forEach((score, jobId) => {
+          const result = results.get(jobId)!;
+          result.score += score;
+          result.matchedWords++;
+        });
+      });
+
+      return [...results.entries()]
+        .sort(([, a], [, b]) => b.matchedWords - a.matchedWords || b.score - a.score)
+        .map(([jobId, { score, matchedTerms }]) => ({ job: indexedJobs.get(jobId)!.job, score, matchedTerms: [...matchedTerms] }));
+    },
+
+    get size() {
+      return indexedJobs.size;
+    },
+  };
+};
+
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+// Splits `text` into plain and matching runs, where a word matches when its index term is in `terms`.
+export const highlightSegments = (text: string, terms: Iterable<string>): HighlightSegment[] => {
+  const wanted = new Set(terms);
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    if (!wanted.has(normalizeTerm(match[0]))) continue;
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), isMatch: false });
+    segments.push({ text: match[0], isMatch: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), isMatch: false });
+  return segments;
+};
+
+// A window of `text` around its first matching word, for showing why a long description matched.
+export const matchSnippet = (text: string, terms: Iterable<string>, radius = 80): string => {
+  const wanted = new Set(terms);
+  const first = [...text.matchAll(TOKEN_PATTERN)].find(match => wanted.has(normalizeTerm(match[0])));
+  if (!first || (first.index ?? 0) < radius) return text;
+  const start = text.lastIndexOf(' ', (first.index ?? 0) - radius / 2) + 1;
+  return `…${text.slice(start)}`;
+};
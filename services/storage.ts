@@ -0,0 +1,440 @@
+import type { Job, Application, InsightType, ResumeAnalysis, Resume, CoverLetterVersion, SavedSearch, JobAlert } from '../types';
+import { withParsedSalary } from './salary';
+
+const DB_NAME = 'ai-job-finder';
+export const DB_VERSION = 7;
+
+// Keys used before saved data moved to IndexedDB. They are imported once and then removed.
+const LEGACY_SAVED_JOBS_KEY = 'savedJobs';
+const LEGACY_APPLICATIONS_KEY = 'applications';
+
+export const STORES = {
+  JOBS: 'jobs',
+  APPLICATIONS: 'applications',
+  INSIGHTS: 'insights',
+  RESUME_ANALYSES: 'resumeAnalyses',
+  RESUMES: 'resumes',
+  MATCH_SCORES: 'matchScores',
+  COVER_LETTERS: 'coverLetters',
+  SAVED_SEARCHES: 'savedSearches',
+  JOB_ALERTS: 'jobAlerts',
+} as const;
+
+interface StoredJob {
+  id: string;
+  job: Job;
+  // Position in the saved list; assigned when the job is first saved.
+  order: number;
+}
+
+export interface StoredInsight {
+  jobId: string;
+  type: InsightType;
+  content: string;
+  createdAt: string;
+}
+
+export interface StoredResumeAnalysis {
+  id: string;
+  jobId: string;
+  // Absent for analyses made before resumes were stored in the profile.
+  resumeId?: string;
+  result: ResumeAnalysis;
+  createdAt: string;
+}
+
+export interface StoredMatchScore {
+  // Content hash of the job (see `jobContentKey`), so re-generated listings with new ids still hit.
+  jobKey: string;
+  resumeId: string;
+  score: number;
+  createdAt: string;
+}
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+const readLegacyJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (error) {
+    console.error(`Error reading legacy "${key}" from localStorage`, error);
+    return fallback;
+  }
+};
+
+/**
+ * Schema migrations, keyed by the version they upgrade to. Each runs inside the
+ * versionchange transaction, so a failure rolls the whole upgrade back.
+ * To change the schema, bump DB_VERSION and add the next entry here; never edit a shipped one.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db, transaction) => {
+    db.createObjectStore(STORES.JOBS, { keyPath: 'id' });
+    db.createObjectStore(STORES.APPLICATIONS, { keyPath: 'jobId' });
+    db.createObjectStore(STORES.INSIGHTS, { keyPath: ['jobId', 'type'] }).createIndex('jobId', 'jobId');
+    db.createObjectStore(STORES.RESUME_ANALYSES, { keyPath: 'id' }).createIndex('jobId', 'jobId');
+
+    // First run: carry over whatever the localStorage-based version of the app had saved.
+    const legacyJobs = readLegacyJson<Job[]>(LEGACY_SAVED_JOBS_KEY, []);
+    const jobStore = transaction.objectStore(STORES.JOBS);
+    legacyJobs.forEach((job, index) => jobStore.put({ id: job.id, job, order: index } satisfies StoredJob));
+
+    const legacyApplications = readLegacyJson<Record<string, Application>>(LEGACY_APPLICATIONS_KEY, {});
+    const applicationStore = transaction.objectStore(STORES.APPLICATIONS);
+    Object.values(legacyApplications).forEach(application => applicationStore.put(application));
+  },
+  2: (_db, transaction) => {
+    // Analyses used to be free-form markdown; they can't be turned into structured results.
+    const cursorRequest = transaction.objectStore(STORES.RESUME_ANALYSES).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (typeof cursor.value.result === 'string') cursor.delete();
+      cursor.continue();
+    };
+  },
+  3: (db, transaction) => {
+    db.createObjectStore(STORES.RESUMES, { keyPath: 'id' });
+    transaction.objectStore(STORES.RESUME_ANALYSES).createIndex('resumeId', 'resumeId');
+  },
+  4: (db) => {
+    db.createObjectStore(STORES.MATCH_SCORES, { keyPath: ['jobKey', 'resumeId'] }).createIndex('resumeId', 'resumeId');
+  },
+  5: (db) => {
+    db.createObjectStore(STORES.COVER_LETTERS, { keyPath: 'id' }).createIndex('jobId', 'jobId');
+  },
+  6: () => {
+    // Used to parse the salaries of jobs saved before `Job.salary` existed, which depended on the
+    // salary parser of the day. They are now parsed as they are loaded (see `loadSavedJobs`).
+  },
+  7: (db) => {
+    db.createObjectStore(STORES.SAVED_SEARCHES, { keyPath: 'id' });
+    db.createObjectStore(STORES.JOB_ALERTS, { keyPath: 'id' }).createIndex('searchId', 'searchId');
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    let importedLegacyData = false;
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version](db, transaction);
+      }
+      importedLegacyData = event.oldVersion === 0;
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; close so it isn't blocked, the next call reopens.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      if (importedLegacyData) {
+        window.localStorage.removeItem(LEGACY_SAVED_JOBS_KEY);
+        window.localStorage.removeItem(LEGACY_APPLICATIONS_KEY);
+      }
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Jobs saved before `Job.salary` existed only have the salary text. Salaries on AI search results
+// were made up by the model, so those count as estimates.
+const withStoredSalary = (job: Job): Job =>
+  withParsedSalary(job, job.sources?.some(source => source.includes('AI-generated')) ?? false);
+
+export const loadSavedJobs = async (): Promise<Job[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<StoredJob[]>(db.transaction(STORES.JOBS).objectStore(STORES.JOBS).getAll());
+  return records.sort((a, b) => a.order - b.order).map(record => withStoredSalary(record.job));
+};
+
+/**
+ * Writes only what changed between two versions of the saved list: records whose object
+ * identity changed are put, records no longer present are deleted.
+ */
+export const persistSavedJobChanges = async (previous: Job[], next: Job[]): Promise<void> => {
+  const previousById = new Map(previous.map(job => [job.id, job]));
+  const changed = next.filter(job => previousById.get(job.id) !== job);
+  const nextIds = new Set(next.map(job => job.id));
+  const removed = previous.filter(job => !nextIds.has(job.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.JOBS, 'readwrite');
+  const store = transaction.objectStore(STORES.JOBS);
+  changed.forEach(job => {
+    // New jobs sort after everything already stored; the index breaks ties within one write.
+    const order = Date.now() + next.indexOf(job);
+    const existing = store.get(job.id);
+    existing.onsuccess = () => {
+      const record = existing.result as StoredJob | undefined;
+      store.put({ id: job.id, job, order: record ? record.order : order } satisfies StoredJob);
+    };
+  });
+  removed.forEach(job => {
+    store.delete(job.id);
+    deleteJobData(transaction.db, job.id);
+  });
+  await transactionDone(transaction);
+};
+
+/**
+ * Deletes the insights and resume analyses of jobs that aren't saved, such as search results
+ * that were opened but never saved. Unsaving a job deletes its own (see `persistSavedJobChanges`).
+ */
+export const deleteUnsavedJobAnalyses = async (savedJobIds: string[]): Promise<void> => {
+  const saved = new Set(savedJobIds);
+  const storeNames = [STORES.INSIGHTS, STORES.RESUME_ANALYSES];
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, 'readwrite');
+  storeNames.forEach(storeName => {
+    const cursorRequest = transaction.objectStore(storeName).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (!saved.has((cursor.value as { jobId: string }).jobId)) cursor.delete();
+      cursor.continue();
+    };
+  });
+  await transactionDone(transaction);
+};
+
+export const loadApplications = async (): Promise<Record<string, Application>> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<Application[]>(
+    db.transaction(STORES.APPLICATIONS).objectStore(STORES.APPLICATIONS).getAll(),
+  );
+  return Object.fromEntries(records.map(application => [application.jobId, application]));
+};
+
+export const persistApplicationChanges = async (
+  previous: Record<string, Application>,
+  next: Record<string, Application>,
+): Promise<void> => {
+  const changed = Object.values(next).filter(application => previous[application.jobId] !== application);
+  const removed = Object.keys(previous).filter(jobId => !next[jobId]);
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.APPLICATIONS, 'readwrite');
+  const store = transaction.objectStore(STORES.APPLICATIONS);
+  changed.forEach(application => store.put(application));
+  removed.forEach(jobId => store.delete(jobId));
+  await transactionDone(transaction);
+};
+
+export const loadInsights = async (jobId: string): Promise<StoredInsight[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORES.INSIGHTS).objectStore(STORES.INSIGHTS).index('jobId');
+  return requestToPromise<StoredInsight[]>(index.getAll(jobId));
+};
+
+export const saveInsight = async (jobId: string, type: InsightType, content: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.INSIGHTS, 'readwrite');
+  transaction.objectStore(STORES.INSIGHTS).put({ jobId, type, content, createdAt: new Date().toISOString() } satisfies StoredInsight);
+  await transactionDone(transaction);
+};
+
+export const loadResumeAnalyses = async (jobId: string): Promise<StoredResumeAnalysis[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORES.RESUME_ANALYSES).objectStore(STORES.RESUME_ANALYSES).index('jobId');
+  const records = await requestToPromise<StoredResumeAnalysis[]>(index.getAll(jobId));
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const saveResumeAnalysis = async (jobId: string, resumeId: string | undefined, result: ResumeAnalysis): Promise<StoredResumeAnalysis> => {
+  const record: StoredResumeAnalysis = { id: crypto.randomUUID(), jobId, resumeId, result, createdAt: new Date().toISOString() };
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.RESUME_ANALYSES, 'readwrite');
+  transaction.objectStore(STORES.RESUME_ANALYSES).put(record);
+  await transactionDone(transaction);
+  return record;
+};
+
+export const loadResumes = async (): Promise<Resume[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<Resume[]>(db.transaction(STORES.RESUMES).objectStore(STORES.RESUMES).getAll());
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveResume = async (resume: Resume): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.RESUMES, 'readwrite');
+  transaction.objectStore(STORES.RESUMES).put(resume);
+  await transactionDone(transaction);
+};
+
+const deleteByResume = (transaction: IDBTransaction, storeName: string, resumeId: string) => {
+  const cursorRequest = transaction.objectStore(storeName).index('resumeId').openCursor(IDBKeyRange.only(resumeId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+};
+
+// Deletes a resume together with every analysis and match score made with it.
+export const deleteResume = async (resumeId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.RESUMES, STORES.RESUME_ANALYSES, STORES.MATCH_SCORES], 'readwrite');
+  transaction.objectStore(STORES.RESUMES).delete(resumeId);
+  [STORES.RESUME_ANALYSES, STORES.MATCH_SCORES].forEach(storeName => deleteByResume(transaction, storeName, resumeId));
+  await transactionDone(transaction);
+};
+
+// Forgets a resume's match scores, e.g. once its content has changed.
+export const deleteMatchScores = async (resumeId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.MATCH_SCORES, 'readwrite');
+  deleteByResume(transaction, STORES.MATCH_SCORES, resumeId);
+  await transactionDone(transaction);
+};
+
+export const loadMatchScores = async (resumeId: string): Promise<Record<string, number>> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORES.MATCH_SCORES).objectStore(STORES.MATCH_SCORES).index('resumeId');
+  const records = await requestToPromise<StoredMatchScore[]>(index.getAll(resumeId));
+  return Object.fromEntries(records.map(record => [record.jobKey, record.score]));
+};
+
+export const saveMatchScore = async (jobKey: string, resumeId: string, score: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.MATCH_SCORES, 'readwrite');
+  transaction.objectStore(STORES.MATCH_SCORES).put({ jobKey, resumeId, score, createdAt: new Date().toISOString() } satisfies StoredMatchScore);
+  await transactionDone(transaction);
+};
+
+export const loadCoverLetters = async (jobId: string): Promise<CoverLetterVersion[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORES.COVER_LETTERS).objectStore(STORES.COVER_LETTERS).index('jobId');
+  const records = await requestToPromise<CoverLetterVersion[]>(index.getAll(jobId));
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const saveCoverLetter = async (version: CoverLetterVersion): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.COVER_LETTERS, 'readwrite');
+  transaction.objectStore(STORES.COVER_LETTERS).put(version);
+  await transactionDone(transaction);
+};
+
+export const deleteCoverLetter = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.COVER_LETTERS, 'readwrite');
+  transaction.objectStore(STORES.COVER_LETTERS).delete(id);
+  await transactionDone(transaction);
+};
+
+export const loadSavedSearches = async (): Promise<SavedSearch[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<SavedSearch[]>(db.transaction(STORES.SAVED_SEARCHES).objectStore(STORES.SAVED_SEARCHES).getAll());
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveSavedSearch = async (search: SavedSearch): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.SAVED_SEARCHES, 'readwrite');
+  transaction.objectStore(STORES.SAVED_SEARCHES).put(search);
+  await transactionDone(transaction);
+};
+
+// Deletes a saved search together with the alerts it raised.
+export const deleteSavedSearch = async (searchId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.SAVED_SEARCHES, STORES.JOB_ALERTS], 'readwrite');
+  transaction.objectStore(STORES.SAVED_SEARCHES).delete(searchId);
+  const cursorRequest = transaction.objectStore(STORES.JOB_ALERTS).index('searchId').openCursor(IDBKeyRange.only(searchId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+  await transactionDone(transaction);
+};
+
+export const loadJobAlerts = async (): Promise<JobAlert[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<JobAlert[]>(db.transaction(STORES.JOB_ALERTS).objectStore(STORES.JOB_ALERTS).getAll());
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const saveJobAlerts = async (alerts: JobAlert[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.JOB_ALERTS, 'readwrite');
+  const store = transaction.objectStore(STORES.JOB_ALERTS);
+  alerts.forEach(alert => store.put(alert));
+  await transactionDone(transaction);
+};
+
+export const deleteJobAlerts = async (alertIds: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.JOB_ALERTS, 'readwrite');
+  const store = transaction.objectStore(STORES.JOB_ALERTS);
+  alertIds.forEach(id => store.delete(id));
+  await transactionDone(transaction);
+};
+
+// Removes generated content for a job that is no longer saved, in its own transaction.
+const deleteJobData = (db: IDBDatabase, jobId: string, storeNames = [STORES.INSIGHTS, STORES.RESUME_ANALYSES, STORES.COVER_LETTERS]): IDBTransaction => {
+  const transaction = db.transaction(storeNames, 'readwrite');
+  storeNames.forEach(storeName => {
+    const index = transaction.objectStore(storeName).index('jobId');
+    const cursorRequest = index.openCursor(IDBKeyRange.only(jobId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+  });
+  transaction.onerror = () => console.error(`Error deleting stored data for job ${jobId}`, transaction.error);
+  return transaction;
+};
+
+// Forgets the insights and resume analyses written about a job's old text after it was edited.
+// Cover letters are kept, as they may have been reworked by hand.
+export const deleteJobAnalyses = async (jobId: string): Promise<void> => {
+  const db = await openDatabase();
+  await transactionDone(deleteJobData(db, jobId, [STORES.INSIGHTS, STORES.RESUME_ANALYSES]));
+};
@@ -0,0 +1,109 @@
+import type { LLMOperation } from '../types';
+import type { TokenUsage } from './llmClient';
+
+export interface UsageTotals {
+  operation: LLMOperation;
+  model: string;
+  requests: number;
+  failures: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Some counts were estimated from the text length because the backend didn't report them.
+  hasEstimates: boolean;
+}
+
+export interface UsageReport {
+  since: string;
+  totals: UsageTotals[];
+}
+
+export interface ModelCall {
+  operation: LLMOperation;
+  model: string;
+  retries: number;
+  failed?: boolean;
+  usage?: TokenUsage;
+  isEstimate?: boolean;
+}
+
+// US dollars per million tokens, from Google's list prices for prompts up to 200k tokens.
+// Models are matched by prefix, so dated previews pick up their family's price.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+};
+
+const STORAGE_KEY = 'llmUsage';
+
+const emptyReport = (): UsageReport => ({ since: new Date().toISOString(), totals: [] });
+
+const loadReport = (): UsageReport => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as UsageReport | null;
+    return stored && Array.isArray(stored.totals) ? stored : emptyReport();
+  } catch (error) {
+    console.error("Error loading AI usage", error);
+    return emptyReport();
+  }
+};
+
+let currentReport = loadReport();
+const listeners = new Set<(report: UsageReport) => void>();
+
+const update = (report: UsageReport) => {
+  currentReport = report;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(report));
+  } catch (error) {
+    console.error("Error saving AI usage", error);
+  }
+  listeners.forEach(listener => listener(report));
+};
+
+export const getUsageReport = (): UsageReport => currentReport;
+
+// Calls `listener` whenever usage changes, until the returned function is called.
+export const subscribeToUsage = (listener: (report: UsageReport) => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const resetUsage = () => update(emptyReport());
+
+// Rough count for backends that don't report usage: about four characters per token. Attachments aren't counted.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const recordModelCall = ({ operation, model, retries, failed = false, usage, isEstimate = false }: ModelCall) => {
+  const existing = currentReport.totals.find(t => t.operation === operation && t.model === model);
+  const base: UsageTotals = existing ?? { operation, model, requests: 0, failures: 0, retries: 0, inputTokens: 0, outputTokens: 0, hasEstimates: false };
+  const next: UsageTotals = {
+    ...base,
+    requests: base.requests + 1,
+    failures: base.failures + (failed ? 1 : 0),
+    retries: base.retries + retries,
+    inputTokens: base.inputTokens + (usage?.inputTokens ?? 0),
+    outputTokens: base.outputTokens + (usage?.outputTokens ?? 0),
+    hasEstimates: base.hasEstimates || (!!usage && isEstimate),
+  };
+  update({
+    ...currentReport,
+    totals: existing ? currentReport.totals.map(t => t === existing ? next : t) : [...currentReport.totals, next],
+  });
+};
+
+const priceFor = (model: string) => {
+  const family = Object.keys(MODEL_PRICES)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? MODEL_PRICES[family] : undefined;
+};
+
+// Estimated cost in US dollars, or null for models without a known price (e.g. local ones).
+export const estimateCost = ({ model, inputTokens, outputTokens }: Pick<UsageTotals, 'model' | 'inputTokens' | 'outputTokens'>): number | null => {
+  const price = priceFor(model);
+  return price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : null;
+};
@@ -0,0 +1,167 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import AddJobModal from '../components/AddJobModal';
+import { useFixtures } from './support/llmFixtures';
+
+const renderModal = () => {
+  const onClose = vi.fn();
+  const onJobSaved = vi.fn();
+  render(<AddJobModal isOpen onClose={onClose} onJobSaved={onJobSaved} />);
+  return { onClose, onJobSaved };
+};
+
+const pastePosting = (text = 'Senior Data Engineer at Tailspin Toys in Denver, CO. $140k-$170k.') => {
+  fireEvent.change(screen.getByPlaceholderText('Paste the full job description here...'), { target: { value: text } });
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('AddJobModal', () => {
+  it('keeps the parse button disabled until a posting is pasted', () => {
+    renderModal();
+    expect(screen.getByRole('button', { name: /Parse with AI/ })).toHaveProperty('disabled', true);
+    pastePosting();
+    expect(screen.getByRole('button', { name: /Parse with AI/ })).toHaveProperty('disabled', false);
+  });
+
+  it('previews the parsed job and saves it', async () => {
+    useFixtures('parseJobPosting/valid');
+    const { onClose, onJobSaved } = renderModal();
+    pastePosting();
+    fireEvent.click(screen.getByRole('button', { name: /Parse with AI/ }));
+
+    expect(await screen.findByRole('heading', { name: 'Senior Data Engineer' })).toBeTruthy();
+    expect(screen.getByRole('row', { name: /Company\s+—\s+Tailspin Toys/ })).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save Job' }));
+    expect(onJobSaved).toHaveBeenCalledWith(expect.objectContaining({ title: 'Senior Data Engineer', company: 'Tailspin Toys' }));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('cancels the parse when closed, so nothing arrives after reopening', async () => {
+    const requests = useFixtures('parseJobPosting/valid');
+    const onClose = vi.fn();
+    const { container, rerender } = render(<AddJobModal isOpen onClose={onClose} onJobSaved={vi.fn()} />);
+    pastePosting();
+    fireEvent.click(screen.getByRole('button', { name: /Parse with AI/ }));
+    // Clicking the backdrop closes the modal.
+    fireEvent.click(container.firstChild as HTMLElement);
+    expect(onClose).toHaveBeenCalled();
+
+    rerender(<AddJobModal isOpen={false} onClose={onClose} onJobSaved={vi.fn()} />);
+    rerender(<AddJobModal isOpen onClose={onClose} onJobSaved={vi.fn()} />);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(requests.every(request => request.signal?.aborted)).toBe(true);
+    expect(screen.queryByRole('heading', { name: 'Senior Data Engineer' })).toBeNull();
+    expect(screen.getByPlaceholderText('Paste the full job description here...')).toHaveProperty('value', '');
+    expect(screen.getByRole('button', { name: /Parse with AI/ })).toHaveProperty('disabled', true);
+  });
+
+  it('shows an error and lets the user retry when the response stays malformed', async () => {
+    useFixtures('parseJobPosting/malformed-json', 'parseJobPosting/malformed-json', 'parseJobPosting/valid');
+    const { onJobSaved } = renderModal();
+    pastePosting();
+    fireEvent.click(screen.getByRole('button', { name: /Parse with AI/ }));
+
+    expect(await screen.findByText(/AI failed to return valid JSON/)).toBeTruthy();
+    expect(screen.queryByRole('button', { name: 'Save Job' })).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: /Parse with AI/ }));
+    expect(await screen.findByRole('heading', { name: 'Senior Data Engineer' })).toBeTruthy();
+    expect(screen.queryByText(/AI failed to return valid JSON/)).toBeNull();
+    expect(onJobSaved).not.toHaveBeenCalled();
+  });
+
+  it('reports missing fields instead of saving an incomplete job', async () => {
+    useFixtures('parseJobPosting/missing-fields', 'parseJobPosting/missing-fields');
+    renderModal();
+    pastePosting();
+    fireEvent.click(screen.getByRole('button', { name: /Parse with AI/ }));
+    expect(await screen.findByText(/"company" must be a non-empty string/)).toBeTruthy();
+  });
+
+  it('adds a job from an uploaded page without asking the model', async () => {
+    useFixtures();
+    const { onJobSaved } = renderModal();
+    const posting = {
+      '@context': 'https://schema.org',
+      '@type': 'JobPosting',
+      title: 'Platform Engineer',
+      hiringOrganization: { '@type': 'Organization', name: 'Contoso' },
+      jobLocation: { '@type': 'Place', address: { addressLocality: 'Austin', addressRegion: 'TX' } },
+      employmentType: 'FULL_TIME',
+      description: 'Run our Kubernetes platform.',
+      skills: ['Kubernetes', 'Go'],
+    };
+    const html = `<html><head><script type="application/ld+json">${JSON.stringify(posting)}</script></head><body><main>Run our Kubernetes platform.</main></body></html>`;
+    const input = document.querySelector('input[type="file"]')!;
+    fireEvent.change(input, { target: { files: [new File([html], 'platform.html', { type: 'text/html' })] } });
+
+    expect(await screen.findByText('platform.html')).toBeTruthy();
+    expect(screen.getByText(/Nothing is left for the AI to fill in/)).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Add job' }));
+
+    expect(await screen.findByRole('row', { name: /Location\s+Austin, TX\s+—/ })).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Save Job' }));
+    expect(onJobSaved).toHaveBeenCalledWith(expect.objectContaining({ title: 'Platform Engineer', company: 'Contoso', skills: ['Kubernetes', 'Go'] }));
+  });
+
+  it('reads a file dropped on the text box', async () => {
+    useFixtures();
+    renderModal();
+    const textBox = screen.getByPlaceholderText('Paste the full job description here...');
+    fireEvent.dragOver(textBox, { dataTransfer: { types: ['Files'] } });
+    expect(screen.getByText('Drop the file to read it')).toBeTruthy();
+
+    const text = 'Job title: Data Engineer\nCompany: Fabrikam\nLocation: Lisbon, Portugal\nSkills: SQL, Airflow\nFull-time. Build and run the pipelines that feed our analytics warehouse.';
+    fireEvent.drop(textBox, { dataTransfer: { types: ['Files'], files: [new File([text], 'data-engineer.txt', { type: 'text/plain' })] } });
+    expect(await screen.findByText('data-engineer.txt')).toBeTruthy();
+    expect(screen.queryByText('Drop the file to read it')).toBeNull();
+    expect(screen.getByText(/Read from the document: Title, Company, Location/)).toBeTruthy();
+  });
+
+  it('parses a list of postings as a queue and saves the accepted ones', async () => {
+    useFixtures('parseJobPosting/malformed-json', 'parseJobPosting/malformed-json', 'parseJobPosting/valid', 'parseJobPosting/valid');
+    const { onJobSaved } = renderModal();
+    pastePosting([
+      'Hi! Here are the openings we discussed.',
+      '---',
+      'Job title: Platform Engineer\nCompany: Contoso\nLocation: Remote\nSkills: Go, Kubernetes\nFull-time. You will run the Kubernetes platform that every product team deploys to and build tooling for them.',
+      '---',
+      'We need someone to look after our warehouse systems and reporting. Flexible hours, great team, and lots of interesting problems to solve every day.',
+      '---',
+      'Senior Data Engineer at Tailspin Toys in Denver, CO. Build batch and streaming pipelines for sales analytics and mentor two junior engineers. $140k-$170k.',
+    ].join('\n'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Parse 3 postings' }));
+    const items = () => screen.getAllByRole('listitem');
+    expect(await screen.findByText('Parsed 3 of 3 postings · 0 accepted.', { exact: false })).toBeTruthy();
+    expect(items().map(item => item.getAttribute('aria-label'))).toEqual(['Pasted text #1', 'Pasted text #2', 'Pasted text #3']);
+    expect(within(items()[1]).getByText('Failed')).toBeTruthy();
+
+    fireEvent.click(within(items()[1]).getByRole('button', { name: 'Retry' }));
+    expect(await within(items()[1]).findByText('Parsed')).toBeTruthy();
+    fireEvent.click(within(items()[1]).getByRole('button', { name: 'Reject' }));
+
+    fireEvent.click(within(items()[0]).getByRole('button', { name: 'Edit' }));
+    fireEvent.change(within(items()[0]).getByLabelText(/^Location/), { target: { value: 'Remote (EU)' } });
+    fireEvent.click(within(items()[0]).getByRole('button', { name: 'Save changes' }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Accept all parsed' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Save 2 jobs' }));
+    expect(onJobSaved).toHaveBeenCalledTimes(2);
+    expect(onJobSaved).toHaveBeenCalledWith(expect.objectContaining({ title: 'Platform Engineer', location: 'Remote (EU)', skills: ['Go', 'Kubernetes'] }));
+    expect(onJobSaved).toHaveBeenCalledWith(expect.objectContaining({ title: 'Senior Data Engineer' }));
+  });
+
+  it('keeps a list as one posting when asked to', () => {
+    renderModal();
+    pastePosting('Job title: Analyst\nWe are hiring an analyst to build dashboards, talk to stakeholders every week, and improve our reporting across all teams.\nJob title: Lead\nThe lead runs the analyst team, sets priorities with product managers and reviews every dashboard before it goes out.');
+    fireEvent.click(screen.getByRole('checkbox', { name: /Parse as 2 separate postings/ }));
+    expect(screen.getByRole('button', { name: /Parse with AI/ })).toBeTruthy();
+  });
+});
@@ -0,0 +1,142 @@
+import React from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import type { Job } from '../types';
+import JobDetailModal from '../components/JobDetailModal';
+import { deleteJobAnalyses } from '../services/storage';
+import { useFixtures } from './support/llmFixtures';
+
+// jsdom has no IndexedDB; persistence is covered by the app itself, not these flows.
+vi.mock('../services/storage', () => ({
+  loadInsights: vi.fn(async () => []),
+  saveInsight: vi.fn(async () => {}),
+  loadResumeAnalyses: vi.fn(async () => []),
+  saveResumeAnalysis: vi.fn(async (jobId: string, resumeId: string | undefined, result: unknown) => (
+    { id: 'analysis-1', jobId, resumeId, result, createdAt: '2025-01-01T00:00:00.000Z' }
+  )),
+  loadCoverLetters: vi.fn(async () => []),
+  saveCoverLetter: vi.fn(async () => {}),
+  deleteCoverLetter: vi.fn(async () => {}),
+  deleteJobAnalyses: vi.fn(async () => {}),
+}));
+
+const job: Job = {
+  id: 'job-1',
+  title: 'Machine Learning Engineer',
+  company: 'Northwind AI',
+  location: 'Remote',
+  type: 'Full-time',
+  description: 'Build and deploy ranking models for our recommendation platform.',
+  skills: ['Python', 'PyTorch'],
+};
+
+const renderModal = (props: Partial<React.ComponentProps<typeof JobDetailModal>> = {}) => {
+  const handlers = { onClose: vi.fn(), onSave: vi.fn(), onUnsave: vi.fn(), onApplicationChange: vi.fn(), onSaveResume: vi.fn() };
+  render(<JobDetailModal job={job} isSaved={false} resumes={[]} {...handlers} {...props} />);
+  return handlers;
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('JobDetailModal', () => {
+  it('streams an insight into the panel', async () => {
+    useFixtures('getJobInsight/summary');
+    renderModal();
+    fireEvent.click(screen.getByRole('button', { name: /Summarize/ }));
+    expect(await screen.findByText(/Experience running workloads on Kubernetes/)).toBeTruthy();
+    expect(screen.getByRole('button', { name: /Summarize/ })).toBeTruthy();
+  });
+
+  it('shows API errors next to the insight and offers a retry for rate limits', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    useFixtures('getJobInsight/api-error', 'getJobInsight/api-error', 'getJobInsight/api-error', 'getJobInsight/api-error');
+    renderModal();
+    fireEvent.click(screen.getByRole('button', { name: /Key Skills/ }));
+    expect(await screen.findByText(/The AI service is receiving too many requests/)).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Try again' })).toBeTruthy();
+  });
+
+  it('analyzes a pasted resume and renders the result', async () => {
+    useFixtures('analyzeResume/valid');
+    renderModal();
+    fireEvent.click(screen.getByRole('button', { name: /Resume Analyzer/ }));
+    fireEvent.change(screen.getByPlaceholderText('Paste your resume here...'), { target: { value: 'Senior ML engineer, Python and PyTorch.' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Analyze Resume' }));
+
+    expect(await screen.findByText('78')).toBeTruthy();
+    expect(screen.getByText('Good Match')).toBeTruthy();
+    expect(screen.getByText('Kubernetes')).toBeTruthy();
+  });
+
+  it('reports an analysis in an unexpected format', async () => {
+    useFixtures('analyzeResume/missing-fields');
+    renderModal();
+    fireEvent.click(screen.getByRole('button', { name: /Resume Analyzer/ }));
+    fireEvent.change(screen.getByPlaceholderText('Paste your resume here...'), { target: { value: 'Resume text' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Analyze Resume' }));
+    expect(await screen.findByText(/AI returned an analysis in an unexpected format/)).toBeTruthy();
+  });
+
+  it('saves and unsaves the job', () => {
+    const { onSave } = renderModal();
+    fireEvent.click(screen.getByRole('button', { name: 'Save job' }));
+    expect(onSave).toHaveBeenCalledWith(job);
+
+    const { onUnsave } = renderModal({ isSaved: true });
+    fireEvent.click(screen.getByRole('button', { name: 'Unsave job' }));
+    expect(onUnsave).toHaveBeenCalledWith('job-1');
+  });
+
+  it('edits a saved job and marks the changed fields as edited', () => {
+    const onEdit = vi.fn();
+    renderModal({ isSaved: true, onEdit, job: { ...job, provenance: { location: 'ai-extracted', skills: 'ai-generated' } } });
+    expect(screen.getByText('AI-generated')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit' }));
+    fireEvent.change(screen.getByLabelText(/^Location/), { target: { value: 'Berlin, Germany' } });
+    fireEvent.change(screen.getByLabelText(/^Skills/), { target: { value: 'Python, python' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save changes' }));
+    expect(screen.getByText('Skills are listed more than once: python.')).toBeTruthy();
+    expect(onEdit).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText(/^Skills/), { target: { value: 'Python, PyTorch' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save changes' }));
+    expect(onEdit).toHaveBeenCalledWith({
+      ...job,
+      location: 'Berlin, Germany',
+      provenance: { location: 'user-edited', skills: 'ai-generated' },
+    });
+  });
+
+  it('keeps its state through an edit but forgets insights about the old text', async () => {
+    useFixtures('getJobInsight/summary');
+    const onEdit = vi.fn();
+    const props = { onClose: vi.fn(), onSave: vi.fn(), onUnsave: vi.fn(), onApplicationChange: vi.fn(), onSaveResume: vi.fn(), resumes: [], isSaved: true, onEdit };
+    const { rerender } = render(<JobDetailModal job={job} {...props} />);
+    fireEvent.click(screen.getByRole('button', { name: /Summarize/ }));
+    expect(await screen.findByText(/Experience running workloads on Kubernetes/)).toBeTruthy();
+
+    // The job type isn't part of the insight prompts.
+    fireEvent.click(screen.getByRole('button', { name: 'Edit' }));
+    fireEvent.change(screen.getByLabelText(/^Job type/), { target: { value: 'Contract' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save changes' }));
+    rerender(<JobDetailModal job={onEdit.mock.calls[0][0]} {...props} />);
+    expect(screen.getByText(/Experience running workloads on Kubernetes/)).toBeTruthy();
+    expect(deleteJobAnalyses).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit' }));
+    fireEvent.change(screen.getByLabelText(/^Description/), { target: { value: 'Maintain the feature store.' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save changes' }));
+    rerender(<JobDetailModal job={onEdit.mock.calls[1][0]} {...props} />);
+    expect(screen.queryByText(/Experience running workloads on Kubernetes/)).toBeNull();
+    expect(deleteJobAnalyses).toHaveBeenCalledWith('job-1');
+  });
+
+  it('only offers editing for saved jobs', () => {
+    renderModal({ onEdit: vi.fn() });
+    expect(screen.queryByRole('button', { name: 'Edit' })).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { Job, Salary } from '../types';
+import { deduplicateJobs, descriptionSimilarity, isDuplicateJob, jobIdentityKey, mergeJobs } from '../services/deduplication';
+
+const description = 'Build and deploy ranking models for our recommendation platform using Python and PyTorch.';
+
+const makeJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job-1',
+  title: 'Senior Machine Learning Engineer',
+  company: 'Northwind',
+  location: 'Berlin, Germany',
+  type: 'Full-time',
+  description,
+  skills: ['Python', 'PyTorch'],
+  ...overrides,
+});
+
+const salary = (min: number, max: number, isEstimate: boolean): Salary => ({ min, max, currency: 'EUR', period: 'annual', isEstimate });
+
+describe('isDuplicateJob', () => {
+  it('matches titles written with common abbreviations', () => {
+    const listed = makeJob();
+    const abbreviated = makeJob({ id: 'job-2', title: 'Sr. ML Eng', company: 'Northwind Inc.' });
+    expect(isDuplicateJob(listed, abbreviated)).toBe(true);
+    expect(jobIdentityKey(abbreviated)).toBe(jobIdentityKey(listed));
+    expect(isDuplicateJob(listed, makeJob({ id: 'job-2', title: 'Jr. ML Eng' }))).toBe(false);
+  });
+
+  it('needs near-identical descriptions when the company is unknown', () => {
+    const listed = makeJob();
+    const reworded = `${description} You will also mentor two junior engineers and run weekly experiment reviews.`;
+    const similarity = descriptionSimilarity(description, reworded);
+    // Close enough for two listings from the same company, not for one without a company.
+    expect(similarity).toBeGreaterThanOrEqual(0.35);
+    expect(similarity).toBeLessThan(0.8);
+
+    expect(isDuplicateJob(listed, makeJob({ id: 'job-2', description: reworded }))).toBe(true);
+    expect(isDuplicateJob(listed, makeJob({ id: 'job-2', company: 'Unknown Company', description: reworded }))).toBe(false);
+    expect(isDuplicateJob(listed, makeJob({ id: 'job-2', company: 'Unknown Company' }))).toBe(true);
+    // Without descriptions there is nothing to compare, so an unknown company never matches.
+    expect(isDuplicateJob(makeJob({ description: '' }), makeJob({ id: 'job-2', company: 'n/a', description: '' }))).toBe(false);
+  });
+
+  it('keeps openings in different places apart', () => {
+    const listed = makeJob();
+    expect(isDuplicateJob(listed, makeJob({ id: 'job-2', location: 'Austin, TX' }))).toBe(false);
+    expect(isDuplicateJob(listed, makeJob({ id: 'job-2', location: 'Berlin' }))).toBe(true);
+    expect(isDuplicateJob(listed, makeJob({ id: 'job-2', location: 'Not specified' }))).toBe(true);
+    expect(isDuplicateJob(listed, makeJob({ id: 'job-2', location: 'N/A' }))).toBe(true);
+  });
+});
+
+describe('mergeJobs', () => {
+  it('prefers a stated salary to an estimated one', () => {
+    const estimated = { salaryRange: '€80,000 – €95,000 per year', salary: salary(80_000, 95_000, true) };
+    const stated = { salaryRange: '€90,000 – €110,000 per year', salary: salary(90_000, 110_000, false) };
+
+    expect(mergeJobs(makeJob(estimated), makeJob({ id: 'job-2', ...stated }))).toMatchObject({ id: 'job-1', ...stated });
+    expect(mergeJobs(makeJob(stated), makeJob({ id: 'job-2', ...estimated }))).toMatchObject(stated);
+    expect(mergeJobs(makeJob(), makeJob({ id: 'job-2', ...estimated }))).toMatchObject(estimated);
+  });
+
+  it('carries over the provenance of each field from the record it came from', () => {
+    const canonical = makeJob({
+      location: 'Not specified',
+      salaryRange: '€80,000 – €95,000 per year',
+      salary: salary(80_000, 95_000, true),
+      provenance: { title: 'user-edited', location: 'ai-generated', description: 'ai-generated', salaryRange: 'ai-generated' },
+    });
+    const duplicate = makeJob({
+      id: 'job-2',
+      description: `${description} The team ships weekly.`,
+      salaryRange: '€90,000 – €110,000 per year',
+      salary: salary(90_000, 110_000, false),
+      provenance: { title: 'ai-extracted', location: 'ai-extracted', description: 'ai-extracted', salaryRange: 'ai-extracted', skills: 'ai-generated' },
+    });
+
+    const merged = mergeJobs(canonical, duplicate);
+    expect(merged).toMatchObject({ location: 'Berlin, Germany', description: duplicate.description, salaryRange: duplicate.salaryRange });
+    // The title and skills are unchanged from the canonical record, which has no provenance for its skills.
+    expect(merged.provenance).toEqual({ title: 'user-edited', location: 'ai-extracted', description: 'ai-extracted', salaryRange: 'ai-extracted' });
+    expect(mergeJobs(makeJob(), makeJob({ id: 'job-2' }))).not.toHaveProperty('provenance');
+  });
+});
+
+describe('deduplicateJobs', () => {
+  it('folds duplicates into the first listing, keeping the order and every source', () => {
+    const jobs = deduplicateJobs([
+      makeJob({ sources: ['Gemini'] }),
+      makeJob({ id: 'job-2', title: 'Data Engineer', description: 'Build pipelines.' }),
+      makeJob({ id: 'job-3', title: 'Sr ML Engineer', skills: ['python', 'Kubernetes'], sources: ['Feed'] }),
+    ]);
+    expect(jobs.map(job => job.id)).toEqual(['job-1', 'job-2']);
+    expect(jobs[0].skills).toEqual(['Python', 'PyTorch', 'Kubernetes']);
+    expect(jobs[0].sources).toEqual(['Gemini', 'Feed']);
+  });
+});
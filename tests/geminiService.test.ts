@@ -0,0 +1,275 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job } from '../types';
+import { InsightType } from '../types';
+import { findJobs, getJobInsight, analyzeResume, parseJobPosting, isAbortError } from '../services/geminiService';
+import { RateLimitError, ServiceUnavailableError } from '../services/llmErrors';
+import { createReplayClient } from '../services/fixtureClient';
+import { setLLMClientOverride } from '../services/llmSettings';
+import type { LLMRequest } from '../services/llmClient';
+import type { PromptInput } from '../services/prompts';
+import { readPromptInput } from '../server/apiInput';
+import { loadFixture, useFixtures } from './support/llmFixtures';
+
+const filters = { query: 'Machine Learning', location: 'Remote', type: 'Full-time', salary: '', workLocation: '', industry: '' };
+
+const job: Job = {
+  id: 'job-1',
+  title: 'Machine Learning Engineer',
+  company: 'Northwind AI',
+  location: 'Remote',
+  type: 'Full-time',
+  description: 'Build and deploy ranking models for our recommendation platform.',
+  skills: ['Python', 'PyTorch', 'SQL', 'Kubernetes'],
+};
+
+const resume = { text: 'Senior ML engineer. 6 years building recommendation models in Python and PyTorch.' };
+
+beforeEach(() => {
+  // The service logs every failure; keep the test output readable.
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  // No jitter, so retries happen straight away.
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+describe('findJobs', () => {
+  it('returns every listing from a valid response', async () => {
+    const requests = useFixtures('findJobs/valid');
+    const jobs = await findJobs(filters);
+    expect(jobs).toHaveLength(3);
+    expect(jobs[0]).toMatchObject({ title: 'Machine Learning Engineer', company: 'Northwind AI', type: 'Full-time' });
+    // A null salary is dropped rather than kept as null.
+    expect(jobs[1]).not.toHaveProperty('salaryRange');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('assigns stable ids derived from the content', async () => {
+    useFixtures('findJobs/valid', 'findJobs/valid');
+    const first = await findJobs(filters);
+    const second = await findJobs(filters, { refresh: true });
+    expect(first.map(j => j.id)).toEqual(second.map(j => j.id));
+    expect(first[0].id).toMatch(/^ai-/);
+  });
+
+  it('answers identical searches, including concurrent ones, with one request', async () => {
+    const requests = useFixtures('findJobs/valid');
+    const [first, second] = await Promise.all([findJobs(filters), findJobs(filters)]);
+    expect(second).toBe(first);
+    expect(await findJobs({ ...filters })).toBe(first);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('repairs fixable listings without retrying', async () => {
+    const requests = useFixtures('findJobs/needs-repair');
+    const jobs = await findJobs(filters);
+    expect(requests).toHaveLength(1);
+    expect(jobs.map(j => j.type)).toEqual(['Full-time', 'Contract', 'Full-time']);
+    expect(jobs[0].title).toBe('Machine Learning Engineer');
+    expect(jobs[0].skills).toEqual(['Python', 'PyTorch', 'SQL']);
+    expect(jobs[1].skills).toEqual(['Annotation', 'Vendor management']);
+    expect(jobs[1].salaryRange).toBe('$60/hour');
+    // Identical listings keep distinct ids.
+    expect(new Set(jobs.map(j => j.id)).size).toBe(3);
+  });
+
+  it('retries malformed JSON once with the parse error fed back', async () => {
+    const requests = useFixtures('findJobs/malformed-json', 'findJobs/valid');
+    const jobs = await findJobs(filters);
+    expect(jobs).toHaveLength(3);
+    expect(requests[1].prompt).toContain('The response was not valid JSON');
+  });
+
+  it('fails cleanly when the retry is malformed too', async () => {
+    const requests = useFixtures('findJobs/malformed-json', 'findJobs/malformed-json');
+    await expect(findJobs(filters)).rejects.toThrow('Failed to fetch job listings from the AI service.');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('rejects listings that are missing required jobSchema fields and retries with the errors', async () => {
+    const requests = useFixtures('findJobs/missing-fields', 'findJobs/missing-fields');
+    const jobs = await findJobs(filters);
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0].title).toBe('Machine Learning Engineer');
+    expect(requests[1].prompt).toContain('Listing 2: "company" must be a non-empty string.');
+    expect(requests[1].prompt).toContain('Listing 3: "type" must be one of');
+    expect(console.warn).toHaveBeenCalledWith('Rejected job listing #2:', expect.any(Array));
+  });
+
+  it('keeps the retry within what the app server accepts when many listings are rejected', async () => {
+    const requests: LLMRequest[] = [];
+    // Each problem quotes the unusable type in full.
+    const rejected = Array.from({ length: 25 }, () => ({ title: 'Engineer', type: 'Gig '.repeat(500) }));
+    setLLMClientOverride(createReplayClient([
+      { operation: 'search', synthetic: true, chunks: [JSON.stringify(rejected)] },
+      loadFixture('findJobs/valid'),
+    ], request => requests.push(request)));
+
+    expect(await findJobs(filters)).toHaveLength(3);
+    const input = requests[1].input as Extract<PromptInput, { operation: 'search' }>;
+    expect(input.problems).toHaveLength(20);
+    expect(input.problems[0]).toMatch(/^Listing 1: .{900,}…$/);
+    expect(() => readPromptInput('search', input)).not.toThrow();
+  });
+
+  it('fails when no listing has the required fields', async () => {
+    useFixtures('findJobs/all-invalid', 'findJobs/all-invalid');
+    await expect(findJobs(filters)).rejects.toThrow('Failed to fetch job listings from the AI service.');
+  });
+
+  it('retries a server error and reports the outage when it persists', async () => {
+    const requests = useFixtures('findJobs/api-error', 'findJobs/api-error', 'findJobs/api-error', 'findJobs/api-error');
+    await expect(findJobs(filters)).rejects.toBeInstanceOf(ServiceUnavailableError);
+    expect(requests).toHaveLength(4);
+  });
+
+  it('recovers when a retry after a server error succeeds', async () => {
+    const requests = useFixtures('findJobs/api-error', 'findJobs/valid');
+    expect(await findJobs(filters)).toHaveLength(3);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('getJobInsight', () => {
+  it('streams the insight and resolves with the full text', async () => {
+    useFixtures('getJobInsight/summary');
+    const onChunk = vi.fn();
+    const insight = await getJobInsight(job, InsightType.SUMMARY, { onChunk });
+    expect(insight).toMatch(/^- Own the full lifecycle of ranking models/);
+    expect(onChunk.mock.calls.length).toBeGreaterThan(1);
+    expect(onChunk).toHaveBeenLastCalledWith(insight);
+  });
+
+  it('trims jobs to what the app server accepts', async () => {
+    const requests = useFixtures('getJobInsight/summary');
+    const imported = { ...job, title: 'Engineer '.repeat(100), skills: Array.from({ length: 150 }, (_, i) => `Skill ${i + 1}`) };
+    await getJobInsight(imported, InsightType.SUMMARY);
+    const { job: sent } = requests[0].input as Extract<PromptInput, { operation: 'insight' }>;
+    expect(sent.title).toHaveLength(500);
+    expect(sent.skills).toHaveLength(100);
+    expect(() => readPromptInput('insight', requests[0].input)).not.toThrow();
+  });
+
+  it('reuses the insight for the same job until asked to regenerate', async () => {
+    const requests = useFixtures('getJobInsight/summary', 'getJobInsight/summary');
+    const first = await getJobInsight(job, InsightType.SUMMARY);
+    const onChunk = vi.fn();
+    expect(await getJobInsight({ ...job, id: 'job-2' }, InsightType.SUMMARY, { onChunk })).toBe(first);
+    expect(onChunk).toHaveBeenCalledWith(first);
+    expect(requests).toHaveLength(1);
+
+    await getJobInsight(job, InsightType.SUMMARY, { refresh: true });
+    expect(requests).toHaveLength(2);
+  });
+
+  it('reports rate limiting once the retries run out', async () => {
+    useFixtures('getJobInsight/api-error', 'getJobInsight/api-error', 'getJobInsight/api-error', 'getJobInsight/api-error');
+    const error = await getJobInsight(job, InsightType.SUMMARY).catch(e => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('passes cancellation through as an AbortError', async () => {
+    useFixtures('getJobInsight/summary');
+    const controller = new AbortController();
+    controller.abort();
+    const error = await getJobInsight(job, InsightType.SUMMARY, { signal: controller.signal }).catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+  });
+});
+
+describe('analyzeResume', () => {
+  it('returns a validated analysis', async () => {
+    useFixtures('analyzeResume/valid');
+    const analysis = await analyzeResume(resume, job);
+    expect(analysis.matchScore).toBe(78);
+    expect(analysis.keywords.missing).toEqual(['Kubernetes', 'A/B testing']);
+    expect(analysis.suggestions).toHaveLength(2);
+  });
+
+  it('rejects malformed JSON', async () => {
+    useFixtures('analyzeResume/malformed-json');
+    await expect(analyzeResume(resume, job)).rejects.toThrow('AI returned an analysis in an unexpected format.');
+  });
+
+  it('rejects an analysis that is missing required fields', async () => {
+    useFixtures('analyzeResume/missing-fields');
+    await expect(analyzeResume(resume, job)).rejects.toThrow('AI returned an analysis in an unexpected format.');
+  });
+
+  it('wraps API errors', async () => {
+    useFixtures('analyzeResume/api-error');
+    await expect(analyzeResume(resume, job)).rejects.toThrow('Failed to analyze resume with the AI service.');
+  });
+
+  it('requires a resume before calling the model', async () => {
+    await expect(analyzeResume({}, job)).rejects.toThrow('No resume provided for analysis.');
+  });
+});
+
+describe('parseJobPosting', () => {
+  it('returns the parsed job with a stable client-side id', async () => {
+    useFixtures('parseJobPosting/valid', 'parseJobPosting/valid');
+    const parsed = await parseJobPosting('Senior Data Engineer at Tailspin Toys, Denver…');
+    expect(parsed).toMatchObject({ title: 'Senior Data Engineer', company: 'Tailspin Toys', salaryRange: '$140,000 - $170,000' });
+    expect(parsed.id).not.toBe('b2f1c');
+    expect((await parseJobPosting('Senior Data Engineer at Tailspin Toys, Denver…')).id).toBe(parsed.id);
+  });
+
+  it('takes the salary stated in the posting over the model estimate', async () => {
+    useFixtures('parseJobPosting/valid', 'parseJobPosting/valid');
+    const stated = await parseJobPosting('Senior Data Engineer at Tailspin Toys. Pay: $70-$85/hour.');
+    expect(stated.salary).toEqual({ min: 70, max: 85, currency: 'USD', period: 'hourly', isEstimate: false });
+    const estimated = await parseJobPosting('Senior Data Engineer at Tailspin Toys.');
+    expect(estimated.salary).toMatchObject({ min: 140000, max: 170000, isEstimate: true });
+  });
+
+  it('recovers from malformed JSON on the retry', async () => {
+    useFixtures('parseJobPosting/malformed-json', 'parseJobPosting/valid');
+    await expect(parseJobPosting('posting')).resolves.toMatchObject({ title: 'Senior Data Engineer' });
+  });
+
+  it('explains malformed JSON that survives the retry', async () => {
+    useFixtures('parseJobPosting/malformed-json', 'parseJobPosting/malformed-json');
+    await expect(parseJobPosting('posting')).rejects.toThrow('AI failed to return valid JSON.');
+  });
+
+  it('names the required jobSchema fields that are still missing after the retry', async () => {
+    const requests = useFixtures('parseJobPosting/missing-fields', 'parseJobPosting/missing-fields');
+    const error = await parseJobPosting('posting').catch(e => e);
+    expect(error.message).toContain('"company" must be a non-empty string.');
+    expect(error.message).toContain('"location" must be a non-empty string.');
+    expect(requests[1].prompt).toContain('- "company" must be a non-empty string.');
+  });
+
+  it('reports a server error that persists through the retries', async () => {
+    useFixtures('parseJobPosting/api-error', 'parseJobPosting/api-error', 'parseJobPosting/api-error', 'parseJobPosting/api-error');
+    await expect(parseJobPosting('posting')).rejects.toThrow('The AI service is temporarily unavailable.');
+  });
+
+  it('only asks the model for fields the document did not provide', async () => {
+    const requests = useFixtures('parseJobPosting/valid');
+    const extracted = { title: 'Staff Data Engineer', description: 'Own the data platform.', type: 'Contract' as const };
+    const parsed = await parseJobPosting('Staff Data Engineer\nOwn the data platform.', { extracted });
+    expect(Object.keys(requests[0].responseSchema!.properties!)).toEqual(['company', 'location', 'salaryRange', 'skills']);
+    expect(parsed).toMatchObject({ ...extracted, company: 'Tailspin Toys' });
+    // The salary came from the model without being stated, and the model is told to make up skills.
+    expect(parsed.provenance).toEqual({
+      title: 'ai-extracted',
+      company: 'ai-extracted',
+      location: 'ai-extracted',
+      type: 'ai-extracted',
+      description: 'ai-extracted',
+      skills: 'ai-generated',
+      salaryRange: 'ai-generated',
+    });
+  });
+
+  it('skips the model when the document provided every required field', async () => {
+    const requests = useFixtures();
+    const parsed = await parseJobPosting('posting', {
+      extracted: { title: 'Data Engineer', company: 'Tailspin Toys', location: 'Denver, CO', type: 'Full-time', description: 'Pipelines.', skills: ['SQL'] },
+    });
+    expect(parsed).toMatchObject({ title: 'Data Engineer', skills: ['SQL'] });
+    expect(requests).toHaveLength(0);
+  });
+});
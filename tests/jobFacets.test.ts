@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import { buildFacets, filterByFacets, readFacetParams, toggleFacetValue, workModeOf, writeFacetParams } from '../services/jobFacets';
+import { sortJobs } from '../services/jobSorting';
+import { parseSalary } from '../services/salary';
+
+const makeJob = (id: string, overrides: Partial<Job> = {}): Job => ({
+  id,
+  title: 'Engineer',
+  company: 'Northwind',
+  location: 'Denver, CO',
+  type: 'Full-time',
+  description: 'Build things.',
+  skills: ['Python'],
+  ...overrides,
+});
+
+const jobs = [
+  makeJob('a', { company: 'Northwind', skills: ['Python', 'SQL'], location: 'Remote', salary: parseSalary('$130,000') ?? undefined }),
+  makeJob('b', { company: 'Contoso', type: 'Contract', skills: ['python', 'Go'], description: 'Hybrid role, 2 days in office.' }),
+  makeJob('c', { company: 'Tailspin', skills: ['SQL'], salary: parseSalary('$60,000') ?? undefined }),
+];
+
+const optionsOf = (key: string, selection = {}) =>
+  buildFacets(jobs, selection).find(facet => facet.key === key)!.options.map(o => [o.label, o.count]);
+
+describe('buildFacets', () => {
+  it('counts each value once per job, ignoring case', () => {
+    expect(optionsOf('skills')).toEqual([['Python', 2], ['SQL', 2], ['Go', 1]]);
+  });
+
+  it('counts a facet against the other facets only, so options stay selectable', () => {
+    const selection = { type: ['Contract'] };
+    expect(optionsOf('type', selection)).toEqual([['Full-time', 2], ['Contract', 1]]);
+    expect(optionsOf('company', selection)).toEqual([['Contoso', 1]]);
+  });
+
+  it('keeps a selected value listed when no job has it', () => {
+    expect(optionsOf('company', { company: ['Fabrikam'] })).toContainEqual(['Fabrikam', 0]);
+  });
+
+  it('puts salary bands in ascending order with unknown salaries last', () => {
+    expect(optionsOf('salary').map(([label]) => label)).toEqual(['$50K – $100K', '$100K – $150K', 'Not stated']);
+  });
+});
+
+describe('filterByFacets', () => {
+  it('ORs values within a facet and ANDs across facets', () => {
+    expect(filterByFacets(jobs, { company: ['Northwind', 'Contoso'] }).map(j => j.id)).toEqual(['a', 'b']);
+    expect(filterByFacets(jobs, { company: ['Northwind', 'Contoso'], skills: ['go'] }).map(j => j.id)).toEqual(['b']);
+  });
+
+  it('detects the work mode', () => {
+    expect(jobs.map(workModeOf)).toEqual(['Remote', 'Hybrid', 'On-site']);
+  });
+});
+
+describe('facet URL parameters', () => {
+  it('round-trips the selection and leaves other parameters alone', () => {
+    const selection = toggleFacetValue(toggleFacetValue({}, 'location', 'Denver, CO'), 'skills', 'SQL');
+    const params = writeFacetParams(new URLSearchParams('sort=salary'), selection);
+    expect(params.get('sort')).toBe('salary');
+    expect(readFacetParams(new URLSearchParams(params.toString()))).toEqual({ location: ['Denver, CO'], skills: ['SQL'] });
+    expect(toggleFacetValue(selection, 'skills', 'sql').skills).toEqual([]);
+  });
+});
+
+describe('sortJobs', () => {
+  it('sorts by company and by date added', () => {
+    const keys = { scoreOf: () => undefined, addedAt: (job: Job) => ({ a: 1, b: 3 } as Record<string, number>)[job.id] };
+    expect(sortJobs(jobs, 'company', keys).map(j => j.id)).toEqual(['b', 'a', 'c']);
+    expect(sortJobs(jobs, 'added', keys).map(j => j.id)).toEqual(['b', 'a', 'c']);
+  });
+});
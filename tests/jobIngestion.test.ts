@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ingestFile, ingestText, missingPostingFields, splitPostings } from '../services/jobIngestion';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const compress = async (bytes: Uint8Array, format: 'deflate' | 'deflate-raw') => {
+  const input = new ReadableStream<Uint8Array>({ start(controller) { controller.enqueue(bytes); controller.close(); } });
+  return new Uint8Array(await new Response(input.pipeThrough(new CompressionStream(format))).arrayBuffer());
+};
+
+const concat = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => (result.set(part, offset), offset + part.length), 0);
+  return result;
+};
+
+// A minimal ZIP archive (no CRCs, which the reader doesn't check).
+const zip = async (files: Record<string, string>, deflate: boolean) => {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encode(name);
+    const raw = encode(content);
+    const data = deflate ? await compress(raw, 'deflate-raw') : raw;
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, deflate ? 8 : 0, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, deflate ? 8 : 0, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    locals.push(new Uint8Array(local.buffer), nameBytes, data);
+    centrals.push(new Uint8Array(central.buffer), nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  }
+  const directory = concat(...centrals);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, centrals.length / 2, true);
+  end.setUint16(10, centrals.length / 2, true);
+  end.setUint32(12, directory.length, true);
+  end.setUint32(16, offset, true);
+  return concat(...locals, directory, new Uint8Array(end.buffer));
+};
+
+const pdf = async (content: string) => {
+  const stream = await compress(encode(content), 'deflate');
+  return concat(
+    encode(`%PDF-1.4\n4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+    stream,
+    encode('\nendstream\nendobj\n%%EOF\n'),
+  );
+};
+
+const file = (content: string | Uint8Array, name: string, type = '') => new File([content], name, { type });
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('HTML pages', () => {
+  it('reads a JSON-LD JobPosting', async () => {
+    const html = `<html><head>
+      <script type="application/ld+json">${JSON.stringify({
+        '@context': 'https://schema.org',
+        '@graph': [{ '@type': 'Organization', name: 'Ignored' }, {
+          '@type': 'JobPosting',
+          title: 'Applied Scientist',
+          hiringOrganization: { '@type': 'Organization', name: 'Contoso' },
+          jobLocation: { '@type': 'Place', address: { addressLocality: 'Seattle', addressRegion: 'WA', addressCountry: 'US' } },
+          jobLocationType: 'TELECOMMUTE',
+          employmentType: ['FULL_TIME'],
+          description: '&lt;p&gt;Research &amp;amp; ship models.&lt;/p&gt;&lt;ul&gt;&lt;li&gt;Python&lt;/li&gt;&lt;/ul&gt;',
+          skills: 'Python, PyTorch',
+          baseSalary: { '@type': 'MonetaryAmount', currency: 'USD', value: { '@type': 'QuantitativeValue', minValue: 150000, maxValue: 190000, unitText: 'YEAR' } },
+        }],
+      })}</script>
+    </head><body><nav>Jobs Home About</nav><main><h1>Applied Scientist</h1><p>Research &amp; ship models.</p></main><footer>© Contoso</footer></body></html>`;
+
+    const posting = await ingestFile(file(html, 'job.html', 'text/html'));
+    expect(posting.format).toBe('html');
+    expect(posting.fields).toMatchObject({
+      title: 'Applied Scientist',
+      company: 'Contoso',
+      location: 'Remote / Seattle, WA, US',
+      type: 'Full-time',
+      skills: ['Python', 'PyTorch'],
+      salary: { min: 150000, max: 190000, currency: 'USD', period: 'annual', isEstimate: false },
+      description: 'Research & ship models.\n\n- Python',
+    });
+    expect(missingPostingFields(posting.fields)).toEqual([]);
+  });
+
+  it('keeps only the main content of pages without structured data', async () => {
+    const html = `<html><head><meta property="og:site_name" content="Fabrikam Careers"></head><body>
+      <header>Sign in</header><nav>All jobs</nav>
+      <main><h1>Data Engineer</h1><p>Location: Austin, TX</p><p>Build pipelines.<br>Full-time.</p><form><button>Apply</button></form></main>
+      <footer>Privacy policy</footer></body></html>`;
+
+    const posting = await ingestFile(file(html, 'saved-page.htm'));
+    expect(posting.text).toBe('Data Engineer\n\nLocation: Austin, TX\n\nBuild pipelines.\nFull-time.');
+    expect(posting.fields).toMatchObject({ title: 'Data Engineer', company: 'Fabrikam Careers', location: 'Austin, TX', type: 'Full-time' });
+    expect(missingPostingFields(posting.fields)).toEqual(['salaryRange', 'skills']);
+  });
+});
+
+describe('plain text', () => {
+  it('reads labelled lines, the stated salary and a single employment type', () => {
+    const posting = ingestText('Position: ML Engineer\nCompany: Tailspin Toys\nSkills: Python; SQL\n\nFull-time role paying $120,000 - $140,000 a year.');
+    expect(posting.fields).toMatchObject({
+      title: 'ML Engineer',
+      company: 'Tailspin Toys',
+      skills: ['Python', 'SQL'],
+      type: 'Full-time',
+      salary: { min: 120000, max: 140000, isEstimate: false },
+    });
+    expect(missingPostingFields(posting.fields)).toEqual(['location']);
+  });
+
+  it('leaves the employment type to the model when the text names several', () => {
+    expect(ingestText('Full-time or part-time, your choice.').fields.type).toBeUndefined();
+  });
+});
+
+describe('documents', () => {
+  const body = 'Job title: Platform Engineer\nCompany: Wide World Importers\nLocation: Remote\nWe are looking for an engineer to run our Kubernetes platform and build internal tooling for product teams.';
+
+  it.each([false, true])('reads Word documents (deflated: %s)', async deflate => {
+    const paragraphs = body.split('\n').map(line => `<w:p><w:r><w:t xml:space="preserve">${line.replace(/&/g, '&amp;')}</w:t></w:r></w:p>`).join('');
+    const docx = await zip({
+      '[Content_Types].xml': '<Types/>',
+      'word/document.xml': `<?xml version="1.0"?><w:document><w:body>${paragraphs}</w:body></w:document>`,
+    }, deflate);
+
+    const posting = await ingestFile(file(docx, 'spec.docx'));
+    expect(posting.text).toBe(body);
+    expect(posting.fields).toMatchObject({ title: 'Platform Engineer', company: 'Wide World Importers', location: 'Remote' });
+  });
+
+  it('keeps the text of short Word documents and rejects empty ones', async () => {
+    const docx = (paragraphs: string) => zip({
+      '[Content_Types].xml': '<Types/>',
+      'word/document.xml': `<?xml version="1.0"?><w:document><w:body>${paragraphs}</w:body></w:document>`,
+    }, true);
+
+    const posting = await ingestFile(file(await docx('<w:p><w:r><w:t>Data Engineer at Contoso</w:t></w:r></w:p>'), 'short.docx'));
+    expect(posting.text).toBe('Data Engineer at Contoso');
+    expect(posting.attachment).toBeUndefined();
+
+    await expect(ingestFile(file(await docx('<w:p><w:r><w:drawing/></w:r></w:p>'), 'logo.docx'))).rejects.toThrow('The Word document has no text to read.');
+  });
+
+  it('reads the text of PDFs', async () => {
+    const lines = body.split('\n');
+    const content = `BT /F1 11 Tf 72 720 Td (${lines[0]}) Tj 0 -14 Td [(${lines[1]})] TJ 0 -14 Td (${lines[2]}) Tj T* [(We are) -300 (looking for an engineer to run our Kubernetes platform and build internal tooling for product teams.)] TJ ET`;
+
+    const posting = await ingestFile(file(await pdf(content), 'spec.pdf', 'application/pdf'));
+    expect(posting.text).toBe(body);
+    expect(posting.attachment).toBeUndefined();
+    expect(posting.fields.title).toBe('Platform Engineer');
+  });
+
+  it('hands PDFs without readable text to the model', async () => {
+    const posting = await ingestFile(file(await pdf('BT /F1 11 Tf <0012003400560078> Tj ET'), 'scan.pdf', 'application/pdf'));
+    expect(posting.text).toBe('');
+    expect(posting.fields).toEqual({});
+    expect(posting.attachment?.mimeType).toBe('application/pdf');
+  });
+
+  it('reads emails with their attachments', async () => {
+    const eml = [
+      'From: =?UTF-8?Q?Ren=C3=A9e_Recruiter?= <renee@example.com>',
+      'Subject: Senior role at Northwind',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary="inner"',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Hi! See the spec attached.',
+      'Company: Northwind =E2=80=93 Leeds office',
+      'Pay is =E2=82=AC80,000 - =',
+      '=E2=82=AC95,000 per year.',
+      '--inner',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>Hi!</p>',
+      '--inner--',
+      '--outer',
+      'Content-Type: text/plain; name="spec.txt"',
+      'Content-Disposition: attachment; filename="spec.txt"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      btoa('Job title: Senior Analyst\nLocation: Leeds, UK'),
+      '--outer--',
+      '',
+    ].join('\r\n');
+
+    const posting = await ingestFile(file(eml, 'recruiter.eml'));
+    expect(posting.text).toContain('From: Renée Recruiter <renee@example.com>');
+    expect(posting.text).toContain('Attachment spec.txt:\nJob title: Senior Analyst');
+    expect(posting.fields).toMatchObject({
+      company: 'Northwind – Leeds office',
+      title: 'Senior Analyst',
+      location: 'Leeds, UK',
+      salary: { min: 80000, max: 95000, currency: 'EUR', period: 'annual' },
+    });
+    expect(posting.fields.description).not.toContain('Subject:');
+  });
+
+  it('rejects other file types', async () => {
+    await expect(ingestFile(file('x', 'photo.png', 'image/png'))).rejects.toThrow('Unsupported file type.');
+  });
+});
+
+describe('splitting documents with several postings', () => {
+  const analyst = 'Job title: Analyst\nWe are hiring an analyst to build dashboards, talk to stakeholders every week, and improve our reporting across all of the teams.';
+  const lead = 'Job title: Team Lead\nLocation: Oslo\nThe lead runs the analyst team, sets priorities with product managers and reviews every dashboard before it goes out.';
+
+  it('splits on separator lines and drops greetings', () => {
+    const postings = splitPostings(ingestText(`Hello, two roles for you.\n\n***\n${analyst}\n\n* * *\n${lead}\n___\nThanks, Sam`, 'roles.txt'));
+    expect(postings.map(posting => posting.source)).toEqual(['roles.txt #1', 'roles.txt #2']);
+    expect(postings[0].text).toBe(analyst);
+    expect(postings[1].fields).toMatchObject({ title: 'Team Lead', location: 'Oslo' });
+  });
+
+  it('splits on repeated title lines', () => {
+    expect(splitPostings(ingestText(`${analyst}\n${lead}`)).map(posting => posting.fields.title)).toEqual(['Analyst', 'Team Lead']);
+  });
+
+  it('leaves a single posting whole', () => {
+    const posting = ingestText(`${analyst}\n---\nApply by Friday.`);
+    expect(splitPostings(posting)).toEqual([posting]);
+  });
+
+  it('uses each JobPosting of a page', async () => {
+    const jobPosting = (title: string) => ({ '@type': 'JobPosting', title, hiringOrganization: 'Contoso', description: `<p>${title} role.</p>` });
+    const html = `<script type="application/ld+json">${JSON.stringify({ '@context': 'https://schema.org', '@graph': [jobPosting('Designer'), jobPosting('Writer')] })}</script><main>Open roles</main>`;
+    const postings = splitPostings(await ingestFile(file(html, 'careers.html')));
+    expect(postings.map(posting => [posting.fields.title, posting.text])).toEqual([['Designer', 'Designer role.'], ['Writer', 'Writer role.']]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import { jobFromJobPosting, jobToJobPosting, jobsToJsonLd } from '../services/jobPosting';
+import { exportJobsAsJsonLd, readImportFile } from '../services/jobTransfer';
+
+const job: Job = {
+  id: 'remotive-42',
+  title: 'Backend Engineer',
+  company: 'Contoso & Sons',
+  location: 'Remote / Berlin, BE, Germany',
+  type: 'Contract',
+  description: 'Build APIs <fast>.\n\nYou will:\n- own services\n- write Go',
+  skills: ['Go', 'PostgreSQL'],
+  salaryRange: '€70–90k',
+  salary: { min: 70000, max: 90000, currency: 'EUR', period: 'annual', isEstimate: false },
+  sources: ['Remotive'],
+};
+
+describe('Job to JobPosting', () => {
+  it('maps every field onto schema.org properties', () => {
+    expect(jobToJobPosting(job)).toEqual({
+      '@type': 'JobPosting',
+      identifier: { '@type': 'PropertyValue', name: 'ai-job-finder', value: 'remotive-42' },
+      title: 'Backend Engineer',
+      description: '<p>Build APIs &lt;fast&gt;.</p><p>You will:<br>- own services<br>- write Go</p>',
+      hiringOrganization: { '@type': 'Organization', name: 'Contoso & Sons' },
+      employmentType: 'CONTRACTOR',
+      jobLocationType: 'TELECOMMUTE',
+      jobLocation: { '@type': 'Place', address: { '@type': 'PostalAddress', addressLocality: 'Berlin', addressRegion: 'BE', addressCountry: 'Germany' } },
+      skills: ['Go', 'PostgreSQL'],
+      baseSalary: {
+        '@type': 'MonetaryAmount',
+        currency: 'EUR',
+        value: { '@type': 'QuantitativeValue', minValue: 70000, maxValue: 90000, unitText: 'YEAR' },
+      },
+    });
+  });
+
+  it('exports estimated salaries as estimatedSalary', () => {
+    const posting = jobToJobPosting({ ...job, salary: { ...job.salary!, isEstimate: true } });
+    expect(posting.baseSalary).toBeUndefined();
+    expect(posting.estimatedSalary).toMatchObject({ currency: 'EUR' });
+  });
+
+  it('converts back to the same job, apart from what schema.org has no place for', () => {
+    const { job: converted, errors } = jobFromJobPosting(jobsToJsonLd([job]));
+    expect(errors).toEqual([]);
+    const { sources: _sources, ...rest } = job;
+    expect(converted).toEqual({ ...rest, salaryRange: '€70,000 – €90,000 per year' });
+  });
+
+  it('wraps several jobs in a graph', () => {
+    const document = jobsToJsonLd([job, { ...job, id: 'other' }]);
+    expect(document['@context']).toBe('https://schema.org');
+    expect(document['@graph']).toHaveLength(2);
+  });
+});
+
+describe('JobPosting to Job', () => {
+  const posting = {
+    '@context': 'https://schema.org',
+    '@type': 'JobPosting',
+    title: 'Support Specialist',
+    hiringOrganization: 'Fabrikam',
+    jobLocation: { '@type': 'Place', address: 'Leeds, UK' },
+    description: 'Help customers.',
+  };
+
+  it('defaults the employment type and skills and derives a stable id', () => {
+    const first = jobFromJobPosting(posting).job;
+    expect(first).toMatchObject({ title: 'Support Specialist', company: 'Fabrikam', location: 'Leeds, UK', type: 'Full-time', skills: [] });
+    expect(first?.id).toMatch(/^jsonld-/);
+    expect(jobFromJobPosting({ ...posting }).job?.id).toBe(first?.id);
+  });
+
+  it('reports every property it cannot use', () => {
+    const { job: converted, errors } = jobFromJobPosting({
+      '@type': 'JobPosting',
+      title: ' ',
+      employmentType: 'VOLUNTEER',
+      baseSalary: { '@type': 'MonetaryAmount', currency: 'dollars', value: 50000 },
+    });
+    expect(converted).toBeNull();
+    expect(errors).toEqual([
+      '"title" must be a non-empty string.',
+      '"hiringOrganization" must name the employer.',
+      '"jobLocation" or a "jobLocationType" of TELECOMMUTE is required.',
+      '"description" must be a non-empty string.',
+      '"employmentType" "VOLUNTEER" matches none of Full-time, Part-time, Contract, Internship.',
+      '"baseSalary" must be a MonetaryAmount with a currency code and a positive value or minValue and maxValue.',
+    ]);
+    expect(jobFromJobPosting({ '@type': 'Organization' }).errors).toEqual(['Record is not a schema.org JobPosting.']);
+  });
+});
+
+describe('importing JSON-LD files', () => {
+  it('imports every posting in the file and reports the invalid ones', () => {
+    const file = JSON.stringify([
+      { '@context': 'https://schema.org', '@type': 'JobPosting', title: 'Analyst', hiringOrganization: { name: 'Northwind' }, jobLocationType: 'TELECOMMUTE', description: 'Analyse.' },
+      { '@context': 'https://schema.org', '@type': 'JobPosting', title: 'No employer', description: 'x' },
+    ]);
+    const report = readImportFile('postings.jsonld', file, []);
+    expect(report.added).toHaveLength(1);
+    expect(report.added[0]).toMatchObject({ title: 'Analyst', company: 'Northwind', location: 'Remote' });
+    expect(report.invalid).toEqual([{ index: 1, errors: expect.arrayContaining(['"hiringOrganization" must name the employer.']) }]);
+  });
+
+  it('finds exported jobs unchanged when the file is imported again', () => {
+    const report = readImportFile('saved-jobs.jsonld', exportJobsAsJsonLd([job, { ...job, id: 'ai-7', salaryRange: undefined, salary: undefined, sources: undefined }]), [job]);
+    expect(report.unchanged).toEqual([job]);
+    expect(report.added.map(added => added.id)).toEqual(['ai-7']);
+    expect(report.conflicts).toEqual([]);
+  });
+});
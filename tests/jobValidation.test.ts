@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { coerceJobType, normalizeJob, normalizeJobs, validateJob, validateSkillList } from '../services/jobValidation';
+
+const record = {
+  id: 'model-id',
+  title: 'Research Engineer',
+  company: 'Northwind AI',
+  location: 'Remote',
+  type: 'Full-time',
+  description: 'Train and evaluate language models.',
+  skills: ['Python', 'JAX'],
+};
+
+describe('coerceJobType', () => {
+  it.each([
+    ['full time', 'Full-time'],
+    ['FULL_TIME', 'Full-time'],
+    ['Permanent', 'Full-time'],
+    ['part-time', 'Part-time'],
+    ['Contractor', 'Contract'],
+    ['Freelance', 'Contract'],
+    ['Summer Intern', 'Internship'],
+  ])('maps %s to %s', (value, expected) => {
+    expect(coerceJobType(value)).toBe(expected);
+  });
+
+  it('returns null for unknown values', () => {
+    expect(coerceJobType('Gig')).toBeNull();
+    expect(coerceJobType(42)).toBeNull();
+  });
+});
+
+describe('normalizeJob', () => {
+  it('ignores the model id and derives one from the content', () => {
+    const { job } = normalizeJob(record);
+    expect(job?.id).toMatch(/^ai-/);
+    expect(normalizeJob({ ...record, id: 'other' }).job?.id).toBe(job?.id);
+    expect(normalizeJob({ ...record, title: 'Staff Research Engineer' }).job?.id).not.toBe(job?.id);
+  });
+
+  it('defaults a missing type to Full-time but rejects unknown ones', () => {
+    expect(normalizeJob({ ...record, type: undefined }).job?.type).toBe('Full-time');
+    expect(normalizeJob({ ...record, type: 'Gig' }).errors[0]).toContain('"type" must be one of');
+  });
+
+  it('limits long fields and the number of skills', () => {
+    const skills = Array.from({ length: 30 }, (_, i) => `Skill ${i}`);
+    const { job } = normalizeJob({ ...record, title: 'Engineer '.repeat(40), description: 'word '.repeat(5000), skills });
+    expect(job!.title.length).toBeLessThanOrEqual(150);
+    expect(job!.title.endsWith('…')).toBe(true);
+    expect(job!.description.length).toBeLessThanOrEqual(8000);
+    expect(job!.skills).toHaveLength(15);
+  });
+
+  it('reports every missing required field', () => {
+    const { job, errors } = normalizeJob({ title: 'Research Engineer', skills: [] });
+    expect(job).toBeNull();
+    expect(errors).toEqual([
+      '"company" must be a non-empty string.',
+      '"location" must be a non-empty string.',
+      '"description" must be a non-empty string.',
+      '"skills" must list at least one skill.',
+    ]);
+  });
+
+  it('produces jobs that pass strict validation', () => {
+    const { job } = normalizeJob({ ...record, type: 'contract', skills: 'Python; JAX', salaryRange: null });
+    expect(validateJob(job).errors).toEqual([]);
+  });
+});
+
+describe('normalizeJobs', () => {
+  it('keeps ids unique and reports rejected records by index', () => {
+    const { jobs, rejected } = normalizeJobs([record, { ...record }, 'not a job']);
+    expect(jobs).toHaveLength(2);
+    expect(jobs[1].id).toBe(`${jobs[0].id}-2`);
+    expect(rejected).toEqual([{ index: 2, errors: ['Record is not an object.'] }]);
+  });
+});
+
+describe('validateJob', () => {
+  it('keeps field provenance and rejects unknown fields or values', () => {
+    const provenance = { title: 'user-edited', skills: 'ai-generated' };
+    expect(validateJob({ ...record, provenance }).job?.provenance).toEqual(provenance);
+    expect(validateJob({ ...record, provenance: { id: 'user-edited' } }).errors).toEqual([
+      '"provenance" must map job fields to one of ai-extracted, ai-generated, user-edited when present.',
+    ]);
+    expect(validateJob({ ...record, provenance: { title: 'guessed' } }).job).toBeNull();
+  });
+});
+
+describe('validateSkillList', () => {
+  it('requires a short list of distinct skills', () => {
+    expect(validateSkillList(['Python', 'SQL'])).toEqual([]);
+    expect(validateSkillList([])).toEqual(['List at least one skill.']);
+    expect(validateSkillList(['Python', 'python', 'SQL', 'SQL', 'x'.repeat(41)])).toEqual([
+      `Skills must be at most 40 characters: ${'x'.repeat(41)}.`,
+      'Skills are listed more than once: python, SQL.',
+    ]);
+    expect(validateSkillList(Array.from({ length: 16 }, (_, i) => `Skill ${i}`))).toEqual(['List at most 15 skills.']);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { backoffDelay, createRequestScheduler } from '../services/requestScheduler';
+import { AuthenticationError, LLMError, QuotaExceededError, RateLimitError, ServiceUnavailableError, classifyLLMError, toServiceError } from '../services/llmErrors';
+import { isAbortError } from '../services/llmClient';
+
+const options = { maxConcurrent: 2, maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 8000, random: () => 0 };
+
+describe('classifyLLMError', () => {
+  it.each([
+    [Object.assign(new Error('Too many requests'), { status: 429 }), RateLimitError],
+    [new Error('got status: 429 Too Many Requests. Quota exceeded for metric: GenerateRequestsPerDayPerProjectPerModel-FreeTier'), QuotaExceededError],
+    [new Error('got status: 503 Service Unavailable.'), ServiceUnavailableError],
+    [new Error('Model server responded with status 401: invalid key.'), AuthenticationError],
+    [new TypeError('Failed to fetch'), ServiceUnavailableError],
+  ])('classifies %s', (error, expected) => {
+    expect(classifyLLMError(error)).toBeInstanceOf(expected);
+  });
+
+  it('reads the suggested retry delay', () => {
+    const error = classifyLLMError(new Error('got status: 429 Too Many Requests. {"@type": "RetryInfo", "retryDelay": "38s"}'));
+    expect((error as RateLimitError).retryAfterMs).toBe(38000);
+  });
+
+  it('leaves bad requests and cancellations alone', () => {
+    const badRequest = new Error('got status: 400 Bad Request.');
+    expect(classifyLLMError(badRequest)).toBe(badRequest);
+    const abort = new DOMException('Stopped', 'AbortError');
+    expect(classifyLLMError(abort)).toBe(abort);
+  });
+
+  it('keeps typed errors and wraps the rest with the operation message', () => {
+    const rateLimit = new RateLimitError();
+    expect(toServiceError(rateLimit, 'Failed.')).toBe(rateLimit);
+    const wrapped = toServiceError(new Error('boom'), 'Failed.');
+    expect(wrapped).toBeInstanceOf(LLMError);
+    expect(wrapped.message).toBe('Failed.');
+  });
+});
+
+describe('backoffDelay', () => {
+  it('grows exponentially up to the cap, scaled by the jitter', () => {
+    expect([0, 1, 2, 3, 4].map(attempt => backoffDelay(attempt, 1000, 8000, () => 1))).toEqual([1000, 2000, 4000, 8000, 8000]);
+    expect(backoffDelay(3, 1000, 8000, () => 0.5)).toBe(4000);
+  });
+});
+
+describe('createRequestScheduler', () => {
+  it('retries retryable errors and reports each retry', async () => {
+    const scheduler = createRequestScheduler(options);
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('got status: 503 Service Unavailable.'))
+      .mockRejectedValueOnce(Object.assign(new Error('slow down'), { status: 429 }))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+    expect(await scheduler.run(task, { onRetry })).toBe('ok');
+    expect(onRetry.mock.calls.map(([error, attempt]) => [error.constructor, attempt])).toEqual([[ServiceUnavailableError, 1], [RateLimitError, 2]]);
+  });
+
+  it('gives up after the last retry with the typed error', async () => {
+    const scheduler = createRequestScheduler(options);
+    const task = vi.fn().mockRejectedValue(new Error('got status: 500 Internal Server Error.'));
+    await expect(scheduler.run(task)).rejects.toBeInstanceOf(ServiceUnavailableError);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    const scheduler = createRequestScheduler(options);
+    const task = vi.fn().mockRejectedValue(new Error('got status: 403 Forbidden.'));
+    await expect(scheduler.run(task)).rejects.toBeInstanceOf(AuthenticationError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs at most `maxConcurrent` tasks at once', async () => {
+    const scheduler = createRequestScheduler(options);
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    };
+    await Promise.all(Array.from({ length: 5 }, () => scheduler.run(task)));
+    expect(peak).toBe(2);
+  });
+
+  it('drops a queued task whose caller aborts', async () => {
+    const scheduler = createRequestScheduler({ ...options, maxConcurrent: 1 });
+    let finish: () => void = () => {};
+    const first = scheduler.run(() => new Promise<void>(resolve => { finish = resolve; }));
+    const controller = new AbortController();
+    const queuedTask = vi.fn();
+    const queued = scheduler.run(queuedTask, { signal: controller.signal });
+    controller.abort();
+    expect(isAbortError(await queued.catch(e => e))).toBe(true);
+    finish();
+    await first;
+    expect(queuedTask).not.toHaveBeenCalled();
+  });
+});
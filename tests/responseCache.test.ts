@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createResponseCache } from '../services/responseCache';
+import { isAbortError } from '../services/llmClient';
+
+const HOUR = 60 * 60 * 1000;
+
+// A producer that resolves only when told to, streaming `text` in two chunks first.
+const deferred = (text: string) => {
+  let finish: () => void = () => {};
+  const produce = vi.fn((signal: AbortSignal, onChunk: (textSoFar: string) => void) => new Promise<string>((resolve, reject) => {
+    onChunk(text.slice(0, 2));
+    signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    finish = () => {
+      onChunk(text);
+      resolve(text);
+    };
+  }));
+  return { produce, finish: () => finish() };
+};
+
+describe('createResponseCache', () => {
+  it('reuses a value until it expires', async () => {
+    let time = 0;
+    const cache = createResponseCache({ maxEntries: 10, maxSize: 1000, now: () => time });
+    const produce = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+    const onChunk = vi.fn();
+
+    expect(await cache.run('k', produce, { ttlMs: HOUR })).toBe('first');
+    expect(await cache.run('k', produce, { ttlMs: HOUR, onChunk })).toBe('first');
+    expect(onChunk).toHaveBeenCalledWith('first');
+    time = HOUR;
+    expect(await cache.run('k', produce, { ttlMs: HOUR })).toBe('second');
+    expect(produce).toHaveBeenCalledTimes(2);
+  });
+
+  it('asks again when refreshing and keeps the new value', async () => {
+    const cache = createResponseCache({ maxEntries: 10, maxSize: 1000 });
+    const produce = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+    await cache.run('k', produce, { ttlMs: HOUR });
+    expect(await cache.run('k', produce, { ttlMs: HOUR, refresh: true })).toBe('second');
+    expect(await cache.run('k', produce, { ttlMs: HOUR })).toBe('second');
+  });
+
+  it('does not store failures', async () => {
+    const cache = createResponseCache({ maxEntries: 10, maxSize: 1000 });
+    const produce = vi.fn().mockRejectedValueOnce(new Error('quota')).mockResolvedValueOnce('ok');
+    await expect(cache.run('k', produce, { ttlMs: HOUR })).rejects.toThrow('quota');
+    expect(await cache.run('k', produce, { ttlMs: HOUR })).toBe('ok');
+  });
+
+  it('evicts the least recently used entries by count and by size', async () => {
+    const cache = createResponseCache({ maxEntries: 2, maxSize: 20 });
+    const value = (text: string) => () => Promise.resolve(text);
+    await cache.run('a', value('a'), { ttlMs: HOUR });
+    await cache.run('b', value('b'), { ttlMs: HOUR });
+    await cache.run('a', value('unused'), { ttlMs: HOUR });
+    await cache.run('c', value('c'), { ttlMs: HOUR });
+    expect(await cache.run('a', value('new a'), { ttlMs: HOUR })).toBe('a');
+    expect(await cache.run('b', value('new b'), { ttlMs: HOUR })).toBe('new b');
+
+    // Nineteen characters of JSON leave no room for anything else.
+    await cache.run('big', value('x'.repeat(17)), { ttlMs: HOUR });
+    expect(cache.size).toBe(1);
+  });
+
+  it('shares one request between identical callers, streaming to each', async () => {
+    const cache = createResponseCache({ maxEntries: 10, maxSize: 1000 });
+    const { produce, finish } = deferred('hello');
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const a = cache.run('k', produce, { ttlMs: HOUR, onChunk: first });
+    await Promise.resolve();
+    const b = cache.run('k', produce, { ttlMs: HOUR, onChunk: second });
+    finish();
+
+    expect(await Promise.all([a, b])).toEqual(['hello', 'hello']);
+    expect(produce).toHaveBeenCalledTimes(1);
+    expect(first.mock.calls).toEqual([['he'], ['hello']]);
+    expect(second.mock.calls).toEqual([['he'], ['hello']]);
+  });
+
+  it('cancels the shared request only when every caller has aborted', async () => {
+    const cache = createResponseCache({ maxEntries: 10, maxSize: 1000 });
+    const { produce, finish } = deferred('hello');
+    const firstController = new AbortController();
+    const secondController = new AbortController();
+
+    const a = cache.run('k', produce, { ttlMs: HOUR, signal: firstController.signal });
+    const b = cache.run('k', produce, { ttlMs: HOUR, signal: secondController.signal });
+    firstController.abort();
+    expect(isAbortError(await a.catch(e => e))).toBe(true);
+    await Promise.resolve();
+    expect(produce.mock.calls[0][0].aborted).toBe(false);
+    finish();
+    expect(await b).toBe('hello');
+  });
+
+  it('cancels the request once its only caller aborts, and starts afresh for the next', async () => {
+    const cache = createResponseCache({ maxEntries: 10, maxSize: 1000 });
+    const { produce } = deferred('hello');
+    const controller = new AbortController();
+
+    const a = cache.run('k', produce, { ttlMs: HOUR, signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+    expect(isAbortError(await a.catch(e => e))).toBe(true);
+    expect(produce.mock.calls[0][0].aborted).toBe(true);
+
+    const again = cache.run('k', () => Promise.resolve('fresh'), { ttlMs: HOUR });
+    expect(await again).toBe('fresh');
+  });
+});
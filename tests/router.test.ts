@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { SearchFilters } from '../types';
+import { formatRoute, parseRoute } from '../services/router';
+import type { AppRoute } from '../services/router';
+
+const filters: SearchFilters = {
+  query: 'Rust Engineer',
+  location: 'Berlin',
+  type: 'Full-time',
+  salary: '',
+  workLocation: 'Hybrid',
+  industry: '',
+};
+
+describe('parseRoute', () => {
+  it('falls back to the search view without a search', () => {
+    expect(parseRoute('')).toEqual({ view: 'search', filters: undefined, page: 1, facets: {}, sort: 'relevance', jobId: undefined });
+  });
+
+  it('ignores unknown views, bad pages and sorts', () => {
+    expect(parseRoute('?view=admin&page=-2&sort=random')).toMatchObject({ view: 'search', page: 1, sort: 'relevance' });
+    expect(parseRoute('?view=saved&sort=toString').sort).toBe('relevance');
+    expect(parseRoute('?view=saved&sort=constructor').sort).toBe('relevance');
+  });
+
+  it('reads missing filters as empty once any filter is given', () => {
+    expect(parseRoute('?q=Go').filters).toEqual({ query: 'Go', location: '', type: '', salary: '', workLocation: '', industry: '' });
+  });
+
+  it('reads an unknown job type or work preference as any', () => {
+    expect(parseRoute('?q=Go&jobType=fulltime&workplace=Hybrid').filters).toMatchObject({ type: 'Full-time', workLocation: 'Hybrid' });
+    expect(parseRoute('?q=Go&jobType=Volunteer&workplace=Moon').filters).toMatchObject({ type: '', workLocation: '' });
+  });
+
+  it('keeps facet parameters apart from the search filters', () => {
+    const route = parseRoute('?q=Go&where=Paris&location=Remote&type=Contract');
+    expect(route.filters?.location).toBe('Paris');
+    expect(route.filters?.type).toBe('');
+    expect(route.facets).toEqual({ type: ['Contract'], location: ['Remote'] });
+  });
+
+  it('drops the page and list filters on views without a list, but keeps the open job', () => {
+    expect(parseRoute('?view=board&page=3&skills=SQL&q=Go&job=abc')).toEqual({
+      view: 'board', filters: undefined, page: 1, facets: {}, sort: 'relevance', jobId: 'abc',
+    });
+  });
+});
+
+describe('formatRoute', () => {
+  it('round-trips a search with a page, facets, sort and open job', () => {
+    const route: AppRoute = { view: 'search', filters, page: 3, facets: { skills: ['Rust', 'C++'] }, sort: 'salary', jobId: 'remote-42' };
+    const query = formatRoute(route);
+    expect(query).toBe('?q=Rust+Engineer&where=Berlin&jobType=Full-time&workplace=Hybrid&skills=Rust&skills=C%2B%2B&sort=salary&page=3&job=remote-42');
+    expect(parseRoute(query)).toEqual(route);
+  });
+
+  it('writes an empty query so an empty search still overrides the last one', () => {
+    const empty = { query: '', location: '', type: '', salary: '', workLocation: '', industry: '' };
+    expect(formatRoute({ view: 'search', filters: empty, page: 1, facets: {}, sort: 'relevance' })).toBe('?q=');
+    expect(parseRoute('?q=').filters).toEqual(empty);
+  });
+
+  it('leaves the search out of other views', () => {
+    expect(formatRoute({ view: 'saved', filters, page: 2, facets: {}, sort: 'added' })).toBe('?view=saved&sort=added&page=2');
+    expect(formatRoute({ view: 'settings', filters, page: 2, facets: { type: ['Contract'] }, sort: 'added' })).toBe('?view=settings');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import { annualizeSalary, convertAmount, desiredAnnualSalary, findSalaryInText, meetsSalaryFloor, parseSalary } from '../services/salary';
+import { sortJobs } from '../services/jobSorting';
+import { normalizeJob } from '../services/jobValidation';
+
+const job = (id: string, salaryRange?: string): Job => ({
+  id,
+  title: 'Data Engineer',
+  company: 'Tailspin Toys',
+  location: 'Denver, CO',
+  type: 'Full-time',
+  description: 'Build pipelines.',
+  skills: ['SQL'],
+  ...(salaryRange ? { salaryRange, salary: parseSalary(salaryRange) ?? undefined } : {}),
+});
+
+describe('parseSalary', () => {
+  it.each([
+    ['$120,000 - $150,000', { min: 120000, max: 150000, currency: 'USD', period: 'annual' }],
+    ['$140k-$170k', { min: 140000, max: 170000, currency: 'USD', period: 'annual' }],
+    ['€55–65k per year', { min: 55000, max: 65000, currency: 'EUR', period: 'annual' }],
+    ['£500/day', { min: 500, max: 500, currency: 'GBP', period: 'daily' }],
+    ['USD 60-75 an hour', { min: 60, max: 75, currency: 'USD', period: 'hourly' }],
+    ['45.000 - 55.000 EUR', { min: 45000, max: 55000, currency: 'EUR', period: 'annual' }],
+    ['CA$95,000 to CA$110,000 annually', { min: 95000, max: 110000, currency: 'CAD', period: 'annual' }],
+    ['$8,500 per month', { min: 8500, max: 8500, currency: 'USD', period: 'monthly' }],
+    ['1.2m ¥', { min: 1200000, max: 1200000, currency: 'JPY', period: 'annual' }],
+  ])('reads %s', (text, expected) => {
+    expect(parseSalary(text)).toEqual({ ...expected, isEstimate: false });
+  });
+
+  it('guesses the period from the amount when none is given', () => {
+    expect(parseSalary('$65')?.period).toBe('hourly');
+    expect(parseSalary('$6,000')?.period).toBe('monthly');
+  });
+
+  it('marks estimates', () => {
+    expect(parseSalary('~$90k')?.isEstimate).toBe(true);
+    expect(parseSalary('Estimated $90k')?.isEstimate).toBe(true);
+    expect(parseSalary('$90k', { isEstimate: true })?.isEstimate).toBe(true);
+  });
+
+  it('returns null without an amount', () => {
+    expect(parseSalary('Competitive')).toBeNull();
+    expect(parseSalary('')).toBeNull();
+  });
+});
+
+describe('findSalaryInText', () => {
+  it('skips numbers without a currency and reads the period next to the amount', () => {
+    const posting = 'We need 5+ years of experience and work 4 days a week.\nPay: $62 - $70 per hour, plus bonus.';
+    expect(findSalaryInText(posting)).toEqual({ min: 62, max: 70, currency: 'USD', period: 'hourly', isEstimate: false });
+  });
+
+  it('returns null when the posting names no salary', () => {
+    expect(findSalaryInText('Senior Data Engineer with 8 years of Python.')).toBeNull();
+  });
+});
+
+describe('annualizeSalary', () => {
+  const rates = { USD: 1, EUR: 0.8 };
+
+  it('annualises and converts with the given rate table', () => {
+    expect(annualizeSalary({ min: 40, max: 50, currency: 'EUR', period: 'hourly', isEstimate: false }, 'USD', rates))
+      .toEqual({ min: 104000, max: 130000 });
+  });
+
+  it('returns null for currencies missing from the table', () => {
+    expect(convertAmount(100, 'XYZ', 'USD', rates)).toBeNull();
+    expect(annualizeSalary({ min: 1, max: 2, currency: 'XYZ', period: 'annual', isEstimate: false }, 'USD', rates)).toBeNull();
+  });
+});
+
+describe('salary filtering and sorting', () => {
+  it('reads the desired salary as a yearly floor', () => {
+    expect(desiredAnnualSalary('$120,000')).toBe(120000);
+    expect(desiredAnnualSalary('$50/hour')).toBe(104000);
+    expect(desiredAnnualSalary('')).toBeNull();
+  });
+
+  it('keeps jobs whose range reaches the floor and jobs with no salary', () => {
+    expect(meetsSalaryFloor(job('a', '$100,000 - $130,000'), 120000)).toBe(true);
+    expect(meetsSalaryFloor(job('b', '$80,000 - $95,000'), 120000)).toBe(false);
+    expect(meetsSalaryFloor(job('c'), 120000)).toBe(true);
+  });
+
+  it('sorts by annual salary with unknown salaries last', () => {
+    const jobs = [job('none'), job('hourly', '$70/hour'), job('annual', '$120,000'), job('monthly', '$9,000 a month')];
+    const keys = { scoreOf: () => undefined, addedAt: () => undefined };
+    expect(sortJobs(jobs, 'salary', keys).map(j => j.id)).toEqual(['hourly', 'annual', 'monthly', 'none']);
+    expect(sortJobs(jobs, 'relevance', keys)).toBe(jobs);
+  });
+});
+
+describe('normalizeJob salary', () => {
+  it('parses model-written salaries as estimates', () => {
+    const { job: normalized } = normalizeJob({ ...job('x'), salaryRange: '$120,000 - $150,000' });
+    expect(normalized?.salary).toEqual({ min: 120000, max: 150000, currency: 'USD', period: 'annual', isEstimate: true });
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job, SavedSearch } from '../types';
+import type { JobSourceProvider } from '../services/jobSources';
+import type { SavedSearchRun } from '../services/savedSearches';
+import { applySavedSearchRun, createSavedSearch, findNewMatches, isSearchDue, notifyNewMatches, runSavedSearch, startSavedSearchScheduler } from '../services/savedSearches';
+
+const filters = { query: 'Rust', location: 'Berlin', type: 'Full-time', salary: '', workLocation: '', industry: '' };
+
+const makeJob = (id: string, title: string, company = 'Northwind'): Job => ({
+  id, title, company, location: 'Berlin', type: 'Full-time', description: `${title} at ${company}.`, skills: ['Rust'],
+});
+
+const providerReturning = (...batches: Job[][]): JobSourceProvider => {
+  const fetchJobs = vi.fn();
+  batches.forEach(batch => fetchJobs.mockResolvedValueOnce(batch));
+  return { id: 'test', name: 'Test feed', fetchJobs };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('findNewMatches', () => {
+  it('treats reworded or re-issued postings of the same opening as seen', () => {
+    const search = createSavedSearch('Rust', filters, [makeJob('1', 'Sr. Rust Engineer', 'Northwind Inc.')]);
+    const { newJobs, seenJobKeys } = findNewMatches(search.seenJobKeys, [
+      makeJob('2', 'Senior Rust Engineer', 'Northwind'),
+      makeJob('3', 'Inference Engineer'),
+      makeJob('4', 'Inference Engineer'),
+    ]);
+    expect(newJobs.map(job => job.id)).toEqual(['3']);
+    expect(seenJobKeys).toHaveLength(2);
+  });
+});
+
+describe('isSearchDue', () => {
+  const search: SavedSearch = { ...createSavedSearch('Rust', filters), refreshMinutes: 60, lastRunAt: '2026-01-01T10:00:00Z' };
+
+  it('is due once the interval has passed', () => {
+    expect(isSearchDue(search, Date.parse('2026-01-01T10:59:00Z'))).toBe(false);
+    expect(isSearchDue(search, Date.parse('2026-01-01T11:00:00Z'))).toBe(true);
+  });
+
+  it('never runs manual searches on its own', () => {
+    expect(isSearchDue({ ...search, refreshMinutes: undefined }, Date.now())).toBe(false);
+  });
+});
+
+describe('runSavedSearch', () => {
+  it('flags only jobs the search has not returned before', async () => {
+    const provider = providerReturning([makeJob('1', 'Rust Engineer')], [makeJob('1', 'Rust Engineer'), makeJob('2', 'Inference Engineer')]);
+    const search = createSavedSearch('Rust', filters);
+    const first = await runSavedSearch(search, [provider]);
+    expect(first.newJobs.map(job => job.id)).toEqual(['1']);
+    expect(first.run.lastRunAt).toBeDefined();
+
+    const second = await runSavedSearch(applySavedSearchRun(search, first.run), [provider]);
+    expect(second.newJobs.map(job => job.id)).toEqual(['2']);
+  });
+});
+
+describe('applySavedSearchRun', () => {
+  it('keeps changes made to the search while it ran', async () => {
+    const search = { ...createSavedSearch('Rust', filters, [makeJob('1', 'Rust Engineer')]), refreshMinutes: 15 };
+    const { run } = await runSavedSearch(search, [providerReturning([makeJob('2', 'Inference Engineer')])]);
+    // Renamed, set to manual, and another run that found a third job, all before this run finished.
+    const { run: otherRun } = await runSavedSearch(search, [providerReturning([makeJob('3', 'Compiler Engineer')])]);
+    const current = applySavedSearchRun({ ...search, name: 'Rust in Berlin', refreshMinutes: undefined }, otherRun);
+
+    const updated = applySavedSearchRun(current, run);
+    expect(updated.name).toBe('Rust in Berlin');
+    expect(updated.refreshMinutes).toBeUndefined();
+    expect(updated.lastRunAt).toBe(run.lastRunAt);
+    expect(findNewMatches(updated.seenJobKeys, [makeJob('1', 'Rust Engineer'), makeJob('2', 'Inference Engineer'), makeJob('3', 'Compiler Engineer')]).newJobs).toEqual([]);
+  });
+});
+
+describe('startSavedSearchScheduler', () => {
+  it('runs due searches and reports failures without retrying them on every tick', async () => {
+    vi.useFakeTimers();
+    const provider: JobSourceProvider = { id: 'test', name: 'Test feed', fetchJobs: vi.fn().mockRejectedValue(new Error('offline')) };
+    let searches: SavedSearch[] = [{ ...createSavedSearch('Rust', filters), refreshMinutes: 15 }];
+    const onRun = vi.fn((run: SavedSearchRun) => { searches = searches.map(search => applySavedSearchRun(search, run)); });
+
+    const stop = startSavedSearchScheduler({ getSearches: () => searches, providers: [provider], onRun });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onRun).toHaveBeenCalledTimes(1);
+    expect(onRun.mock.calls[0][0].lastError).toBe('Failed to fetch job listings from every configured source.');
+
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(onRun).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(onRun).toHaveBeenCalledTimes(2);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(onRun).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('notifyNewMatches', () => {
+  it('shows a system notification only when permission was granted', () => {
+    const NotificationMock = vi.fn();
+    vi.stubGlobal('Notification', Object.assign(NotificationMock, { permission: 'granted' }));
+    const search = createSavedSearch('Rust in Berlin', filters);
+    notifyNewMatches(search, [makeJob('1', 'Rust Engineer'), makeJob('2', 'Inference Engineer')]);
+    expect(NotificationMock).toHaveBeenCalledWith('2 new matches for "Rust in Berlin"', expect.objectContaining({
+      body: 'Rust Engineer at Northwind and 1 more',
+    }));
+
+    NotificationMock.mockClear();
+    vi.stubGlobal('Notification', Object.assign(NotificationMock, { permission: 'denied' }));
+    notifyNewMatches(search, [makeJob('1', 'Rust Engineer')]);
+    expect(NotificationMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Job } from '../types';
+import { createJobSearchIndex, highlightSegments, matchSnippet, tokenize } from '../services/searchIndex';
+
+const makeJob = (id: string, title: string, company: string, description: string, skills: string[]): Job => ({
+  id, title, company, description, skills, location: 'Berlin, Germany', type: 'Full-time',
+});
+
+const jobs = [
+  makeJob('rust', 'Inference Engineer', 'Northwind AI', 'Serve models with low latency from our Berlin office.', ['Rust', 'CUDA']),
+  makeJob('python', 'Data Engineer', 'Contoso', 'Build pipelines in Python for our Munich team.', ['Python', 'SQL']),
+  makeJob('react', 'Frontend Engineer', 'Tailspin Toys', 'Ship a React design system. Remote within Europe.', ['React', 'TypeScript']),
+];
+
+const ids = (query: string, index = createJobSearchIndex()) => {
+  index.sync(jobs);
+  return index.search(query).map(result => result.job.id);
+};
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and drops stop words', () => {
+    expect(tokenize('That C++ role in Zürich')).toEqual(['c++', 'role', 'zurich']);
+  });
+});
+
+describe('createJobSearchIndex', () => {
+  it('ranks jobs matching more of the query first', () => {
+    expect(ids('that Rust inference role in Berlin')).toEqual(['rust']);
+    expect(ids('engineer python')[0]).toBe('python');
+  });
+
+  it('tolerates typos and matches prefixes', () => {
+    expect(ids('infrence')).toEqual(['rust']);
+    expect(ids('typescirpt')).toEqual(['react']);
+    expect(ids('py')).toEqual(['python']);
+  });
+
+  it('reports the matched terms for highlighting', () => {
+    const index = createJobSearchIndex();
+    index.sync(jobs);
+    expect(index.search('pipe')[0].matchedTerms).toEqual(['pipelines']);
+  });
+
+  it('follows the saved list as jobs are added, changed and removed', () => {
+    const index = createJobSearchIndex();
+    index.sync(jobs);
+    expect(index.size).toBe(3);
+
+    const renamed = { ...jobs[1], title: 'Analytics Engineer' };
+    index.sync([jobs[0], renamed]);
+    expect(index.size).toBe(2);
+    expect(index.search('react')).toEqual([]);
+    expect(index.search('analytics').map(result => result.job)).toEqual([renamed]);
+    expect(index.search('data')).toEqual([]);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(ids('  the ')).toEqual([]);
+  });
+});
+
+describe('highlighting', () => {
+  it('marks the words whose terms matched', () => {
+    expect(highlightSegments('Rust and CUDA, in Rust.', ['rust'])).toEqual([
+      { text: 'Rust', isMatch: true },
+      { text: ' and CUDA, in ', isMatch: false },
+      { text: 'Rust', isMatch: true },
+      { text: '.', isMatch: false },
+    ]);
+  });
+
+  it('starts long text near the first match', () => {
+    const text = `${'Lorem ipsum dolor sit amet. '.repeat(10)}We use Kubernetes daily.`;
+    expect(matchSnippet(text, ['kubernetes'])).toMatch(/^….*Kubernetes daily\.$/);
+    expect(matchSnippet('Short text', ['kubernetes'])).toBe('Short text');
+  });
+});
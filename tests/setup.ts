@@ -0,0 +1,11 @@
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { setLLMClientOverride } from '../services/llmSettings';
+import { clearResponseCache } from '../services/geminiService';
+
+afterEach(() => {
+  cleanup();
+  setLLMClientOverride(null);
+  clearResponseCache();
+  vi.restoreAllMocks();
+});
@@ -0,0 +1,51 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { LLMFixture } from '../../services/fixtureClient';
+import type { LLMRequest } from '../../services/llmClient';
+import { createReplayClient, createRecordingClient } from '../../services/fixtureClient';
+import { createGeminiClient } from '../../services/geminiClient';
+import { setLLMClientOverride } from '../../services/llmSettings';
+
+const FIXTURE_DIR = path.resolve(__dirname, '../fixtures');
+
+// `RECORD_FIXTURES=1 GEMINI_API_KEY=... npm test` re-records fixtures against the real API.
+const isRecording = process.env.RECORD_FIXTURES === '1';
+
+const fixturePath = (name: string) => path.join(FIXTURE_DIR, `${name}.json`);
+
+// Everything the model sees, so retries of one request share a key and different requests don't.
+const requestKey = ({ operation, model, prompt, systemInstruction, attachments, responseSchema }: LLMRequest) =>
+  JSON.stringify([operation, model, prompt, systemInstruction, attachments, responseSchema]);
+
+export const loadFixture = (name: string): LLMFixture =>
+  JSON.parse(fs.readFileSync(fixturePath(name), 'utf-8'));
+
+/**
+ * Routes the next AI requests to the named fixtures, in order. When recording, recorded and
+ * stand-in fixtures are refreshed from the API; synthetic ones are always replayed.
+ * Returns the requests sent while replaying.
+ */
+export const useFixtures = (...names: string[]): LLMRequest[] => {
+  const requests: LLMRequest[] = [];
+  const fixtures = names.map(name => fs.existsSync(fixturePath(name)) ? loadFixture(name) : null);
+  if (isRecording && fixtures.every(fixture => !fixture?.synthetic)) {
+    const pending = [...names];
+    const namesByRequest = new Map<string, string>();
+    const gemini = createGeminiClient(process.env.GEMINI_API_KEY ?? '');
+    setLLMClientOverride(createRecordingClient(gemini, (fixture, request) => {
+      // A retried request overwrites its own fixture, e.g. a rate-limit error with the answer, rather than taking the next name.
+      const key = requestKey(request);
+      const name = namesByRequest.get(key) ?? pending.shift();
+      if (!name) return;
+      namesByRequest.set(key, name);
+      fs.writeFileSync(fixturePath(name), `${JSON.stringify(fixture, null, 2)}\n`);
+    }));
+    return requests;
+  }
+  const missing = names.filter((_, index) => !fixtures[index]);
+  if (missing.length > 0) {
+    throw new Error(`Missing fixtures: ${missing.join(', ')}. Record them with RECORD_FIXTURES=1.`);
+  }
+  setLLMClientOverride(createReplayClient(fixtures as LLMFixture[], request => requests.push(request)));
+  return requests;
+};
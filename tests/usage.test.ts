@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { estimateCost, getUsageReport, recordModelCall, resetUsage, subscribeToUsage } from '../services/usage';
+
+beforeEach(() => {
+  resetUsage();
+});
+
+describe('usage accounting', () => {
+  it('adds up calls per operation and model', () => {
+    recordModelCall({ operation: 'insight', model: 'gemini-2.5-flash', retries: 0, usage: { inputTokens: 100, outputTokens: 50 } });
+    recordModelCall({ operation: 'insight', model: 'gemini-2.5-flash', retries: 2, usage: { inputTokens: 10, outputTokens: 5 }, isEstimate: true });
+    recordModelCall({ operation: 'insight', model: 'gemini-2.5-flash', retries: 3, failed: true });
+    recordModelCall({ operation: 'search', model: 'gemini-2.5-flash', retries: 0, usage: { inputTokens: 1, outputTokens: 1 } });
+
+    expect(getUsageReport().totals).toEqual([
+      { operation: 'insight', model: 'gemini-2.5-flash', requests: 3, failures: 1, retries: 5, inputTokens: 110, outputTokens: 55, hasEstimates: true },
+      { operation: 'search', model: 'gemini-2.5-flash', requests: 1, failures: 0, retries: 0, inputTokens: 1, outputTokens: 1, hasEstimates: false },
+    ]);
+  });
+
+  it('notifies subscribers and keeps the totals across reloads', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToUsage(listener);
+    recordModelCall({ operation: 'match', model: 'mock', retries: 0 });
+    unsubscribe();
+    recordModelCall({ operation: 'match', model: 'mock', retries: 0 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(localStorage.getItem('llmUsage')!).totals[0].requests).toBe(2);
+  });
+
+  it('prices Gemini models by family and leaves unknown models unpriced', () => {
+    expect(estimateCost({ model: 'gemini-2.5-pro', inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(2.25);
+    expect(estimateCost({ model: 'gemini-2.5-flash-lite-preview-06-17', inputTokens: 1_000_000, outputTokens: 0 })).toBeCloseTo(0.1);
+    expect(estimateCost({ model: 'llama3.1', inputTokens: 1000, outputTokens: 1000 })).toBeNull();
+  });
+});
@@ -7,8 +7,19 @@ export interface Job {
   description: string;
   skills: string[];
   salaryRange?: string;
+  // Parsed from `salaryRange`, which is kept as the text to display.
+  salary?: Salary;
+  sources?: string[];
+  // Where each field's value came from; fields without an entry are as the job source listed them.
+  provenance?: Partial<Record<JobField, FieldProvenance>>;
 }
 
+// The fields of a job that are read from a posting and can be edited.
+export type JobField = 'title' | 'company' | 'location' | 'type' | 'description' | 'skills' | 'salaryRange';
+
+// Read from a posting by the parser or the model, made up by the model, or changed by the user.
+export type FieldProvenance = 'ai-extracted' | 'ai-generated' | 'user-edited';
+
 export interface SearchFilters {
   query: string;
   location: string;
@@ -18,8 +29,157 @@ export interface SearchFilters {
   industry: string;
 }
 
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: SearchFilters;
+  // Minutes between automatic re-runs while the app is open; absent when the search only runs on demand.
+  refreshMinutes?: number;
+  // Identity keys (see `jobIdentityKey`) of every job the search has returned, so only new ones raise alerts.
+  seenJobKeys: string[];
+  lastRunAt?: string;
+  lastError?: string;
+  createdAt: string;
+}
+
+// A job that turned up in a saved search for the first time.
+export interface JobAlert {
+  id: string;
+  searchId: string;
+  searchName: string;
+  job: Job;
+  createdAt: string;
+  read: boolean;
+}
+
 export enum InsightType {
   SUMMARY = 'summary',
   SKILLS = 'skills',
   COVER_LETTER = 'cover_letter'
-}
\ No newline at end of file
+}
+
+export type JobSourceState = 'pending' | 'loading' | 'done' | 'error';
+
+export interface JobSourceStatus {
+  id: string;
+  name: string;
+  state: JobSourceState;
+  jobCount: number;
+  error?: string;
+}
+
+export enum ApplicationStage {
+  INTERESTED = 'Interested',
+  APPLIED = 'Applied',
+  PHONE_SCREEN = 'Phone Screen',
+  ONSITE = 'Onsite',
+  OFFER = 'Offer',
+  REJECTED = 'Rejected',
+  WITHDRAWN = 'Withdrawn'
+}
+
+export interface StageChange {
+  stage: ApplicationStage;
+  changedAt: string; // ISO timestamp
+}
+
+export interface ApplicationContact {
+  id: string;
+  name: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface ApplicationEvent {
+  id: string;
+  kind: 'interview' | 'follow-up';
+  date: string; // ISO timestamp
+  note?: string;
+}
+
+export interface Application {
+  jobId: string;
+  stage: ApplicationStage;
+  history: StageChange[];
+  contacts: ApplicationContact[];
+  notes: string;
+  events?: ApplicationEvent[];
+}
+
+export interface TailoringSuggestion {
+  suggestion: string;
+  rationale: string;
+  example: string;
+}
+
+export interface ResumeAnalysis {
+  matchScore: number; // 0-100
+  summary: string;
+  keywords: {
+    matched: string[];
+    missing: string[];
+    emphasize: string[];
+  };
+  suggestions: TailoringSuggestion[];
+}
+
+export interface ResumeFile {
+  name: string;
+  data: string; // base64, without the data URL prefix
+  mimeType: string;
+}
+
+export interface Resume {
+  id: string;
+  name: string;
+  text?: string;
+  file?: ResumeFile;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CoverLetterTone = 'Professional' | 'Enthusiastic' | 'Conversational' | 'Formal';
+
+export type CoverLetterLength = 'Short' | 'Medium' | 'Long';
+
+export interface CoverLetterOptions {
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  emphasis: string;
+  resumeId?: string;
+}
+
+export interface CoverLetterVersion {
+  id: string;
+  jobId: string;
+  createdAt: string;
+  options: CoverLetterOptions;
+  paragraphs: string[];
+}
+
+export type LLMBackendId = 'gemini' | 'openai' | 'mock';
+
+// Each kind of AI request can run on its own model, e.g. a fast one for search and a stronger one for parsing.
+export type LLMOperation = 'search' | 'insight' | 'resume' | 'match' | 'coverLetter' | 'parse';
+
+export interface LLMSettings {
+  backend: LLMBackendId;
+  // When set, Gemini is called from the browser with this key instead of through the app server.
+  geminiApiKey: string;
+  // Base URL of an OpenAI-compatible server, e.g. Ollama or the llama.cpp server.
+  openAiBaseUrl: string;
+  openAiApiKey: string;
+  models: Record<LLMBackendId, Record<LLMOperation, string>>;
+}
+
+export type SalaryPeriod = 'hourly' | 'daily' | 'weekly' | 'monthly' | 'annual';
+
+export interface Salary {
+  min: number;
+  max: number;
+  currency: string; // ISO 4217 code, e.g. "USD"
+  period: SalaryPeriod;
+  // True when the figure was generated or guessed rather than stated in the posting.
+  isEstimate: boolean;
+}
@@ -1,6 +1,8 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiServerPlugin } from './server/apiServer';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,15 +11,31 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // The Gemini key stays on the server; the browser calls its /api endpoints instead.
+        apiServerPlugin({
+          apiKey: env.GEMINI_API_KEY,
+          rateLimit: { limit: Number(env.API_RATE_LIMIT) || 30, windowMs: 60_000 },
+          models: env.API_MODELS ? env.API_MODELS.split(',').map(model => model.trim()).filter(Boolean) : undefined,
+        }),
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.HAS_SERVER_API_KEY': JSON.stringify(env.GEMINI_API_KEY ? 'true' : ''),
+        'process.env.JOB_FEED_URLS': JSON.stringify(env.JOB_FEED_URLS || ''),
+        'process.env.JOB_RSS_FEEDS': JSON.stringify(env.JOB_RSS_FEEDS || ''),
+        'process.env.JOB_API_URLS': JSON.stringify(env.JOB_API_URLS || ''),
+        'process.env.SALARY_CURRENCY': JSON.stringify(env.SALARY_CURRENCY || ''),
+        'process.env.EXCHANGE_RATES': JSON.stringify(env.EXCHANGE_RATES || '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./tests/setup.ts'],
       }
     };
 });